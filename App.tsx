@@ -14,22 +14,95 @@ import {
   ActivityIndicator,
   Alert,
   StatusBar,
+  Switch,
 } from 'react-native';
 import { appCoordinator } from './src/services/AppCoordinator';
-import { bleManager } from './src/services/ble/BLEManager';
+import { g2Session } from './src/services/ble/G2Session';
 import { calendarService } from './src/services/calendar/CalendarService';
-import { G2DeviceInfo, BLEConnectionState } from './src/types/ble.types';
+import { batteryService } from './src/services/battery/BatteryService';
+import {
+  G2DeviceInfo,
+  BLEConnectionState,
+  BLERadioState,
+  KnownDevice,
+  G2Arm,
+  G2Settings,
+  G2Language,
+  G2_SETTINGS,
+  TouchBarEventType,
+} from './src/types/ble.types';
 import { NextEventInfo } from './src/types/calendar.types';
+import { BatteryState, BatteryStatus } from './src/types/battery.types';
+import { GestureAction, GlassesScreen } from './src/types/gesture.types';
+
+const LANGUAGE_NAMES: Record<G2Language, string> = {
+  [G2Language.ENGLISH]: 'English',
+  [G2Language.GERMAN]: 'Deutsch',
+  [G2Language.FRENCH]: 'Français',
+  [G2Language.SPANISH]: 'Español',
+  [G2Language.ITALIAN]: 'Italiano',
+  [G2Language.JAPANESE]: '日本語',
+  [G2Language.CHINESE]: '中文',
+  [G2Language.KOREAN]: '한국어',
+};
+
+const SETTING_STEP = 5; // seconds or degrees per tap
+
+const GESTURE_NAMES: Record<TouchBarEventType, string> = {
+  [TouchBarEventType.TAP]: 'Tap',
+  [TouchBarEventType.DOUBLE_TAP]: 'Double tap',
+  [TouchBarEventType.TRIPLE_TAP]: 'Triple tap',
+  [TouchBarEventType.PRESS_HOLD]: 'Press and hold',
+  [TouchBarEventType.SWIPE_UP]: 'Swipe up',
+  [TouchBarEventType.SWIPE_DOWN]: 'Swipe down',
+};
+
+const ACTION_NAMES: Record<GestureAction, string> = {
+  [GestureAction.NONE]: 'Nothing',
+  [GestureAction.NEXT_EVENT]: 'Next event',
+  [GestureAction.PREVIOUS_EVENT]: 'Previous event',
+  [GestureAction.DISMISS]: 'Dismiss',
+  [GestureAction.SNOOZE]: 'Snooze',
+  [GestureAction.TOGGLE_AGENDA]: 'Toggle agenda',
+  [GestureAction.TOGGLE_TIMELINE]: 'Toggle day timeline',
+  [GestureAction.BRIGHTNESS_UP]: 'Brightness up',
+  [GestureAction.BRIGHTNESS_DOWN]: 'Brightness down',
+  [GestureAction.CLEAR_DISPLAY]: 'Clear display',
+};
+
+const SCREEN_NAMES: Record<GlassesScreen, string> = {
+  [GlassesScreen.NEXT_EVENT]: 'Showing an event',
+  [GlassesScreen.AGENDA]: 'Showing the agenda',
+  [GlassesScreen.TIMELINE]: 'Showing the day timeline',
+  [GlassesScreen.IDLE]: 'Display blank',
+};
+
+const ARM_OPTIONS: Array<G2Arm | null> = [null, G2Arm.LEFT, G2Arm.RIGHT];
+const ARM_NAMES: Record<G2Arm, string> = {
+  [G2Arm.LEFT]: 'Left',
+  [G2Arm.RIGHT]: 'Right',
+};
 
 function App(): React.JSX.Element {
   // State
   const [isInitialized, setIsInitialized] = useState(false);
   const [isScanning, setIsScanning] = useState(false);
   const [devices, setDevices] = useState<G2DeviceInfo[]>([]);
+  const [knownDevices, setKnownDevices] = useState<KnownDevice[]>([]);
   const [connectionState, setConnectionState] = useState<BLEConnectionState>(
     BLEConnectionState.DISCONNECTED
   );
+  const [radioState, setRadioState] = useState<BLERadioState>(BLERadioState.UNKNOWN);
+  const [armStates, setArmStates] = useState<Record<G2Arm, BLEConnectionState | null>>({
+    [G2Arm.LEFT]: null,
+    [G2Arm.RIGHT]: null,
+  });
+  const [battery, setBattery] = useState<BatteryState | null>(null);
   const [nextEvent, setNextEvent] = useState<NextEventInfo | null>(null);
+  const [glassesSettings, setGlassesSettings] = useState<G2Settings | null>(null);
+  const [gestureScreen, setGestureScreen] = useState<GlassesScreen>(GlassesScreen.NEXT_EVENT);
+  const [gestureArm, setGestureArm] = useState<G2Arm | null>(null);
+  const [, setGestureRevision] = useState(0); // Bumped to re-render after a binding changes
   const [error, setError] = useState<string | null>(null);
 
   // Initialize app
@@ -43,26 +116,44 @@ function App(): React.JSX.Element {
   const initializeApp = async () => {
     try {
       await appCoordinator.initialize();
+      setKnownDevices(appCoordinator.getKnownDevices());
+      setRadioState(g2Session.getRadioState());
       setIsInitialized(true);
 
       // Setup listeners
-      bleManager.onConnectionStateChange(state => {
+      g2Session.onConnectionStateChange(state => {
         setConnectionState(state);
+        setArmStates(g2Session.getArmStates());
+        if (state === BLEConnectionState.CONNECTED) {
+          setKnownDevices(appCoordinator.getKnownDevices());
+          loadGlassesSettings();
+        } else if (state !== BLEConnectionState.PARTIALLY_CONNECTED) {
+          setGlassesSettings(null);
+        }
+      });
+
+      g2Session.onRadioStateChange(state => {
+        setRadioState(state);
+      });
+
+      g2Session.onArmStateChange(() => {
+        setArmStates(g2Session.getArmStates());
       });
 
-      bleManager.onDeviceDiscovered(device => {
-        setDevices(prev => {
-          const exists = prev.find(d => d.id === device.id);
-          if (exists) return prev;
-          return [...prev, device];
-        });
+      g2Session.onDeviceDiscovered(() => {
+        // Deduped and sorted by signal strength in the session
+        setDevices(g2Session.getDiscoveredDevices());
       });
 
-      bleManager.onError(error => {
+      g2Session.onError(error => {
         setError(error.message);
         Alert.alert('BLE Error', error.message);
       });
 
+      batteryService.onStateChange(state => {
+        setBattery(state);
+      });
+
       calendarService.onNextEventChange(event => {
         setNextEvent(event);
       });
@@ -103,6 +194,18 @@ function App(): React.JSX.Element {
     }
   };
 
+  const handleReconnect = async () => {
+    try {
+      const connected = await appCoordinator.autoConnect();
+      if (!connected) {
+        Alert.alert('Not Found', 'Your glasses are not in range');
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Connection failed';
+      Alert.alert('Connection Error', message);
+    }
+  };
+
   const handleDisconnect = async () => {
     try {
       await appCoordinator.disconnect();
@@ -123,6 +226,53 @@ function App(): React.JSX.Element {
     }
   };
 
+  const loadGlassesSettings = async () => {
+    try {
+      setGlassesSettings(await appCoordinator.getGlassesSettings());
+    } catch (error) {
+      // Older firmware has no settings characteristic; the section stays hidden
+      console.warn('Glasses settings unavailable:', error);
+      setGlassesSettings(null);
+    }
+  };
+
+  const handleUpdateSettings = async (changes: G2Settings) => {
+    try {
+      setGlassesSettings(await appCoordinator.updateGlassesSettings(changes));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Update failed';
+      Alert.alert('Settings Error', message);
+    }
+  };
+
+  const stepSetting = (value: number, direction: 1 | -1, max: number) =>
+    Math.max(0, Math.min(max, value + direction * SETTING_STEP));
+
+  const nextLanguage = (language: G2Language): G2Language => {
+    const languages = Object.keys(LANGUAGE_NAMES).map(Number) as G2Language[];
+    return languages[(languages.indexOf(language) + 1) % languages.length];
+  };
+
+  const cycle = <T,>(options: T[], current: T): T =>
+    options[(options.indexOf(current) + 1) % options.length];
+
+  const handleCycleGesture = async (gesture: TouchBarEventType) => {
+    const actions = Object.keys(ACTION_NAMES) as GestureAction[];
+    const action = cycle(actions, appCoordinator.getGestureAction(gesture, gestureArm, gestureScreen));
+    try {
+      await appCoordinator.setGestureAction(gesture, gestureArm, gestureScreen, action);
+      setGestureRevision(revision => revision + 1);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Update failed';
+      Alert.alert('Gesture Error', message);
+    }
+  };
+
+  const handleResetGestures = async () => {
+    await appCoordinator.resetGestureBindings();
+    setGestureRevision(revision => revision + 1);
+  };
+
   const renderDevice = ({ item }: { item: G2DeviceInfo }) => (
     <TouchableOpacity
       style={styles.deviceItem}
@@ -161,12 +311,39 @@ function App(): React.JSX.Element {
       <View style={styles.header}>
         <Text style={styles.title}>Even G2 Calendar</Text>
         <Text style={styles.subtitle}>
-          {connectionState === BLEConnectionState.CONNECTED
+          {radioState === BLERadioState.POWERED_OFF
+            ? '⚪ Bluetooth is off'
+            : connectionState === BLEConnectionState.CONNECTED
             ? '🟢 Connected'
+            : connectionState === BLEConnectionState.PARTIALLY_CONNECTED
+            ? `🟠 ${armStates[G2Arm.LEFT] === BLEConnectionState.CONNECTED ? 'Right' : 'Left'} arm disconnected`
+            : connectionState === BLEConnectionState.RECONNECTING
+            ? '🟡 Reconnecting...'
+            : connectionState === BLEConnectionState.SCANNING && !isScanning && knownDevices.length > 0
+            ? `🟡 Looking for ${knownDevices[0].name}...`
             : '🔴 Disconnected'}
         </Text>
+        {battery && battery.level !== null && (
+          <Text style={styles.batteryText}>🔋 {battery.level}%</Text>
+        )}
       </View>
 
+      {/* Low Battery Banner */}
+      {battery && battery.level !== null && battery.status !== BatteryStatus.NORMAL && (
+        <View
+          style={[
+            styles.batteryBanner,
+            battery.status === BatteryStatus.CRITICAL && styles.batteryBannerCritical,
+          ]}
+        >
+          <Text style={styles.batteryBannerText}>
+            {battery.status === BatteryStatus.CRITICAL ? 'Glasses battery critical' : 'Glasses battery low'}
+            : {battery.level}%
+            {battery.minutesRemaining !== null ? ` (about ${battery.minutesRemaining} min left)` : ''}
+          </Text>
+        </View>
+      )}
+
       {/* Next Event Display */}
       {nextEvent && (
         <View style={styles.eventCard}>
@@ -194,19 +371,43 @@ function App(): React.JSX.Element {
 
       {/* Actions */}
       <View style={styles.actions}>
-        {connectionState === BLEConnectionState.DISCONNECTED && (
+        {connectionState === BLEConnectionState.DISCONNECTED && knownDevices.length > 0 && (
           <TouchableOpacity
             style={styles.button}
+            onPress={handleReconnect}
+            disabled={isScanning}
+          >
+            <Text style={styles.buttonText}>Connect to {knownDevices[0].name}</Text>
+          </TouchableOpacity>
+        )}
+
+        {connectionState === BLEConnectionState.DISCONNECTED && (
+          <TouchableOpacity
+            style={[styles.button, knownDevices.length > 0 && styles.buttonSecondary]}
             onPress={handleScan}
             disabled={isScanning}
           >
             <Text style={styles.buttonText}>
-              {isScanning ? 'Scanning...' : 'Scan for G2'}
+              {isScanning
+                ? 'Scanning...'
+                : knownDevices.length > 0
+                ? 'Pair New Glasses'
+                : 'Scan for G2'}
             </Text>
           </TouchableOpacity>
         )}
 
-        {connectionState === BLEConnectionState.CONNECTED && (
+        {connectionState === BLEConnectionState.RECONNECTING && (
+          <TouchableOpacity
+            style={[styles.button, styles.buttonSecondary]}
+            onPress={handleDisconnect}
+          >
+            <Text style={styles.buttonText}>Stop Reconnecting</Text>
+          </TouchableOpacity>
+        )}
+
+        {(connectionState === BLEConnectionState.CONNECTED ||
+          connectionState === BLEConnectionState.PARTIALLY_CONNECTED) && (
           <>
             <TouchableOpacity
               style={[styles.button, styles.buttonSecondary]}
@@ -224,6 +425,125 @@ function App(): React.JSX.Element {
         )}
       </View>
 
+      {/* Glasses Settings */}
+      {glassesSettings && (
+        <View style={styles.settingsCard}>
+          <Text style={styles.sectionTitle}>Glasses Settings</Text>
+
+          {glassesSettings.displayTimeout !== undefined && (
+            <View style={styles.settingRow}>
+              <Text style={styles.settingLabel}>Display timeout</Text>
+              <View style={styles.stepper}>
+                <TouchableOpacity
+                  style={styles.stepperButton}
+                  onPress={() => handleUpdateSettings({
+                    displayTimeout: stepSetting(glassesSettings.displayTimeout!, -1, G2_SETTINGS.MAX_DISPLAY_TIMEOUT),
+                  })}
+                >
+                  <Text style={styles.stepperButtonText}>−</Text>
+                </TouchableOpacity>
+                <Text style={styles.settingValue}>
+                  {glassesSettings.displayTimeout === 0 ? 'Always on' : `${glassesSettings.displayTimeout} s`}
+                </Text>
+                <TouchableOpacity
+                  style={styles.stepperButton}
+                  onPress={() => handleUpdateSettings({
+                    displayTimeout: stepSetting(glassesSettings.displayTimeout!, 1, G2_SETTINGS.MAX_DISPLAY_TIMEOUT),
+                  })}
+                >
+                  <Text style={styles.stepperButtonText}>+</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          {glassesSettings.headUpAngle !== undefined && (
+            <View style={styles.settingRow}>
+              <Text style={styles.settingLabel}>Head-up angle</Text>
+              <View style={styles.stepper}>
+                <TouchableOpacity
+                  style={styles.stepperButton}
+                  onPress={() => handleUpdateSettings({
+                    headUpAngle: stepSetting(glassesSettings.headUpAngle!, -1, G2_SETTINGS.MAX_HEAD_UP_ANGLE),
+                  })}
+                >
+                  <Text style={styles.stepperButtonText}>−</Text>
+                </TouchableOpacity>
+                <Text style={styles.settingValue}>
+                  {glassesSettings.headUpAngle === 0 ? 'Off' : `${glassesSettings.headUpAngle}°`}
+                </Text>
+                <TouchableOpacity
+                  style={styles.stepperButton}
+                  onPress={() => handleUpdateSettings({
+                    headUpAngle: stepSetting(glassesSettings.headUpAngle!, 1, G2_SETTINGS.MAX_HEAD_UP_ANGLE),
+                  })}
+                >
+                  <Text style={styles.stepperButtonText}>+</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          {glassesSettings.wearDetection !== undefined && (
+            <View style={styles.settingRow}>
+              <Text style={styles.settingLabel}>Wear detection</Text>
+              <Switch
+                value={glassesSettings.wearDetection}
+                onValueChange={value => handleUpdateSettings({ wearDetection: value })}
+              />
+            </View>
+          )}
+
+          {glassesSettings.language !== undefined && (
+            <TouchableOpacity
+              style={styles.settingRow}
+              onPress={() => handleUpdateSettings({ language: nextLanguage(glassesSettings.language!) })}
+            >
+              <Text style={styles.settingLabel}>Language</Text>
+              <Text style={styles.settingValue}>{LANGUAGE_NAMES[glassesSettings.language]}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {/* TouchBar Gestures */}
+      <View style={styles.settingsCard}>
+        <Text style={styles.sectionTitle}>TouchBar Gestures</Text>
+
+        <TouchableOpacity
+          style={styles.settingRow}
+          onPress={() => setGestureScreen(cycle(Object.values(GlassesScreen), gestureScreen))}
+        >
+          <Text style={styles.settingLabel}>When</Text>
+          <Text style={styles.settingValue}>{SCREEN_NAMES[gestureScreen]}</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.settingRow}
+          onPress={() => setGestureArm(cycle(ARM_OPTIONS, gestureArm))}
+        >
+          <Text style={styles.settingLabel}>Arm</Text>
+          <Text style={styles.settingValue}>{gestureArm ? ARM_NAMES[gestureArm] : 'Either'}</Text>
+        </TouchableOpacity>
+
+        {(Object.keys(GESTURE_NAMES) as TouchBarEventType[]).map(gesture => (
+          <TouchableOpacity
+            key={gesture}
+            style={styles.settingRow}
+            onPress={() => handleCycleGesture(gesture)}
+          >
+            <Text style={styles.settingLabel}>{GESTURE_NAMES[gesture]}</Text>
+            <Text style={styles.settingValue}>
+              {ACTION_NAMES[appCoordinator.getGestureAction(gesture, gestureArm, gestureScreen)]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+
+        <TouchableOpacity style={styles.settingRow} onPress={handleResetGestures}>
+          <Text style={styles.resetText}>Reset to defaults</Text>
+        </TouchableOpacity>
+      </View>
+
       {/* Device List */}
       {isScanning || devices.length > 0 ? (
         <View style={styles.deviceList}>
@@ -288,6 +608,26 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 4,
   },
+  batteryText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  batteryBanner: {
+    marginHorizontal: 16,
+    marginTop: 16,
+    padding: 12,
+    backgroundColor: '#FF9500',
+    borderRadius: 8,
+  },
+  batteryBannerCritical: {
+    backgroundColor: '#FF3B30',
+  },
+  batteryBannerText: {
+    color: '#FFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   eventCard: {
     margin: 16,
     padding: 20,
@@ -354,6 +694,49 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  settingsCard: {
+    marginHorizontal: 16,
+    marginBottom: 16,
+    padding: 16,
+    backgroundColor: '#FFF',
+    borderRadius: 12,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  settingLabel: {
+    fontSize: 16,
+    color: '#000',
+  },
+  settingValue: {
+    fontSize: 16,
+    color: '#007AFF',
+    minWidth: 72,
+    textAlign: 'center',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#E5E5EA',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperButtonText: {
+    fontSize: 18,
+    color: '#000',
+  },
+  resetText: {
+    fontSize: 16,
+    color: '#FF3B30',
+  },
   deviceList: {
     flex: 1,
     padding: 16,
@@ -0,0 +1,82 @@
+/**
+ * Simulator Fixtures
+ * Glasses simulator with a manager or session connected to it, set up before
+ * and torn down after each spec of the suite that calls them
+ */
+
+import { G2Simulator, G2SimulatorTransport } from '@/services/ble/G2Simulator';
+import { G2BLEManager } from '@/services/ble/BLEManager';
+import { G2Session } from '@/services/ble/G2Session';
+import { BLEManagerConfig } from '@/types/ble.types';
+
+// Reconnects land within a spec instead of after the 2 s default
+const FAST_RECONNECT: Partial<BLEManagerConfig> = { reconnectDelay: 10, reconnectJitter: 0 };
+
+export interface ManagerFixture {
+  glasses: G2Simulator;
+  manager: G2BLEManager;
+}
+
+export interface SessionFixture {
+  glasses: G2Simulator;
+  session: G2Session;
+}
+
+/**
+ * Keep the services' progress logging out of the test output
+ * Spies are restored after each spec (restoreMocks)
+ */
+export function silenceConsole(): void {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+}
+
+/**
+ * A manager connected to fresh glasses for every spec
+ * Fields are filled in by beforeEach, so read them inside the specs
+ */
+export function useConnectedManager(config: Partial<BLEManagerConfig> = {}): ManagerFixture {
+  const fixture = {} as ManagerFixture;
+
+  beforeEach(async () => {
+    silenceConsole();
+    fixture.glasses = new G2Simulator();
+    fixture.manager = new G2BLEManager(
+      { ...FAST_RECONNECT, ...config },
+      new G2SimulatorTransport([fixture.glasses])
+    );
+    await fixture.manager.initialize();
+    await fixture.manager.connect(fixture.glasses.config.id);
+  });
+
+  afterEach(async () => {
+    await fixture.manager.disconnect();
+  });
+
+  return fixture;
+}
+
+/**
+ * A dual-arm session connected to fresh (single-peripheral) glasses for every spec
+ */
+export function useConnectedSession(managerConfig: Partial<BLEManagerConfig> = {}): SessionFixture {
+  const fixture = {} as SessionFixture;
+
+  beforeEach(async () => {
+    silenceConsole();
+    fixture.glasses = new G2Simulator();
+    fixture.session = new G2Session(
+      {},
+      { ...FAST_RECONNECT, ...managerConfig },
+      new G2SimulatorTransport([fixture.glasses])
+    );
+    await fixture.session.initialize();
+    await fixture.session.connect(fixture.glasses.config.id);
+  });
+
+  afterEach(async () => {
+    await fixture.session.disconnect();
+  });
+
+  return fixture;
+}
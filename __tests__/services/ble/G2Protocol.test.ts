@@ -0,0 +1,445 @@
+import {
+  crc16Ccitt,
+  G2FrameParser,
+  G2PacketFragmenter,
+  G2PacketReassembler,
+  G2ProtocolDecoder,
+  G2ProtocolEncoder,
+  G2ProtocolUtils,
+} from '@/services/ble/G2Protocol';
+import {
+  ChecksumType,
+  DisplayCommandType,
+  G2_TOUCHBAR,
+  G2Arm,
+  G2Language,
+  G2Notification,
+  G2Settings,
+  NotificationType,
+  TextAlignment,
+  TextDisplayCommand,
+  TextStyleFlag,
+  TouchBarEventType,
+} from '@/types/ble.types';
+
+const ascii = (text: string) => new Uint8Array([...text].map(char => char.charCodeAt(0)));
+
+describe('frame checksums', () => {
+  describe('CRC-16/CCITT-FALSE', () => {
+    it.each([
+      ['the check string', ascii('123456789'), 0x29B1],
+      ['no bytes', new Uint8Array([]), 0xFFFF],
+      ['a single zero', new Uint8Array([0x00]), 0xE1F0],
+      ['"A"', ascii('A'), 0xB915],
+    ])('matches the reference value for %s', (_, data, expected) => {
+      expect(crc16Ccitt(data)).toBe(expected);
+    });
+    
+    it('continues from a previous value', () => {
+      const data = ascii('123456789');
+      expect(crc16Ccitt(data.subarray(4), crc16Ccitt(data.subarray(0, 4)))).toBe(0x29B1);
+    });
+  });
+  
+  describe('XOR8', () => {
+    const encoder = new G2ProtocolEncoder(ChecksumType.XOR8);
+    
+    it.each([
+      ['no bytes', new Uint8Array([]), 0xFF],
+      ['bytes that cancel out', new Uint8Array([0x01, 0x02, 0x03]), 0xFF],
+      ['two bytes', new Uint8Array([0x12, 0x34]), 0xD9],
+      ['the check string', ascii('123456789'), 0xCE],
+    ])('is seeded with 0xFF for %s', (_, data, expected) => {
+      expect(encoder.calculateChecksum(data)).toBe(expected);
+    });
+  });
+  
+  describe.each([
+    [ChecksumType.XOR8, 1],
+    [ChecksumType.CRC16_CCITT, 2],
+  ])('%s frames', (checksumType, checksumLength) => {
+    const encoder = new G2ProtocolEncoder(checksumType);
+    const decoder = new G2ProtocolDecoder(checksumType);
+    const frame = encoder.encodeNotification({ type: NotificationType.ACK, sequence: 0x1234 });
+    
+    it('checksum everything after the header, little-endian', () => {
+      const checksumIndex = frame.length - checksumLength;
+      const checksum = checksumLength === 2
+        ? frame[checksumIndex] | (frame[checksumIndex + 1] << 8)
+        : frame[checksumIndex];
+      
+      expect(checksum).toBe(encoder.calculateChecksum(frame.slice(1, checksumIndex)));
+      expect(decoder.validateChecksum(frame)).toBe(true);
+    });
+    
+    it('fail validation with a flipped bit', () => {
+      const corrupted = frame.slice();
+      corrupted[4] ^= 0x01;
+      
+      expect(decoder.validateChecksum(corrupted)).toBe(false);
+    });
+  });
+  
+  it('only CRC-16 catches swapped payload bytes', () => {
+    const notification = { type: NotificationType.ACK as const, sequence: 0x1234 };
+    
+    const validAfterSwap = (checksumType: ChecksumType) => {
+      const frame = new G2ProtocolEncoder(checksumType).encodeNotification(notification);
+      [frame[4], frame[5]] = [frame[5], frame[4]];
+      return new G2ProtocolDecoder(checksumType).validateChecksum(frame);
+    };
+    
+    expect(validAfterSwap(ChecksumType.XOR8)).toBe(true);
+    expect(validAfterSwap(ChecksumType.CRC16_CCITT)).toBe(false);
+  });
+});
+
+describe('TEXT commands', () => {
+  const encoder = new G2ProtocolEncoder();
+  const decoder = new G2ProtocolDecoder();
+  const text: TextDisplayCommand = { type: DisplayCommandType.TEXT, x: 10, y: 20, text: 'Standup', alignment: TextAlignment.LEFT };
+  
+  // Payload starts after the header, command type and length
+  const styleByte = (command: TextDisplayCommand) => encoder.encodeTextCommand(command)[4 + 6];
+  
+  it.each([
+    [{}, 0x00],
+    [{ bold: true }, TextStyleFlag.BOLD],
+    [{ inverted: true }, TextStyleFlag.INVERTED],
+    [{ underline: true }, TextStyleFlag.UNDERLINE],
+    [{ bold: true, inverted: true, underline: true }, 0x07],
+  ])('encodes the style %p into the style byte', (style, flags) => {
+    expect(styleByte({ ...text, ...style })).toBe(flags);
+  });
+  
+  it('round-trips the style flags and clip width', () => {
+    const command = { ...text, fontSize: 24, bold: true, underline: true, maxWidth: 300 };
+    
+    expect(decoder.decodeCommand(encoder.encodeTextCommand(command))).toEqual({ ...command, inverted: false });
+  });
+  
+  it('encodes a missing clip width as 0', () => {
+    const decoded = decoder.decodeCommand(encoder.encodeTextCommand(text));
+    
+    expect(decoded).toMatchObject({ maxWidth: 0 });
+  });
+  
+  it.each([
+    ['without a clip width', {}, true],
+    ['clipped at the right edge', { x: 40, maxWidth: 600 }, true],
+    ['clipped past the right edge', { x: 41, maxWidth: 600 }, false],
+    ['with a negative clip width', { maxWidth: -1 }, false],
+    ['with empty text', { text: '' }, false],
+    ['off the display', { y: 200 }, false],
+  ])('validates text %s', (_, changes, valid) => {
+    expect(G2ProtocolUtils.validateCommand({ ...text, ...changes })).toBe(valid);
+  });
+});
+
+describe('G2FrameParser', () => {
+  const encoder = new G2ProtocolEncoder();
+  const ack = (sequence: number) => encoder.encodeNotification({ type: NotificationType.ACK, sequence });
+  const concat = (...parts: Uint8Array[]) => new Uint8Array(parts.flatMap(part => [...part]));
+  const sequences = (notifications: G2Notification[]) =>
+    notifications.map(notification => notification.type === NotificationType.ACK && notification.sequence);
+  
+  let parser: G2FrameParser;
+  
+  beforeEach(() => {
+    parser = new G2FrameParser();
+  });
+  
+  it('buffers a frame split across notifications', () => {
+    const frame = ack(7);
+    
+    expect(parser.push(frame.subarray(0, 3))).toEqual([]);
+    expect(parser.push(frame.subarray(3, 5))).toEqual([]);
+    expect(sequences(parser.push(frame.subarray(5)))).toEqual([7]);
+  });
+  
+  it('returns every frame merged into one notification', () => {
+    expect(sequences(parser.push(concat(ack(1), ack(2), ack(3))))).toEqual([1, 2, 3]);
+  });
+  
+  it('skips noise before a frame', () => {
+    expect(sequences(parser.push(concat(new Uint8Array([0xAA, 0x55, 0x00]), ack(4))))).toEqual([4]);
+  });
+  
+  it('keeps 0x02 bytes inside a payload', () => {
+    expect(sequences(parser.push(ack(0x0202)))).toEqual([0x0202]);
+  });
+  
+  it('does not stall on a stray header that claims a longer frame', () => {
+    // Plausible ACK header announcing 16 payload bytes that never arrive
+    const stray = new Uint8Array([0x02, NotificationType.ACK, 0x10, 0x00]);
+    
+    expect(sequences(parser.push(concat(stray, ack(5))))).toEqual([5]);
+  });
+  
+  it('drops a frame with a bad checksum and decodes the next one', () => {
+    const corrupted = ack(8);
+    corrupted[corrupted.length - 1] ^= 0xFF;
+    
+    expect(sequences(parser.push(concat(corrupted, ack(9))))).toEqual([9]);
+  });
+  
+  it('reports a checksum-valid frame that fails to decode and moves on', () => {
+    const onDecodeError = jest.fn();
+    parser = new G2FrameParser(new G2ProtocolDecoder(), onDecodeError);
+    
+    // ACK with a 1-byte payload, too short for its sequence number
+    const body = new Uint8Array([NotificationType.ACK, 0x01, 0x00, 0x05]);
+    const short = concat(new Uint8Array([0x02]), body, new Uint8Array([encoder.calculateChecksum(body)]));
+    
+    expect(sequences(parser.push(concat(short, ack(10))))).toEqual([10]);
+    expect(onDecodeError).toHaveBeenCalledWith(expect.any(Error));
+  });
+  
+  it('forgets buffered bytes on reset', () => {
+    const frame = ack(11);
+    parser.push(frame.subarray(0, 4));
+    parser.reset();
+    
+    expect(sequences(parser.push(frame))).toEqual([11]);
+  });
+});
+
+describe('fragmentation', () => {
+  const frame = new Uint8Array(1000).map((_, i) => i & 0xFF);
+  
+  let fragmenter: G2PacketFragmenter;
+  let reassembler: G2PacketReassembler;
+  
+  beforeEach(() => {
+    fragmenter = new G2PacketFragmenter();
+    reassembler = new G2PacketReassembler();
+  });
+  
+  const reassemble = (fragments: Uint8Array[]) => fragments.map(fragment => reassembler.push(fragment));
+  
+  it.each([
+    [23, 17, 59],
+    [512, 506, 2],
+  ])('round-trips a frame at MTU %i (%i bytes per fragment)', (mtu, chunkSize, count) => {
+    const fragments = fragmenter.fragment(frame, mtu);
+    
+    expect(fragments).toHaveLength(count);
+    fragments.forEach(fragment => expect(fragment.length).toBeLessThanOrEqual(mtu - 3));
+    expect(fragments[0].subarray(0, 3)).toEqual(new Uint8Array([0, 0, count]));
+    expect(fragments[0].length - 3).toBe(chunkSize);
+    
+    const results = reassemble(fragments);
+    expect(results.slice(0, -1).every(result => result === null)).toBe(true);
+    expect(results[results.length - 1]).toEqual(frame);
+  });
+  
+  it('reassembles the fragments after index 0 in any order', () => {
+    const fragments = fragmenter.fragment(frame, 100);
+    
+    const results = reassemble([fragments[0], ...fragments.slice(1).reverse()]);
+    expect(results[results.length - 1]).toEqual(frame);
+  });
+  
+  it('never uses less than the minimum MTU', () => {
+    expect(fragmenter.fragment(frame, 10)).toHaveLength(fragmenter.fragment(frame, 23).length);
+  });
+  
+  it('rejects a frame that needs more than 255 fragments', () => {
+    expect(fragmenter.fragment(new Uint8Array(17 * 255), 23)).toHaveLength(255);
+    expect(() => fragmenter.fragment(new Uint8Array(17 * 255 + 1), 23)).toThrow('needs 256 fragments at MTU 23');
+  });
+  
+  it('numbers messages so their fragments can interleave', () => {
+    const first = fragmenter.fragment(frame, 512);
+    const second = fragmenter.fragment(frame.map(byte => byte ^ 0xFF), 512);
+    
+    expect(first[0][0]).not.toBe(second[0][0]);
+    expect(reassemble([first[0], second[0], first[1], second[1]])).toEqual([
+      null,
+      null,
+      frame,
+      frame.map(byte => byte ^ 0xFF),
+    ]);
+  });
+  
+  it('discards a stale partial message once newer fragments arrive', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const stale = fragmenter.fragment(frame, 512);
+    const next = fragmenter.fragment(frame, 512);
+    
+    expect(reassembler.push(stale[0])).toBeNull();
+    
+    now.mockReturnValue(1000 + 2001);
+    expect(reassemble(next)).toEqual([null, frame]);
+    
+    // The first half is gone, so the late second half alone completes nothing
+    expect(reassembler.push(stale[1])).toBeNull();
+  });
+  
+  it('restarts a message when its index 0 arrives again', () => {
+    const original = fragmenter.fragment(frame.subarray(0, 50), 23);
+    const resent = fragmenter.fragment(frame.subarray(50, 100), 23).map(fragment => {
+      const copy = fragment.slice();
+      copy[0] = original[0][0]; // Same message id as the interrupted message
+      return copy;
+    });
+    
+    reassemble(original.slice(0, 2));
+    const results = reassemble(resent);
+    
+    expect(results[results.length - 1]).toEqual(frame.subarray(50, 100));
+  });
+  
+  it.each([
+    ['shorter than its header', new Uint8Array([0, 0])],
+    ['with no fragments', new Uint8Array([0, 0, 0])],
+    ['with an index past the total', new Uint8Array([0, 2, 2])],
+  ])('rejects a fragment %s', (_, data) => {
+    expect(() => reassembler.push(data)).toThrow();
+  });
+});
+
+describe('TouchBar events', () => {
+  const decoder = new G2ProtocolDecoder();
+  const { SIDE_LEFT, SIDE_RIGHT, SIDE_UNKNOWN } = G2_TOUCHBAR;
+  
+  // [event type][side][timestamp 4B LE][detail 2B LE]
+  const record = (code: number, side: number, detail = 0) =>
+    [code, side, 0x10, 0x20, 0x30, 0x40, detail & 0xFF, detail >> 8];
+  const packet = (...records: number[][]) => new Uint8Array([records.length, ...records.flat()]);
+  const summary = (payload: Uint8Array) =>
+    decoder.decodeTouchBarEvents(payload).map(({ type, code, arm, duration, velocity }) =>
+      ({ type, code, arm, duration, velocity }));
+  
+  it('decodes a legacy single-event payload without side or detail', () => {
+    expect(summary(new Uint8Array([0x04, 0x10, 0x20, 0x30, 0x40]))).toEqual([
+      { type: TouchBarEventType.PRESS_HOLD, code: 0x04, arm: null, duration: undefined, velocity: undefined },
+    ]);
+  });
+  
+  it('decodes every record of a multi-event payload in order', () => {
+    expect(summary(packet(record(0x01, SIDE_LEFT), record(0x02, SIDE_RIGHT), record(0x03, SIDE_UNKNOWN)))).toEqual([
+      { type: TouchBarEventType.TAP, code: 0x01, arm: G2Arm.LEFT, duration: undefined, velocity: undefined },
+      { type: TouchBarEventType.DOUBLE_TAP, code: 0x02, arm: G2Arm.RIGHT, duration: undefined, velocity: undefined },
+      { type: TouchBarEventType.TRIPLE_TAP, code: 0x03, arm: null, duration: undefined, velocity: undefined },
+    ]);
+  });
+  
+  it('maps the detail to hold duration and swipe velocity only', () => {
+    expect(summary(packet(
+      record(0x04, SIDE_LEFT, 1500),
+      record(0x05, SIDE_LEFT, 320),
+      record(0x06, SIDE_RIGHT, 0xFFFF),
+      record(0x01, SIDE_RIGHT, 700)
+    ))).toEqual([
+      { type: TouchBarEventType.PRESS_HOLD, code: 0x04, arm: G2Arm.LEFT, duration: 1500, velocity: undefined },
+      { type: TouchBarEventType.SWIPE_UP, code: 0x05, arm: G2Arm.LEFT, duration: undefined, velocity: 320 },
+      { type: TouchBarEventType.SWIPE_DOWN, code: 0x06, arm: G2Arm.RIGHT, duration: undefined, velocity: 0xFFFF },
+      { type: TouchBarEventType.TAP, code: 0x01, arm: G2Arm.RIGHT, duration: undefined, velocity: undefined },
+    ]);
+  });
+  
+  it('drops unknown codes without fabricating a tap', () => {
+    expect(summary(new Uint8Array([0x00, 0x10, 0x20, 0x30, 0x40]))).toEqual([]);
+    expect(summary(packet(record(0x07, SIDE_LEFT), record(0x05, SIDE_RIGHT, 90), record(0xFF, SIDE_RIGHT))))
+      .toEqual([{ type: TouchBarEventType.SWIPE_UP, code: 0x05, arm: G2Arm.RIGHT, duration: undefined, velocity: 90 }]);
+  });
+  
+  it('treats an unknown side byte as no arm', () => {
+    expect(summary(packet(record(0x01, 0x02)))[0].arm).toBeNull();
+  });
+  
+  it.each([
+    ['cut after the arm byte', packet(record(0x01, SIDE_LEFT)).subarray(0, 3)],
+    ['cut inside the detail', packet(record(0x04, SIDE_RIGHT, 1500)).subarray(0, 8)],
+    ['missing a counted record', new Uint8Array([2, ...record(0x01, SIDE_LEFT)])],
+    ['empty', new Uint8Array([])],
+  ])('rejects a truncated payload (%s) instead of reading past it', (_, payload) => {
+    expect(() => decoder.decodeTouchBarEvents(payload)).toThrow('Invalid TouchBar event data');
+  });
+  
+  it('round-trips through the notification encoder', () => {
+    const encoder = new G2ProtocolEncoder();
+    const events = [
+      { type: TouchBarEventType.PRESS_HOLD, code: 0x04, arm: G2Arm.LEFT, duration: 800, timestamp: new Date() },
+      { type: TouchBarEventType.SWIPE_DOWN, code: 0x06, arm: null, velocity: 150, timestamp: new Date() },
+    ];
+    const [notification] = new G2FrameParser().push(
+      encoder.encodeNotification({ type: NotificationType.TOUCHBAR, events })
+    );
+    
+    expect(notification.type === NotificationType.TOUCHBAR && notification.events.map(({ type, arm, duration, velocity }) =>
+      ({ type, arm, duration, velocity }))).toEqual([
+      { type: TouchBarEventType.PRESS_HOLD, arm: G2Arm.LEFT, duration: 800, velocity: undefined },
+      { type: TouchBarEventType.SWIPE_DOWN, arm: null, duration: undefined, velocity: 150 },
+    ]);
+  });
+});
+
+describe('settings records', () => {
+  const encoder = new G2ProtocolEncoder();
+  const decoder = new G2ProtocolDecoder();
+  const bytes = (...values: number[]) => new Uint8Array(values);
+  
+  it.each<[string, G2Settings, number[]]>([
+    ['an always-on display', { displayTimeout: 0 }, [0x01, 0x02, 0x00, 0x00]],
+    ['the longest display timeout', { displayTimeout: 600 }, [0x01, 0x02, 0x58, 0x02]],
+    ['head-up activation off', { headUpAngle: 0 }, [0x02, 0x01, 0x00]],
+    ['the steepest head-up angle', { headUpAngle: 60 }, [0x02, 0x01, 0x3C]],
+    ['wear detection on', { wearDetection: true }, [0x03, 0x01, 0x01]],
+    ['wear detection off', { wearDetection: false }, [0x03, 0x01, 0x00]],
+    ['the language', { language: G2Language.KOREAN }, [0x04, 0x01, 0x08]],
+  ])('round-trips %s', (_, settings, entry) => {
+    const record = encoder.encodeSettings(settings);
+    
+    expect(record).toEqual(bytes(0x01, ...entry));
+    expect(decoder.decodeSettings(record)).toEqual(settings);
+  });
+  
+  it('round-trips the documented example record', () => {
+    const settings = { displayTimeout: 30, headUpAngle: 20, wearDetection: true, language: G2Language.ENGLISH };
+    const record = bytes(0x01, 0x01, 0x02, 0x1E, 0x00, 0x02, 0x01, 0x14, 0x03, 0x01, 0x01, 0x04, 0x01, 0x01);
+    
+    expect(encoder.encodeSettings(settings)).toEqual(record);
+    expect(decoder.decodeSettings(record)).toEqual(settings);
+  });
+  
+  it('writes only the format byte for no changes', () => {
+    expect(encoder.encodeSettings({})).toEqual(bytes(0x01));
+  });
+  
+  it.each<[string, G2Settings]>([
+    ['a negative timeout', { displayTimeout: -1 }],
+    ['a timeout past 600 s', { displayTimeout: 601 }],
+    ['a fractional timeout', { displayTimeout: 1.5 }],
+    ['a negative angle', { headUpAngle: -1 }],
+    ['an angle past 60°', { headUpAngle: 61 }],
+    ['an unknown language', { language: 0x09 as G2Language }],
+  ])('throws a RangeError for %s', (_, settings) => {
+    expect(() => encoder.encodeSettings(settings)).toThrow(RangeError);
+  });
+  
+  it('skips keys it does not know', () => {
+    expect(decoder.decodeSettings(bytes(0x01, 0x09, 0x03, 0xAA, 0xBB, 0xCC, 0x02, 0x01, 0x14, 0x7F, 0x00)))
+      .toEqual({ headUpAngle: 20 });
+  });
+  
+  it('leaves out a language it does not know', () => {
+    expect(decoder.decodeSettings(bytes(0x01, 0x04, 0x01, 0x09, 0x03, 0x01, 0x01))).toEqual({ wearDetection: true });
+  });
+  
+  it.each([
+    ['a value shorter than its length', bytes(0x01, 0x01, 0x02, 0x1E)],
+    ['a key without a length', bytes(0x01, 0x02, 0x01, 0x14, 0x03)],
+    ['an unknown key cut short', bytes(0x01, 0x09, 0x04, 0xAA)],
+  ])('rejects a truncated record: %s', (_, record) => {
+    expect(() => decoder.decodeSettings(record)).toThrow('Truncated settings record');
+  });
+  
+  it.each([
+    ['an empty record', bytes()],
+    ['an unknown format', bytes(0x02, 0x02, 0x01, 0x14)],
+  ])('rejects %s', (_, record) => {
+    expect(() => decoder.decodeSettings(record)).toThrow('Invalid settings record');
+  });
+});
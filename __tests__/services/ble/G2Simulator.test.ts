@@ -0,0 +1,128 @@
+import {
+  BLEConnectionState,
+  BLEErrorType,
+  DisplayCommand,
+  DisplayCommandType,
+  NackReason,
+  TextAlignment,
+  TouchBarEvent,
+  TouchBarEventType,
+} from '@/types/ble.types';
+import { useConnectedManager } from '../../helpers/simulator';
+
+describe('G2BLEManager against the simulator', () => {
+  const fixture = useConnectedManager();
+  
+  it('connects and negotiates the v2 protocol', () => {
+    expect(fixture.manager.isConnected()).toBe(true);
+    expect(fixture.manager.getConnectionState()).toBe(BLEConnectionState.CONNECTED);
+    expect(fixture.manager.getCapabilities()?.protocolVersion).toBe(2);
+  });
+  
+  it('draws text and resolves once the command is acknowledged', async () => {
+    await fixture.manager.sendCommand({ type: DisplayCommandType.TEXT, x: 10, y: 20, text: 'Standup', alignment: TextAlignment.LEFT });
+    
+    expect(fixture.glasses.getVisibleText()).toEqual(['Standup']);
+    expect(fixture.glasses.getReceivedCommands()).toHaveLength(1);
+    expect(fixture.manager.getLinkMetrics().commandsSent).toBe(1);
+    expect(fixture.manager.getPendingWriteCount()).toBe(0);
+  });
+  
+  it('rejects an invalid command before anything is written', async () => {
+    await expect(fixture.manager.sendCommands([
+      { type: DisplayCommandType.CLEAR },
+      { type: DisplayCommandType.TEXT, x: 600, y: 20, text: 'Too wide', alignment: TextAlignment.LEFT, maxWidth: 100 },
+    ])).rejects.toMatchObject({ type: BLEErrorType.WRITE_FAILED });
+    
+    expect(fixture.glasses.getReceivedCommands()).toEqual([]);
+  });
+  
+  it('draws a bitmap pixel for pixel', async () => {
+    // 10 px wide: two bytes per row, the second padded
+    const data = new Uint8Array([0b10000000, 0b01000000, 0, 0]);
+    await fixture.manager.sendCommand({ type: DisplayCommandType.GRAPHICS, x: 100, y: 50, width: 10, height: 2, data });
+    
+    expect(fixture.glasses.getPixel(100, 50)).toBe(true);
+    expect(fixture.glasses.getPixel(109, 50)).toBe(true);
+    expect(fixture.glasses.getPixel(101, 50)).toBe(false);
+    expect(fixture.glasses.getPixel(100, 51)).toBe(false);
+  });
+  
+  it('forwards TouchBar gestures', async () => {
+    const received = new Promise<TouchBarEvent>(resolve => fixture.manager.onTouchBarEvent(resolve));
+    fixture.glasses.injectTouchBarEvent(TouchBarEventType.DOUBLE_TAP);
+    
+    expect((await received).type).toBe(TouchBarEventType.DOUBLE_TAP);
+  });
+  
+  it('reconnects after the glasses drop the link', async () => {
+    const states: BLEConnectionState[] = [];
+    const reconnected = new Promise<void>(resolve => fixture.manager.onConnectionStateChange(state => {
+      states.push(state);
+      if (state === BLEConnectionState.CONNECTED) {
+        resolve();
+      }
+    }));
+    
+    fixture.glasses.simulateDisconnect();
+    await reconnected;
+    
+    expect(states).toEqual([BLEConnectionState.RECONNECTING, BLEConnectionState.CONNECTED]);
+    
+    await fixture.manager.sendCommand({ type: DisplayCommandType.TEXT, x: 10, y: 20, text: 'Back', alignment: TextAlignment.LEFT });
+    expect(fixture.glasses.getVisibleText()).toEqual(['Back']);
+  });
+});
+
+describe('acknowledgements', () => {
+  const text = (label: string): DisplayCommand =>
+    ({ type: DisplayCommandType.TEXT, x: 10, y: 20, text: label, alignment: TextAlignment.LEFT });
+  
+  describe('with retransmissions', () => {
+    const fixture = useConnectedManager({ ackTimeout: 200, maxRetransmissions: 2 });
+    
+    it('resends a NACKed command and applies it once', async () => {
+      fixture.glasses.rejectNextCommand(NackReason.BUSY);
+      await fixture.manager.sendCommand(text('Retry'));
+      
+      expect(fixture.glasses.getVisibleText()).toEqual(['Retry']);
+      expect(fixture.glasses.getReceivedCommands()).toHaveLength(1);
+      expect(fixture.manager.getLinkMetrics().retransmissions).toBe(1);
+    });
+    
+    it('resends after an ACK timeout without drawing twice', async () => {
+      // The first ACK lands after the resend has already been acknowledged
+      fixture.glasses.delayNextAck(300);
+      await fixture.manager.sendCommand(text('Slow'));
+      
+      expect(fixture.glasses.getReceivedCommands()).toHaveLength(1);
+      expect(fixture.manager.getLinkMetrics().retransmissions).toBe(1);
+    });
+    
+    it('gives up once every attempt has timed out', async () => {
+      fixture.glasses.simulateUnresponsive();
+      
+      await expect(fixture.manager.sendCommand(text('Lost'))).rejects.toMatchObject({
+        type: BLEErrorType.TIMEOUT,
+        message: expect.stringContaining('after 3 attempts'),
+      });
+      expect(fixture.manager.getLinkMetrics().retransmissions).toBe(2);
+      expect(fixture.glasses.getReceivedCommands()).toEqual([]);
+    });
+  });
+  
+  describe('without retransmissions', () => {
+    const fixture = useConnectedManager({ ackTimeout: 200, maxRetransmissions: 0 });
+    
+    it('does not let a late ACK settle the command after it', async () => {
+      fixture.glasses.delayNextAck(300);
+      await expect(fixture.manager.sendCommand(text('First'))).rejects.toMatchObject({ type: BLEErrorType.TIMEOUT });
+      
+      // The ACK for First arrives while Second is waiting for its own
+      fixture.glasses.simulateUnresponsive();
+      await expect(fixture.manager.sendCommand(text('Second'))).rejects.toMatchObject({ type: BLEErrorType.TIMEOUT });
+      
+      expect(fixture.glasses.getVisibleText()).toEqual(['First']);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { G2Simulator, G2SimulatorTransport } from '@/services/ble/G2Simulator';
+import { ProtocolTracer } from '@/services/ble/ProtocolTracer';
+import { ProtocolReplayer, protocolReplayer } from '@/services/ble/ProtocolReplayer';
+import { DisplayCommandType, TextAlignment } from '@/types/ble.types';
+import { useConnectedManager } from '../../helpers/simulator';
+
+describe('ProtocolTracer capture and replay', () => {
+  const fixture = useConnectedManager();
+  let tracer: ProtocolTracer;
+  
+  beforeEach(async () => {
+    tracer = fixture.manager.getTracer();
+    await fixture.manager.sendCommands([
+      { type: DisplayCommandType.CLEAR },
+      { type: DisplayCommandType.TEXT, x: 10, y: 20, text: 'Standup', alignment: TextAlignment.LEFT },
+      { type: DisplayCommandType.TEXT, x: 10, y: 70, text: '10:00 AM - 10:30 AM', alignment: TextAlignment.LEFT },
+    ]);
+  });
+  
+  it('exports a capture that parses back with every packet', () => {
+    const capture = ProtocolReplayer.parse(tracer.exportJSON());
+    
+    expect(capture.entries).toHaveLength(tracer.getEntries().length);
+    expect(capture.entries.some(entry => entry.direction === 'write')).toBe(true);
+    expect(capture.entries.some(entry => entry.direction === 'notify')).toBe(true);
+  });
+  
+  it('decodes the display commands that were written', () => {
+    const capture = ProtocolReplayer.parse(tracer.exportJSON());
+    
+    expect(protocolReplayer.getCommands(capture)).toEqual([
+      { type: DisplayCommandType.CLEAR },
+      expect.objectContaining({ type: DisplayCommandType.TEXT, text: 'Standup' }),
+      expect.objectContaining({ type: DisplayCommandType.TEXT, text: '10:00 AM - 10:30 AM' }),
+    ]);
+  });
+  
+  it('replays the capture into fresh glasses', async () => {
+    const capture = ProtocolReplayer.parse(tracer.exportJSON());
+    const glasses = new G2Simulator({ id: 'G2-REPLAY' });
+    const transport = new G2SimulatorTransport([glasses]);
+    await transport.connect(glasses.config.id, {});
+    
+    const writes = await protocolReplayer.replay(capture, transport, { deviceId: glasses.config.id });
+    
+    expect(writes).toBe(capture.entries.filter(entry => entry.direction === 'write').length);
+    expect(glasses.getVisibleText()).toEqual(['Standup', '10:00 AM - 10:30 AM']);
+  });
+  
+  it('rejects JSON that is not a capture', () => {
+    expect(() => ProtocolReplayer.parse('{"entries": []}')).toThrow('Not a G2 protocol capture');
+  });
+});
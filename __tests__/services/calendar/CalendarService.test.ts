@@ -0,0 +1,88 @@
+import { CalendarService } from '@/services/calendar/CalendarService';
+import { CalendarEvent, CalendarServiceConfig, EventStatus } from '@/types/calendar.types';
+
+const MINUTE = 60 * 1000;
+const NOW = new Date(2026, 9, 19, 10, 30).getTime();
+
+// Minutes relative to now
+const event = (id: string, start: number, end: number, changes: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  id,
+  calendarId: 'work',
+  title: id,
+  startDate: new Date(NOW + start * MINUTE),
+  endDate: new Date(NOW + end * MINUTE),
+  allDay: false,
+  recurring: false,
+  status: EventStatus.CONFIRMED,
+  ...changes,
+});
+
+describe('CalendarService.getNextEvent', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+  });
+  
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+  
+  const nextEventId = async (events: CalendarEvent[], config: Partial<CalendarServiceConfig> = {}) => {
+    const service = new CalendarService(config);
+    jest.spyOn(service, 'getEvents').mockResolvedValue(events);
+    return (await service.getNextEvent())?.event.id ?? null;
+  };
+  
+  it('shows the next event when none is in progress', async () => {
+    expect(await nextEventId([event('later', 30, 60), event('tomorrow', 24 * 60, 25 * 60)])).toBe('later');
+  });
+  
+  it('returns null without events', async () => {
+    expect(await nextEventId([])).toBeNull();
+  });
+  
+  it('prefers the event in progress, with its progress', async () => {
+    const service = new CalendarService();
+    jest.spyOn(service, 'getEvents').mockResolvedValue([event('standup', -30, 30), event('review', 60, 90)]);
+    
+    const info = await service.getNextEvent();
+    
+    expect(info?.event.id).toBe('standup');
+    expect(info?.isInProgress).toBe(true);
+    expect(info?.timeRemaining).toBe(30 * MINUTE);
+    expect(info?.progress).toBe(0.5);
+  });
+  
+  it('shows the event in progress that started last', async () => {
+    expect(await nextEventId([event('offsite', -120, 120), event('call', -10, 20)])).toBe('call');
+  });
+  
+  it('leaves all-day events off the display', async () => {
+    expect(await nextEventId([event('holiday', -630, 810, { allDay: true }), event('lunch', 90, 150)])).toBe('lunch');
+  });
+  
+  it('hands over in the final minutes to an event that follows straight on', async () => {
+    expect(await nextEventId([event('standup', -27, 3), event('review', 3, 33)])).toBe('review');
+  });
+  
+  it('hands over to an event that starts within the lead time of the end', async () => {
+    expect(await nextEventId([event('standup', -27, 3), event('review', 7, 37)])).toBe('review');
+  });
+  
+  it('keeps the event in progress until the lead time', async () => {
+    expect(await nextEventId([event('standup', -20, 10), event('review', 10, 40)])).toBe('standup');
+  });
+  
+  it('keeps the event in progress when the next one starts well after it ends', async () => {
+    expect(await nextEventId([event('standup', -27, 3), event('tomorrow', 24 * 60, 25 * 60)])).toBe('standup');
+  });
+  
+  it('follows a configured lead time', async () => {
+    const events = [event('standup', -20, 10), event('review', 10, 40)];
+    
+    expect(await nextEventId(events, { handoffLeadTime: 15 * MINUTE })).toBe('review');
+  });
+  
+  it('never hands over early with a lead time of 0', async () => {
+    expect(await nextEventId([event('standup', -29, 1), event('review', 1, 31)], { handoffLeadTime: 0 })).toBe('standup');
+  });
+});
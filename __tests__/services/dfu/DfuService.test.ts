@@ -0,0 +1,56 @@
+import { DfuService } from '@/services/dfu/DfuService';
+import { dfuProtocol } from '@/services/dfu/DfuProtocol';
+import { DfuErrorType, DfuProgress, DfuState } from '@/types/dfu.types';
+import { useConnectedSession } from '../../helpers/simulator';
+
+describe('DfuService against the simulator', () => {
+  const fixture = useConnectedSession();
+  let service: DfuService;
+  
+  const body = new Uint8Array(16 * 1024).map((_, i) => (i * 31) & 0xFF);
+  
+  beforeEach(() => {
+    service = new DfuService({}, fixture.session);
+  });
+  
+  afterEach(() => {
+    service.destroy();
+  });
+  
+  it('flashes an image and verifies the version the glasses reboot into', async () => {
+    const image = service.validateImage(dfuProtocol.encodeImage({ major: 3, minor: 0, patch: 0 }, body));
+    
+    await service.update(image);
+    
+    expect(fixture.glasses.getFirmwareVersion()).toBe('3.0.0');
+    expect(service.getProgress().state).toBe(DfuState.COMPLETED);
+    expect(service.getProgress().percent).toBe(100);
+  });
+  
+  it('resumes from the staged offset after the link drops mid-transfer', async () => {
+    const image = service.validateImage(dfuProtocol.encodeImage({ major: 3, minor: 0, patch: 0 }, body));
+    const progress: DfuProgress[] = [];
+    service.onProgress(update => progress.push(update));
+    
+    fixture.glasses.corruptNextDfuChunks(2);
+    fixture.glasses.dropLinkDuringDfu(4096);
+    await service.update(image);
+    
+    expect(fixture.glasses.getFirmwareVersion()).toBe('3.0.0');
+    expect(progress.map(update => update.state)).toContain(DfuState.WAITING_FOR_RECONNECT);
+    
+    // The second START picks up where the glasses left off instead of at 0
+    const resumedFrom = progress[progress.length - 1].resumedFrom;
+    expect(resumedFrom).toBeGreaterThanOrEqual(4096);
+    expect(resumedFrom).toBeLessThan(body.length);
+  });
+  
+  it('rejects an image whose body fails its CRC', () => {
+    const data = dfuProtocol.encodeImage({ major: 3, minor: 0, patch: 0 }, body);
+    data[data.length - 1] ^= 0xFF;
+    
+    expect(() => service.validateImage(data)).toThrow(
+      expect.objectContaining({ type: DfuErrorType.INVALID_IMAGE })
+    );
+  });
+});
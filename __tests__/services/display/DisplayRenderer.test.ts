@@ -0,0 +1,283 @@
+import { DisplayRenderer } from '@/services/display/DisplayRenderer';
+import {
+  AGENDA_LAYOUT,
+  AgendaEntry,
+  BitmapData,
+  CALENDAR_LAYOUT,
+  DISPLAY_DIMENSIONS,
+  DisplayElement,
+  DisplayRegion,
+  DisplayUpdateType,
+  TIMELINE_LAYOUT,
+  TimelineEntry,
+} from '@/types/display.types';
+
+// MSB first, rows padded to whole bytes
+const pixel = (bitmap: BitmapData, x: number, y: number) =>
+  (bitmap.data[y * Math.ceil(bitmap.width / 8) + (x >> 3)] & (0x80 >> (x & 7))) !== 0;
+
+const insideDisplay = ({ x, y, width, height }: DisplayRegion) =>
+  x >= 0 && y >= 0 && x + width <= DISPLAY_DIMENSIONS.WIDTH && y + height <= DISPLAY_DIMENSIONS.HEIGHT;
+
+const litColumns = (bitmap: BitmapData, y: number) =>
+  Array.from({ length: bitmap.width }, (_, x) => x).filter(x => pixel(bitmap, x, y));
+
+describe('DisplayRenderer', () => {
+  let renderer: DisplayRenderer;
+  
+  beforeEach(() => {
+    renderer = new DisplayRenderer();
+  });
+  
+  describe('progress bar', () => {
+    const { width, height } = CALENDAR_LAYOUT.PROGRESS;
+    const middle = Math.floor(height / 2);
+    
+    it('fills the PROGRESS region with byte-padded rows', () => {
+      const bar = renderer.createProgressBar(0.5);
+      
+      expect(bar.width).toBe(width);
+      expect(bar.height).toBe(height);
+      expect(bar.data).toHaveLength(Math.ceil(width / 8) * height);
+    });
+    
+    it('draws an outline with nothing inside at 0%', () => {
+      const bar = renderer.createProgressBar(0);
+      
+      expect(litColumns(bar, 0)).toHaveLength(width);
+      expect(litColumns(bar, height - 1)).toHaveLength(width);
+      expect(litColumns(bar, middle)).toEqual([0, width - 1]);
+    });
+    
+    it('fills half the inside at 50%, a pixel in from the outline', () => {
+      const bar = renderer.createProgressBar(0.5);
+      const filled = Math.round(0.5 * (width - 4));
+      
+      expect(pixel(bar, 1, middle)).toBe(false);
+      expect(pixel(bar, 2, middle)).toBe(true);
+      expect(pixel(bar, 1 + filled, middle)).toBe(true);
+      expect(pixel(bar, 2 + filled, middle)).toBe(false);
+      expect(pixel(bar, 2, 1)).toBe(false);
+    });
+    
+    it('leaves the spacing pixel before the outline at 100%', () => {
+      const bar = renderer.createProgressBar(1);
+      
+      expect(pixel(bar, width - 3, middle)).toBe(true);
+      expect(pixel(bar, width - 2, middle)).toBe(false);
+      expect(pixel(bar, width - 1, middle)).toBe(true);
+    });
+    
+    it('clamps progress to 0-100%', () => {
+      expect(renderer.createProgressBar(-0.5).data).toEqual(renderer.createProgressBar(0).data);
+      expect(renderer.createProgressBar(1.5).data).toEqual(renderer.createProgressBar(1).data);
+    });
+    
+    it('never sets the padding bits past the right edge', () => {
+      const bar = renderer.createProgressBar(1);
+      const stride = Math.ceil(width / 8);
+      const padding = 0xFF >> (width % 8);
+      
+      for (let row = 0; row < height; row++) {
+        expect(bar.data[row * stride + stride - 1] & padding).toBe(0);
+      }
+    });
+  });
+  
+  describe('agenda', () => {
+    const entries: AgendaEntry[] = Array.from({ length: 12 }, (_, i) => ({
+      time: `${i + 1}:00 PM`,
+      title: `Event ${i + 1}`,
+      hasLocation: i % 2 === 0,
+    }));
+    const titles = (rows: { title: DisplayElement }[]) => rows.map(row => row.title.content);
+    
+    it('splits the events into pages of ROWS_PER_PAGE with an indicator', () => {
+      const pages = [0, 1, 2].map(page => renderer.createAgendaLayout(entries, page));
+      
+      expect(pages.map(page => page.rows.length)).toEqual([5, 5, 2]);
+      expect(pages.map(page => page.pageCount)).toEqual([3, 3, 3]);
+      expect(pages.map(page => page.pageIndicator?.content)).toEqual(['1/3', '2/3', '3/3']);
+      expect(titles(pages[2].rows)).toEqual(['Event 11', 'Event 12']);
+    });
+    
+    it('clamps a page past either end', () => {
+      expect(renderer.createAgendaLayout(entries, -1).page).toBe(0);
+      expect(titles(renderer.createAgendaLayout(entries, 7).rows)).toEqual(['Event 11', 'Event 12']);
+    });
+    
+    it('leaves out the indicator when one page holds every event', () => {
+      const layout = renderer.createAgendaLayout(entries.slice(0, AGENDA_LAYOUT.ROWS_PER_PAGE), 0);
+      
+      expect(layout.pageCount).toBe(1);
+      expect(layout.pageIndicator).toBeUndefined();
+      expect(layout.header.content).toBe('Upcoming');
+    });
+    
+    it('shows an empty single page without events', () => {
+      const layout = renderer.createAgendaLayout([], 3);
+      
+      expect(layout).toMatchObject({ page: 0, pageCount: 1, rows: [] });
+      expect(layout.header.content).toBe('No upcoming events');
+    });
+    
+    it('keeps a full page inside the display', () => {
+      const layout = renderer.createAgendaLayout(entries, 0);
+      const regions = [
+        layout.header.region,
+        layout.pageIndicator?.region,
+        ...layout.rows.flatMap(row => [row.time.region, row.title.region, row.locationMarker?.region]),
+      ].filter((region): region is DisplayRegion => region !== undefined);
+      
+      regions.forEach(region => expect(insideDisplay(region)).toBe(true));
+      expect(layout.rows.map(row => row.time.region.y)).toEqual([46, 76, 106, 136, 166]);
+    });
+    
+    it('marks only the events with a location, right of the title', () => {
+      const [withLocation, withoutLocation] = renderer.createAgendaLayout(entries, 0).rows;
+      
+      expect(withLocation.locationMarker?.content).toBe(AGENDA_LAYOUT.LOCATION_MARKER);
+      expect(withLocation.locationMarker?.region.x).toBe(withLocation.title.region.x + withLocation.title.region.width);
+      expect(withoutLocation.locationMarker).toBeUndefined();
+    });
+    
+    it('truncates a time or title that overflows its column', () => {
+      const [row] = renderer.createAgendaLayout([
+        { time: 'Wednesday 10:00 AM', title: 'Quarterly planning '.repeat(10), hasLocation: true },
+      ], 0).rows;
+      
+      for (const element of [row.time, row.title]) {
+        expect(element.content.endsWith('...')).toBe(true);
+        expect(renderer.truncateText(element.content, element.region.width, element.style)).toBe(element.content);
+      }
+    });
+    
+    it('renders the page as a full update, header first', () => {
+      const update = renderer.renderAgendaLayout(renderer.createAgendaLayout(entries, 2));
+      
+      expect(update.type).toBe(DisplayUpdateType.FULL);
+      expect(update.clearBefore).toBe(true);
+      expect(update.elements.map(element => element.id)).toEqual([
+        'agenda-header',
+        'agenda-page',
+        'agenda-row-0-time',
+        'agenda-row-0-title',
+        'agenda-row-0-location',
+        'agenda-row-1-time',
+        'agenda-row-1-title',
+      ]);
+    });
+  });
+  
+  describe('timeline', () => {
+    const { width, height } = TIMELINE_LAYOUT.BAR;
+    const { BLOCK_TOP, BLOCK_BOTTOM, AXIS_Y } = TIMELINE_LAYOUT;
+    const blockRow = Math.floor((BLOCK_TOP + BLOCK_BOTTOM) / 2);
+    
+    // Local time on the rendered day; hour 24 is the following midnight
+    const at = (hour: number, minute = 0) => new Date(2026, 9, 19, hour, minute);
+    const entry = (start: Date, end: Date): TimelineEntry => ({ start, end });
+    
+    it('spans the working day at a fixed scale without events', () => {
+      const layout = renderer.createTimelineLayout([], at(10, 30));
+      
+      expect(layout.rangeStart).toEqual(at(8));
+      expect(layout.rangeEnd).toEqual(at(18));
+      expect(layout.header.content).toBe('No events today');
+      expect(litColumns(layout.bar, blockRow)).toEqual([155, 156]);
+      expect(litColumns(layout.bar, AXIS_Y)).toHaveLength(width);
+    });
+    
+    it('draws a block proportional to the event, a pixel short of its end', () => {
+      const layout = renderer.createTimelineLayout([entry(at(9), at(10))], at(8));
+      
+      expect(layout.header.content).toBe('Today - 1 event');
+      expect(litColumns(layout.bar, blockRow)).toEqual([0, 1, ...Array.from({ length: 61 }, (_, i) => 62 + i)]);
+      expect(pixel(layout.bar, 62, BLOCK_TOP - 1)).toBe(false);
+      expect(pixel(layout.bar, 62, BLOCK_BOTTOM)).toBe(false);
+    });
+    
+    it('keeps a very short event visible', () => {
+      const layout = renderer.createTimelineLayout([entry(at(13), at(13, 1))], at(8));
+      
+      expect(litColumns(layout.bar, blockRow).filter(x => x > 1)).toEqual([310, 311]);
+    });
+    
+    it('inverts the now marker over an event', () => {
+      const layout = renderer.createTimelineLayout([entry(at(10), at(11))], at(10, 30));
+      
+      expect(pixel(layout.bar, 154, blockRow)).toBe(true);
+      expect(pixel(layout.bar, 155, blockRow)).toBe(false);
+      expect(pixel(layout.bar, 156, blockRow)).toBe(false);
+      expect(pixel(layout.bar, 155, BLOCK_TOP - 1)).toBe(true);
+    });
+    
+    it('clips an event from the day before to the left edge', () => {
+      const layout = renderer.createTimelineLayout([entry(at(-1), at(1))], at(10));
+      
+      expect(layout.rangeStart).toEqual(at(0));
+      expect(pixel(layout.bar, 0, BLOCK_TOP)).toBe(true);
+      expect(pixel(layout.bar, 0, BLOCK_TOP - 1)).toBe(false);
+    });
+    
+    it('clips an event into the next day to the right edge', () => {
+      const layout = renderer.createTimelineLayout([entry(at(23), at(26))], at(10));
+      
+      expect(layout.rangeEnd).toEqual(at(24));
+      expect(pixel(layout.bar, width - 2, blockRow)).toBe(true);
+      expect(pixel(layout.bar, width - 1, blockRow)).toBe(false);
+    });
+    
+    it('keeps the now marker and last tick inside the right edge', () => {
+      const layout = renderer.createTimelineLayout([], at(23, 59));
+      
+      expect(layout.rangeEnd).toEqual(at(24));
+      expect(litColumns(layout.bar, blockRow)).toEqual([width - 2, width - 1]);
+      expect(pixel(layout.bar, width - 1, AXIS_Y + 1)).toBe(true);
+    });
+    
+    it('never sets the padding bits past the right edge', () => {
+      const layout = renderer.createTimelineLayout([entry(at(-2), at(30))], at(23, 59));
+      const stride = Math.ceil(width / 8);
+      const padding = 0xFF >> (width % 8);
+      
+      for (let row = 0; row < height; row++) {
+        expect(layout.bar.data[row * stride + stride - 1] & padding).toBe(0);
+      }
+    });
+    
+    it('leaves out events on other days', () => {
+      const layout = renderer.createTimelineLayout([entry(at(-5), at(-4)), entry(at(25), at(26))], at(10));
+      
+      expect(layout.header.content).toBe('No events today');
+      expect(layout.rangeStart).toEqual(at(8));
+      expect(layout.rangeEnd).toEqual(at(18));
+    });
+    
+    it('keeps the bar and every hour label inside the display', () => {
+      const layout = renderer.createTimelineLayout([entry(at(-1), at(25))], at(12));
+      const labels = layout.hourLabels.map(label => label.region);
+      
+      expect(insideDisplay(TIMELINE_LAYOUT.BAR)).toBe(true);
+      labels.forEach(region => expect(insideDisplay(region)).toBe(true));
+      expect(labels[0].x).toBe(0);
+      expect(labels[labels.length - 1].x).toBe(DISPLAY_DIMENSIONS.WIDTH - TIMELINE_LAYOUT.LABEL_WIDTH);
+    });
+    
+    it('renders the bar as GRAPHICS bands that rebuild it inside the display', () => {
+      const layout = renderer.createTimelineLayout([entry(at(9), at(10)), entry(at(14), at(16))], at(11));
+      const { graphics } = renderer.renderTimelineLayout(layout);
+      const stride = Math.ceil(width / 8);
+      const rebuilt = new Uint8Array(layout.bar.data.length);
+      
+      expect(graphics?.length).toBeGreaterThan(0);
+      for (const command of graphics ?? []) {
+        expect(insideDisplay(command)).toBe(true);
+        expect(command.x).toBe(TIMELINE_LAYOUT.BAR.x);
+        expect(command.data).toHaveLength(stride * command.height);
+        rebuilt.set(command.data, (command.y - TIMELINE_LAYOUT.BAR.y) * stride);
+      }
+      expect(rebuilt).toEqual(layout.bar.data);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_GESTURE_BINDINGS, GestureBindingService } from '@/services/gestures/GestureBindingService';
+import { G2Arm, TouchBarEventType } from '@/types/ble.types';
+import { GestureAction, GlassesScreen } from '@/types/gesture.types';
+
+const { TAP, DOUBLE_TAP, TRIPLE_TAP, PRESS_HOLD, SWIPE_DOWN } = TouchBarEventType;
+
+describe('GestureBindingService', () => {
+  let service: GestureBindingService;
+  
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    service = new GestureBindingService();
+  });
+  
+  describe('resolve', () => {
+    it('prefers an arm binding over one for either arm', () => {
+      expect(service.resolve(TRIPLE_TAP, G2Arm.LEFT, GlassesScreen.AGENDA)).toBe(GestureAction.BRIGHTNESS_DOWN);
+      expect(service.resolve(TRIPLE_TAP, G2Arm.RIGHT, GlassesScreen.AGENDA)).toBe(GestureAction.BRIGHTNESS_UP);
+      expect(service.resolve(TRIPLE_TAP, null, GlassesScreen.AGENDA)).toBe(GestureAction.CLEAR_DISPLAY);
+    });
+    
+    it('prefers a screen binding over an arm binding', async () => {
+      await service.setBinding({ gesture: TRIPLE_TAP, arm: null, screen: GlassesScreen.IDLE, action: GestureAction.NEXT_EVENT });
+      
+      expect(service.resolve(TRIPLE_TAP, G2Arm.LEFT, GlassesScreen.IDLE)).toBe(GestureAction.NEXT_EVENT);
+      expect(service.resolve(TRIPLE_TAP, G2Arm.LEFT, GlassesScreen.AGENDA)).toBe(GestureAction.BRIGHTNESS_DOWN);
+    });
+    
+    it('prefers an arm and screen binding over everything else', async () => {
+      await service.setBinding({ gesture: TRIPLE_TAP, arm: null, screen: GlassesScreen.IDLE, action: GestureAction.NEXT_EVENT });
+      await service.setBinding({ gesture: TRIPLE_TAP, arm: G2Arm.LEFT, screen: GlassesScreen.IDLE, action: GestureAction.SNOOZE });
+      
+      expect(service.resolve(TRIPLE_TAP, G2Arm.LEFT, GlassesScreen.IDLE)).toBe(GestureAction.SNOOZE);
+      expect(service.resolve(TRIPLE_TAP, G2Arm.RIGHT, GlassesScreen.IDLE)).toBe(GestureAction.NEXT_EVENT);
+    });
+    
+    it('falls back to NONE when nothing matches', () => {
+      expect(service.resolve(PRESS_HOLD, G2Arm.LEFT, GlassesScreen.IDLE)).toBe(GestureAction.NONE);
+      expect(service.resolve(TAP, null, GlassesScreen.AGENDA)).toBe(GestureAction.NONE);
+    });
+    
+    it('lets a NONE binding override a broader one', async () => {
+      await service.setBinding({ gesture: DOUBLE_TAP, arm: G2Arm.RIGHT, screen: null, action: GestureAction.NONE });
+      
+      expect(service.resolve(DOUBLE_TAP, G2Arm.RIGHT, GlassesScreen.NEXT_EVENT)).toBe(GestureAction.NONE);
+      expect(service.resolve(DOUBLE_TAP, G2Arm.LEFT, GlassesScreen.NEXT_EVENT)).toBe(GestureAction.TOGGLE_AGENDA);
+    });
+  });
+  
+  describe('editing', () => {
+    it('replaces the binding in the same slot', async () => {
+      await service.setBinding({ gesture: SWIPE_DOWN, arm: null, screen: null, action: GestureAction.DISMISS });
+      
+      expect(service.resolve(SWIPE_DOWN, null, GlassesScreen.NEXT_EVENT)).toBe(GestureAction.DISMISS);
+      expect(service.getBindings()).toHaveLength(DEFAULT_GESTURE_BINDINGS.length);
+    });
+    
+    it('falls back to the broader binding once a specific one is removed', async () => {
+      await service.removeBinding(TRIPLE_TAP, G2Arm.LEFT, null);
+      
+      expect(service.resolve(TRIPLE_TAP, G2Arm.LEFT, GlassesScreen.AGENDA)).toBe(GestureAction.CLEAR_DISPLAY);
+      
+      await service.removeBinding(TRIPLE_TAP, null, null);
+      
+      expect(service.resolve(TRIPLE_TAP, G2Arm.LEFT, GlassesScreen.AGENDA)).toBe(GestureAction.NONE);
+      expect(service.resolve(TRIPLE_TAP, G2Arm.RIGHT, GlassesScreen.AGENDA)).toBe(GestureAction.BRIGHTNESS_UP);
+    });
+    
+    it('leaves other slots alone when removing a binding that does not exist', async () => {
+      await service.removeBinding(TAP, G2Arm.RIGHT, GlassesScreen.NEXT_EVENT);
+      
+      expect(service.getBindings()).toEqual(DEFAULT_GESTURE_BINDINGS);
+    });
+    
+    it('rejects a binding naming an unknown action', async () => {
+      const binding = { gesture: TAP, arm: null, screen: null, action: 'LAUNCH' as GestureAction };
+      
+      await expect(service.setBinding(binding)).rejects.toThrow('Invalid gesture binding');
+      expect(service.resolve(TAP, null, GlassesScreen.AGENDA)).toBe(GestureAction.NONE);
+    });
+    
+    it('restores the defaults on reset', async () => {
+      await service.removeBinding(SWIPE_DOWN, null, null);
+      await service.reset();
+      
+      expect(service.getBindings()).toEqual(DEFAULT_GESTURE_BINDINGS);
+    });
+  });
+  
+  describe('persistence', () => {
+    it('reloads edited bindings in a new instance', async () => {
+      await service.setBinding({ gesture: PRESS_HOLD, arm: G2Arm.RIGHT, screen: null, action: GestureAction.TOGGLE_AGENDA });
+      await service.removeBinding(TRIPLE_TAP, G2Arm.LEFT, null);
+      
+      const reloaded = new GestureBindingService();
+      await reloaded.load();
+      
+      expect(reloaded.getBindings()).toEqual(service.getBindings());
+      expect(reloaded.resolve(PRESS_HOLD, G2Arm.RIGHT, GlassesScreen.IDLE)).toBe(GestureAction.TOGGLE_AGENDA);
+      expect(reloaded.resolve(TRIPLE_TAP, G2Arm.LEFT, GlassesScreen.AGENDA)).toBe(GestureAction.CLEAR_DISPLAY);
+    });
+    
+    it('keeps the defaults when nothing is stored', async () => {
+      expect(await service.load()).toEqual(DEFAULT_GESTURE_BINDINGS);
+    });
+    
+    it('drops stored entries that no longer name a known gesture or action', async () => {
+      await AsyncStorage.setItem('@even_g2/gesture_bindings', JSON.stringify([
+        { gesture: 'QUAD_TAP', arm: null, screen: null, action: GestureAction.SNOOZE },
+        { gesture: TAP, arm: null, screen: 'SETTINGS', action: GestureAction.SNOOZE },
+        { gesture: TAP, arm: G2Arm.LEFT, screen: null, action: 'LAUNCH' },
+        { gesture: TAP, arm: G2Arm.RIGHT, screen: null, action: GestureAction.SNOOZE },
+      ]));
+      
+      expect(await service.load()).toEqual([
+        { gesture: TAP, arm: G2Arm.RIGHT, screen: null, action: GestureAction.SNOOZE },
+      ]);
+    });
+    
+    it('falls back to the defaults when the stored bindings are unreadable', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      await AsyncStorage.setItem('@even_g2/gesture_bindings', '{not json');
+      
+      expect(await service.load()).toEqual(DEFAULT_GESTURE_BINDINGS);
+    });
+  });
+});
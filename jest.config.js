@@ -0,0 +1,12 @@
+module.exports = {
+  preset: 'react-native',
+  setupFiles: [
+    '<rootDir>/jest.setup.js',
+    '<rootDir>/node_modules/@react-native-google-signin/google-signin/jest/build/setup.js',
+  ],
+  testMatch: ['<rootDir>/__tests__/**/*.test.ts'],
+  restoreMocks: true,
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+  },
+};
@@ -0,0 +1,16 @@
+/* eslint-env jest */
+
+// Native modules the services import; tests drive the BLE stack through G2SimulatorTransport
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('react-native-ble-plx', () => ({
+  BleManager: jest.fn(),
+  ScanMode: { LowLatency: 2 },
+  State: { Unknown: 'Unknown', PoweredOn: 'PoweredOn', PoweredOff: 'PoweredOff' },
+}));
+jest.mock('react-native-calendar-events', () => ({
+  requestPermissions: jest.fn(() => Promise.resolve('authorized')),
+  findCalendars: jest.fn(() => Promise.resolve([])),
+  fetchAllEvents: jest.fn(() => Promise.resolve([])),
+}));
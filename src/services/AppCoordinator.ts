@@ -4,16 +4,52 @@
  * This is the main integration layer that makes everything work together
  */
 
-import { bleManager } from './ble/BLEManager';
+import { g2Session } from './ble/G2Session';
+import { deviceRegistry } from './ble/DeviceRegistry';
+import { batteryService } from './battery/BatteryService';
 import { calendarService } from './calendar/CalendarService';
 import { displayRenderer } from './display/DisplayRenderer';
+import { gestureBindingService } from './gestures/GestureBindingService';
 import {
   BLEConnectionState,
+  BLERadioState,
+  DisplayCommand,
   DisplayCommandType,
+  G2Arm,
+  G2Feature,
+  G2Settings,
+  KnownDevice,
+  RefreshMode,
   TextAlignment,
+  TouchBarEvent,
+  TouchBarEventType,
+  WritePriority,
 } from '@/types/ble.types';
 import { NextEventInfo, CalendarSyncStatus } from '@/types/calendar.types';
-import { DisplayUpdateType } from '@/types/display.types';
+import { DisplayElement, DisplayUpdate, DisplayUpdateType } from '@/types/display.types';
+import { BatteryState, BatteryStatus } from '@/types/battery.types';
+import { GestureAction, GlassesScreen } from '@/types/gesture.types';
+import { formatAgendaEntry, getDayBounds } from '@/utils/dateUtils';
+
+/**
+ * Coalesce key shared by full-screen writes, so only the newest layout is sent
+ */
+const LAYOUT_WRITE_KEY = 'layout';
+
+/**
+ * Coalesce key for the battery banner drawn over the current layout
+ */
+const BATTERY_BANNER_WRITE_KEY = 'battery-banner';
+
+/**
+ * Upcoming events that can be paged through from the glasses
+ */
+const BROWSE_LIMIT = 20;
+
+/**
+ * Brightness assumed before the first gesture changes it
+ */
+const DEFAULT_BRIGHTNESS = 50;
 
 /**
  * App Coordinator Configuration
@@ -23,6 +59,9 @@ export interface AppCoordinatorConfig {
   autoSyncCalendar?: boolean;
   updateInterval?: number; // ms
   displayTimeout?: number; // ms
+  autoConnectScanTimeout?: number; // ms to look for a paired device on launch
+  snoozeDuration?: number; // ms the display stays blank after a snooze gesture
+  brightnessStep?: number; // % per brightness gesture
 }
 
 /**
@@ -31,8 +70,14 @@ export interface AppCoordinatorConfig {
 export interface AppCoordinatorState {
   isInitialized: boolean;
   bleConnected: boolean;
+  bleReconnecting: boolean;
+  blePartiallyConnected: boolean; // One arm of the glasses is down
+  autoConnecting: boolean;
+  batteryLevel: number | null;
+  batteryStatus: BatteryStatus;
   calendarSynced: boolean;
   currentEvent: NextEventInfo | null;
+  screen: GlassesScreen;
   lastUpdate: Date | null;
   error: string | null;
 }
@@ -46,21 +91,36 @@ export class AppCoordinator {
   private state: AppCoordinatorState;
   private updateInterval: NodeJS.Timeout | null = null;
   private displayTimeout: NodeJS.Timeout | null = null;
+  private knownDeviceScan: ((deviceId: string | null) => void) | null = null;
+  private eventOffset = 0; // Upcoming event paged to from the glasses, 0 is the next one
+  private agendaPage = 0;
+  private dismissedEventId: string | null = null;
+  private snoozeTimer: NodeJS.Timeout | null = null;
+  private brightness: number | null = null; // Last level set from the glasses
 
   constructor(config: AppCoordinatorConfig = {}) {
     this.config = {
-      autoConnectDevice: false,
+      autoConnectDevice: true,
       autoSyncCalendar: true,
       updateInterval: 30000, // 30 seconds
       displayTimeout: 300000, // 5 minutes
+      autoConnectScanTimeout: 10000, // 10 seconds
+      snoozeDuration: 300000, // 5 minutes
+      brightnessStep: 10,
       ...config,
     };
 
     this.state = {
       isInitialized: false,
       bleConnected: false,
+      bleReconnecting: false,
+      blePartiallyConnected: false,
+      autoConnecting: false,
+      batteryLevel: null,
+      batteryStatus: BatteryStatus.NORMAL,
       calendarSynced: false,
       currentEvent: null,
+      screen: GlassesScreen.IDLE,
       lastUpdate: null,
       error: null,
     };
@@ -74,9 +134,15 @@ export class AppCoordinator {
       console.log('Initializing App Coordinator...');
 
       // Initialize BLE Manager
-      await bleManager.initialize();
+      await g2Session.initialize();
+      await deviceRegistry.load();
+      await gestureBindingService.load();
       this.setupBLEListeners();
 
+      // Start battery monitoring
+      this.setupBatteryListeners();
+      batteryService.start();
+
       // Initialize Calendar Service
       await calendarService.initialize({
         updateInterval: this.config.updateInterval || 30000,
@@ -103,6 +169,13 @@ export class AppCoordinator {
 
       // Start auto-update loop
       this.startAutoUpdate();
+
+      // Reconnect to paired glasses in the background
+      if (this.config.autoConnectDevice) {
+        this.autoConnect().catch(error =>
+          console.error('Auto-connect failed:', error)
+        );
+      }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.state.error = errorMessage;
@@ -116,7 +189,7 @@ export class AppCoordinator {
    */
   async connectToDevice(deviceId: string): Promise<void> {
     try {
-      await bleManager.connect(deviceId, {
+      await g2Session.connect(deviceId, {
         timeout: 5000,
         autoConnect: true,
         requestMTU: 512,
@@ -137,11 +210,67 @@ export class AppCoordinator {
     }
   }
 
+  /**
+   * Scan for previously paired glasses and connect to the first one in range
+   * Returns false when nothing is paired yet or no paired device was found
+   */
+  async autoConnect(): Promise<boolean> {
+    if (g2Session.isConnected() || this.state.autoConnecting) {
+      return g2Session.isConnected();
+    }
+
+    // A restored session or a reconnect loop is already on its way
+    const connectionState = g2Session.getConnectionState();
+    if (
+      connectionState === BLEConnectionState.CONNECTING ||
+      connectionState === BLEConnectionState.RECONNECTING
+    ) {
+      return false;
+    }
+
+    const knownDevices = await deviceRegistry.load();
+    if (knownDevices.length === 0) {
+      console.log('No paired devices, waiting for first pairing');
+      return false;
+    }
+
+    this.state.autoConnecting = true;
+
+    try {
+      console.log(`Looking for ${knownDevices.length} paired device(s)...`);
+      const deviceId = await this.scanForKnownDevice(this.config.autoConnectScanTimeout || 10000);
+
+      if (!deviceId) {
+        console.log('No paired device in range');
+        return false;
+      }
+
+      await this.connectToDevice(deviceId);
+      return true;
+    } finally {
+      this.state.autoConnecting = false;
+    }
+  }
+
+  /**
+   * Paired devices, most recently connected first
+   */
+  getKnownDevices(): KnownDevice[] {
+    return deviceRegistry.getDevices();
+  }
+
+  /**
+   * Forget paired glasses so they are no longer auto-connected
+   */
+  async forgetDevice(deviceId: string): Promise<void> {
+    await deviceRegistry.forget(deviceId);
+  }
+
   /**
    * Disconnect from device
    */
   async disconnect(): Promise<void> {
-    await bleManager.disconnect();
+    await g2Session.disconnect();
     this.state.bleConnected = false;
     console.log('Disconnected from device');
   }
@@ -150,7 +279,7 @@ export class AppCoordinator {
    * Scan for G2 devices
    */
   async scanForDevices(): Promise<void> {
-    await bleManager.startScan({
+    await g2Session.startScan({
       timeout: 10000,
       allowDuplicates: false,
     });
@@ -160,7 +289,7 @@ export class AppCoordinator {
    * Stop scanning
    */
   stopScan(): void {
-    bleManager.stopScan();
+    g2Session.stopScan();
   }
 
   /**
@@ -181,14 +310,14 @@ export class AppCoordinator {
    * Update display with next event
    */
   private async updateDisplay(eventInfo: NextEventInfo): Promise<void> {
-    if (!bleManager.isConnected()) {
+    if (!g2Session.isConnected()) {
       console.log('Not connected to device, skipping display update');
       return;
     }
 
     try {
-      // Clear display first
-      await bleManager.clearDisplay();
+      // While the event is under way a progress bar takes the duration line
+      const showProgress = eventInfo.isInProgress && displayRenderer.supportsFeature(G2Feature.GRAPHICS);
 
       // Create layout
       const layout = displayRenderer.createCalendarLayout(
@@ -196,49 +325,252 @@ export class AppCoordinator {
         eventInfo.displayText.timeRange,
         eventInfo.displayText.location,
         eventInfo.displayText.timeUntil,
-        eventInfo.displayText.duration
+        showProgress ? undefined : eventInfo.displayText.duration
       );
 
-      // Render layout
-      const update = displayRenderer.renderLayout(layout);
-
-      // Send commands to G2
-      for (const element of update.elements) {
-        if (!element.visible) continue;
-
-        await bleManager.sendCommand({
-          type: DisplayCommandType.TEXT,
-          text: element.content,
-          x: element.region.x,
-          y: element.region.y,
-          alignment: this.mapAlignment(element.style.alignment),
-          fontSize: element.style.fontSize,
-          bold: element.style.bold,
-        });
-
-        // Small delay between commands to avoid overwhelming BLE
-        await this.delay(50);
+      if (showProgress) {
+        layout.progress = displayRenderer.createProgressBar(eventInfo.progress);
       }
 
-      this.state.lastUpdate = new Date();
-      console.log('Display updated successfully');
+      const banner = this.getBatteryBanner();
+      if (banner) {
+        layout.banner = displayRenderer.createBannerElement(banner);
+      }
 
-      // Set display timeout
-      this.resetDisplayTimeout();
+      // Render layout
+      await this.presentUpdate(displayRenderer.renderLayout(layout), GlassesScreen.NEXT_EVENT);
     } catch (error) {
       console.error('Failed to update display:', error);
       throw error;
     }
   }
 
+  /**
+   * Show a page of upcoming events, including the one in progress
+   * Paging past either end stays on the first or last page
+   */
+  private async showAgendaPage(page: number): Promise<void> {
+    if (!g2Session.isConnected()) {
+      console.log('Not connected to device, skipping agenda update');
+      return;
+    }
+
+    this.cancelSnooze();
+
+    const now = new Date();
+    const events = (await calendarService.getUpcomingEvents(BROWSE_LIMIT))
+      .filter(event => event.endDate > now);
+
+    const layout = displayRenderer.createAgendaLayout(events.map(formatAgendaEntry), page);
+    this.agendaPage = layout.page;
+
+    const banner = this.getBatteryBanner();
+    if (banner) {
+      layout.banner = displayRenderer.createBannerElement(banner);
+    }
+
+    await this.presentUpdate(displayRenderer.renderAgendaLayout(layout), GlassesScreen.AGENDA);
+  }
+
+  /**
+   * Show today's events on a timeline
+   * Firmware that can't draw bitmaps gets the agenda instead
+   */
+  private async showTimeline(): Promise<void> {
+    if (!g2Session.isConnected()) {
+      console.log('Not connected to device, skipping timeline update');
+      return;
+    }
+
+    if (!displayRenderer.supportsFeature(G2Feature.GRAPHICS)) {
+      console.log('Graphics not supported, showing the agenda instead of the timeline');
+      await this.showAgendaPage(0);
+      return;
+    }
+
+    this.cancelSnooze();
+
+    const now = new Date();
+    const day = getDayBounds(now);
+    const events = await calendarService.getEvents({
+      startDate: day.start,
+      endDate: day.end,
+      includeAllDay: false,
+      excludeCancelled: true,
+    });
+
+    const layout = displayRenderer.createTimelineLayout(
+      events.map(event => ({ start: event.startDate, end: event.endDate })),
+      now
+    );
+
+    const banner = this.getBatteryBanner();
+    if (banner) {
+      layout.banner = displayRenderer.createBannerElement(banner);
+    }
+
+    await this.presentUpdate(displayRenderer.renderTimelineLayout(layout), GlassesScreen.TIMELINE);
+  }
+
+  /**
+   * Send a full-screen update as one frame
+   */
+  private async presentUpdate(update: DisplayUpdate, screen: GlassesScreen): Promise<void> {
+    // Draw into the back buffer so the old screen stays up until commit;
+    // firmware without deferred frames draws each command as it arrives
+    const deferred = displayRenderer.supportsFeature(G2Feature.REFRESH);
+    const commands: DisplayCommand[] = [];
+
+    if (deferred) {
+      commands.push({ type: DisplayCommandType.REFRESH, mode: RefreshMode.BEGIN_DEFERRED });
+    }
+    commands.push({ type: DisplayCommandType.CLEAR });
+
+    for (const element of update.elements) {
+      if (!element.visible) continue;
+      commands.push(this.toTextCommand(element));
+    }
+
+    if (update.graphics) {
+      commands.push(...update.graphics);
+    }
+
+    // Present the finished layout in a single refresh
+    if (deferred) {
+      commands.push({ type: DisplayCommandType.REFRESH, mode: RefreshMode.COMMIT });
+    }
+
+    // One queue entry: a newer layout queued before this one is sent replaces it
+    await g2Session.sendCommands(commands, {
+      priority: WritePriority.LAYOUT,
+      coalesceKey: LAYOUT_WRITE_KEY,
+    });
+
+    this.state.screen = screen;
+    this.state.lastUpdate = new Date();
+    console.log('Display updated successfully');
+
+    // Set display timeout
+    this.resetDisplayTimeout();
+  }
+
+  /**
+   * Re-push the current layout after a reconnect or when an alert clears
+   */
+  private async restoreDisplay(): Promise<void> {
+    console.log('Restoring display');
+
+    switch (this.state.screen) {
+      case GlassesScreen.AGENDA:
+        await this.showAgendaPage(this.agendaPage);
+        break;
+      case GlassesScreen.TIMELINE:
+        await this.showTimeline();
+        break;
+      default:
+        await this.showNextEvent();
+    }
+  }
+
+  /**
+   * Go back to the next event, unless it is snoozed or dismissed
+   */
+  private async showNextEvent(): Promise<void> {
+    this.eventOffset = 0;
+
+    if (this.state.currentEvent && !this.isEventHidden(this.state.currentEvent)) {
+      await this.updateDisplay(this.state.currentEvent);
+    } else {
+      await this.clearDisplay();
+    }
+  }
+
+  /**
+   * Draw the battery banner over the current screen without waiting for the next layout
+   */
+  private async showBatteryBanner(battery: BatteryState): Promise<void> {
+    const banner = this.getBatteryBanner(battery);
+    if (!banner) {
+      return;
+    }
+
+    const update = displayRenderer.renderElement(displayRenderer.createBannerElement(banner));
+    await g2Session.sendCommands(update.elements.map(element => this.toTextCommand(element)), {
+      priority: WritePriority.URGENT,
+      coalesceKey: BATTERY_BANNER_WRITE_KEY,
+    });
+  }
+
+  /**
+   * Banner text while the battery is low, null otherwise
+   */
+  private getBatteryBanner(battery: BatteryState = batteryService.getState()): string | null {
+    if (battery.status === BatteryStatus.NORMAL || battery.level === null) {
+      return null;
+    }
+
+    const label = battery.status === BatteryStatus.CRITICAL ? 'Battery critical' : 'Battery low';
+    const remaining = battery.minutesRemaining !== null
+      ? ` - about ${battery.minutesRemaining} min left`
+      : '';
+    return `${label}: ${battery.level}%${remaining}`;
+  }
+
   /**
    * Clear display
    */
   async clearDisplay(): Promise<void> {
-    if (bleManager.isConnected()) {
-      await bleManager.clearDisplay();
+    if (g2Session.isConnected()) {
+      // Supersedes any layout still waiting in the write queue
+      await g2Session.sendCommands([{ type: DisplayCommandType.CLEAR }], {
+        priority: WritePriority.LAYOUT,
+        coalesceKey: LAYOUT_WRITE_KEY,
+      });
       console.log('Display cleared');
     }
+    this.state.screen = GlassesScreen.IDLE;
+  }
+
+  /**
+   * Action a gesture triggers on the given arm (null for either) and screen
+   */
+  getGestureAction(gesture: TouchBarEventType, arm: G2Arm | null, screen: GlassesScreen): GestureAction {
+    return gestureBindingService.resolve(gesture, arm, screen);
+  }
+
+  /**
+   * Bind a gesture to an action on the given arm and screen (null for any)
+   */
+  async setGestureAction(
+    gesture: TouchBarEventType,
+    arm: G2Arm | null,
+    screen: GlassesScreen | null,
+    action: GestureAction
+  ): Promise<void> {
+    await gestureBindingService.setBinding({ gesture, arm, screen, action });
+  }
+
+  /**
+   * Restore the default gesture bindings
+   */
+  async resetGestureBindings(): Promise<void> {
+    await gestureBindingService.reset();
+  }
+
+  /**
+   * Read the glasses settings
+   */
+  async getGlassesSettings(): Promise<G2Settings> {
+    return g2Session.getSettings();
+  }
+
+  /**
+   * Change glasses settings; resolves with the values the glasses now use
+   */
+  async updateGlassesSettings(changes: G2Settings): Promise<G2Settings> {
+    const settings = await g2Session.updateSettings(changes);
+    console.log('Glasses settings updated:', settings);
+    return settings;
   }
 
   /**
@@ -248,28 +580,284 @@ export class AppCoordinator {
     return { ...this.state };
   }
 
+  /**
+   * Resolve with the first paired device seen during a scan, or null on timeout
+   */
+  private scanForKnownDevice(timeout: number): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => finish(null), timeout);
+
+      const finish = (deviceId: string | null) => {
+        clearTimeout(timer);
+        this.knownDeviceScan = null;
+        g2Session.stopScan();
+        resolve(deviceId);
+      };
+
+      this.knownDeviceScan = finish;
+
+      g2Session.startScan({ timeout, allowDuplicates: false }).catch(error => {
+        clearTimeout(timer);
+        this.knownDeviceScan = null;
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * Remember the connected glasses for the next launch
+   */
+  private async rememberConnectedDevice(): Promise<void> {
+    const device = g2Session.getConnectedDevice();
+    if (!device) {
+      return;
+    }
+
+    await deviceRegistry.recordConnection(device);
+
+    try {
+      const firmwareVersion = await g2Session.getFirmwareVersion();
+      await deviceRegistry.updateDevice(device.id, { firmwareVersion });
+    } catch (error) {
+      console.warn('Could not read firmware version:', error);
+    }
+  }
+
   /**
    * Setup BLE event listeners
    */
   private setupBLEListeners(): void {
-    bleManager.onConnectionStateChange((state) => {
+    g2Session.onConnectionStateChange((state) => {
       console.log('BLE connection state:', state);
-      this.state.bleConnected = state === BLEConnectionState.CONNECTED;
+      const wasConnected = this.state.bleConnected;
+      const wasReconnecting = this.state.bleReconnecting;
+      const wasPartial = this.state.blePartiallyConnected;
+      this.state.bleConnected = g2Session.isConnected();
+      this.state.bleReconnecting = state === BLEConnectionState.RECONNECTING;
+      this.state.blePartiallyConnected = state === BLEConnectionState.PARTIALLY_CONNECTED;
+
+      // Arms joining or leaving change what the session as a whole supports
+      displayRenderer.setCapabilities(g2Session.getCapabilities());
+
+      if (this.state.bleConnected && !wasConnected) {
+        this.rememberConnectedDevice().catch(console.error);
+
+        if (wasReconnecting) {
+          // The G2 may have power-cycled or blanked while out of range
+          this.restoreDisplay().catch(console.error);
+        } else if (this.state.currentEvent) {
+          // Update display when connected
+          this.updateDisplay(this.state.currentEvent).catch(console.error);
+        }
+      } else if (state === BLEConnectionState.CONNECTED && wasPartial) {
+        // The arm that dropped is back and needs the current layout
+        this.restoreDisplay().catch(console.error);
+      }
+    });
 
-      if (state === BLEConnectionState.CONNECTED && this.state.currentEvent) {
-        // Update display when connected
-        this.updateDisplay(this.state.currentEvent).catch(console.error);
+    g2Session.onRadioStateChange((state) => {
+      console.log('Bluetooth state:', state);
+
+      // Bluetooth was off at launch or while disconnected; a dropped link reconnects by itself
+      if (
+        state === BLERadioState.POWERED_ON &&
+        this.config.autoConnectDevice &&
+        g2Session.getConnectionState() === BLEConnectionState.DISCONNECTED
+      ) {
+        this.autoConnect().catch(error =>
+          console.error('Auto-connect failed:', error)
+        );
       }
     });
 
-    bleManager.onError((error) => {
+    g2Session.onDeviceDiscovered((device) => {
+      if (!deviceRegistry.isKnown(device.id)) {
+        return;
+      }
+
+      deviceRegistry.updateDevice(device.id, { lastRssi: device.rssi }).catch(console.error);
+      this.knownDeviceScan?.(device.id);
+    });
+
+    g2Session.onError((error) => {
       console.error('BLE error:', error);
       this.state.error = error.message;
     });
 
-    bleManager.onTouchBarEvent((event) => {
-      console.log('TouchBar event:', event);
-      // Handle TouchBar interactions (future feature)
+    g2Session.onTouchBarEvent((event) => {
+      this.handleTouchBarEvent(event).catch(error =>
+        console.error('TouchBar action failed:', error)
+      );
+    });
+  }
+
+  /**
+   * Run the action bound to a TouchBar gesture
+   */
+  private async handleTouchBarEvent(event: TouchBarEvent): Promise<void> {
+    const action = gestureBindingService.resolve(event.type, event.arm, this.state.screen);
+    console.log(`TouchBar ${event.type}${event.arm ? ` (${event.arm})` : ''} on ${this.state.screen}: ${action}`);
+
+    // From a blank display or the timeline, paging brings back the event that was showing
+    const idle = this.state.screen === GlassesScreen.IDLE || this.state.screen === GlassesScreen.TIMELINE;
+    const agenda = this.state.screen === GlassesScreen.AGENDA;
+
+    switch (action) {
+      case GestureAction.NEXT_EVENT:
+        if (agenda) {
+          await this.showAgendaPage(this.agendaPage + 1);
+        } else {
+          await this.showEventAt(idle ? this.eventOffset : this.eventOffset + 1);
+        }
+        break;
+      case GestureAction.PREVIOUS_EVENT:
+        if (agenda) {
+          await this.showAgendaPage(this.agendaPage - 1);
+        } else {
+          await this.showEventAt(idle ? this.eventOffset : this.eventOffset - 1);
+        }
+        break;
+      case GestureAction.DISMISS:
+        await this.dismissEvent();
+        break;
+      case GestureAction.SNOOZE:
+        await this.snoozeDisplay();
+        break;
+      case GestureAction.TOGGLE_AGENDA:
+        if (agenda) {
+          await this.showNextEvent();
+        } else {
+          await this.showAgendaPage(0);
+        }
+        break;
+      case GestureAction.TOGGLE_TIMELINE:
+        if (this.state.screen === GlassesScreen.TIMELINE) {
+          await this.showNextEvent();
+        } else {
+          await this.showTimeline();
+        }
+        break;
+      case GestureAction.BRIGHTNESS_UP:
+        await this.stepBrightness(1);
+        break;
+      case GestureAction.BRIGHTNESS_DOWN:
+        await this.stepBrightness(-1);
+        break;
+      case GestureAction.CLEAR_DISPLAY:
+        await this.clearDisplay();
+        break;
+    }
+  }
+
+  /**
+   * Show the upcoming event at offset (0 is the next event, or the one in progress)
+   * Paging past either end stays on the first or last event
+   */
+  private async showEventAt(offset: number): Promise<void> {
+    this.cancelSnooze();
+    this.dismissedEventId = null;
+
+    const now = new Date();
+    const events = (await calendarService.getUpcomingEvents(BROWSE_LIMIT))
+      .filter(event => event.startDate > now);
+
+    const current = this.state.currentEvent;
+    if (current?.isInProgress && current.event.endDate > now) {
+      events.unshift(current.event);
+    }
+
+    if (events.length === 0) {
+      this.eventOffset = 0;
+      await this.clearDisplay();
+      return;
+    }
+
+    this.eventOffset = Math.max(0, Math.min(events.length - 1, offset));
+    await this.updateDisplay(calendarService.getEventInfo(events[this.eventOffset], now));
+  }
+
+  /**
+   * Hide the next event until a different one is next
+   * Dismissing the agenda, the timeline or an event paged to returns to the next event instead
+   */
+  private async dismissEvent(): Promise<void> {
+    if (this.state.screen === GlassesScreen.AGENDA || this.state.screen === GlassesScreen.TIMELINE) {
+      await this.showNextEvent();
+      return;
+    }
+
+    if (this.eventOffset > 0) {
+      await this.showEventAt(0);
+      return;
+    }
+
+    this.dismissedEventId = this.state.currentEvent?.event.id || null;
+    await this.clearDisplay();
+  }
+
+  /**
+   * Blank the display, then bring the next event back after the snooze duration
+   */
+  private async snoozeDisplay(): Promise<void> {
+    this.cancelSnooze();
+    this.snoozeTimer = setTimeout(() => {
+      this.snoozeTimer = null;
+      if (g2Session.isConnected()) {
+        this.restoreDisplay().catch(console.error);
+      }
+    }, this.config.snoozeDuration || 300000);
+
+    await this.clearDisplay();
+    console.log('Display snoozed');
+  }
+
+  private cancelSnooze(): void {
+    if (this.snoozeTimer) {
+      clearTimeout(this.snoozeTimer);
+      this.snoozeTimer = null;
+    }
+  }
+
+  /**
+   * Whether a snooze or dismissal keeps this event off the display
+   */
+  private isEventHidden(eventInfo: NextEventInfo): boolean {
+    return this.snoozeTimer !== null || eventInfo.event.id === this.dismissedEventId;
+  }
+
+  private async stepBrightness(direction: 1 | -1): Promise<void> {
+    const level = Math.max(
+      0,
+      Math.min(100, (this.brightness ?? DEFAULT_BRIGHTNESS) + direction * (this.config.brightnessStep || 10))
+    );
+
+    await g2Session.setBrightness(level);
+    this.brightness = level;
+    console.log(`Brightness set to ${level}%`);
+  }
+
+  /**
+   * Setup battery event listeners
+   */
+  private setupBatteryListeners(): void {
+    batteryService.onStateChange((battery) => {
+      this.state.batteryLevel = battery.level;
+    });
+
+    batteryService.onStatusChange((status, battery) => {
+      console.log('Battery status:', status);
+      this.state.batteryStatus = status;
+
+      if (!g2Session.isConnected()) {
+        return;
+      }
+
+      if (status === BatteryStatus.NORMAL) {
+        // Charged back up, redraw without the banner
+        this.restoreDisplay().catch(console.error);
+      } else {
+        this.showBatteryBanner(battery).catch(console.error);
+      }
     });
   }
 
@@ -280,10 +868,18 @@ export class AppCoordinator {
     calendarService.onNextEventChange((eventInfo) => {
       console.log('Next event changed:', eventInfo?.event.title || 'None');
       this.state.currentEvent = eventInfo;
-
-      if (eventInfo && bleManager.isConnected()) {
-        this.updateDisplay(eventInfo).catch(console.error);
-      } else if (!eventInfo && bleManager.isConnected()) {
+      this.eventOffset = 0;
+
+      if (this.state.screen === GlassesScreen.AGENDA && g2Session.isConnected()) {
+        // The event that ended drops off the agenda
+        this.showAgendaPage(this.agendaPage).catch(console.error);
+      } else if (this.state.screen === GlassesScreen.TIMELINE && g2Session.isConnected()) {
+        this.showTimeline().catch(console.error);
+      } else if (eventInfo && g2Session.isConnected()) {
+        if (!this.isEventHidden(eventInfo)) {
+          this.updateDisplay(eventInfo).catch(console.error);
+        }
+      } else if (!eventInfo && g2Session.isConnected()) {
         // No upcoming events, clear display
         this.clearDisplay().catch(console.error);
       }
@@ -313,8 +909,13 @@ export class AppCoordinator {
         // Refresh next event
         const nextEvent = await calendarService.getNextEvent();
 
-        // Update display if event changed and we're connected
-        if (nextEvent && bleManager.isConnected()) {
+        // Update display if event changed and we're connected; leave events paged to from the glasses alone
+        if (this.state.screen === GlassesScreen.AGENDA && g2Session.isConnected()) {
+          await this.showAgendaPage(this.agendaPage);
+        } else if (this.state.screen === GlassesScreen.TIMELINE && g2Session.isConnected()) {
+          // Moves the now marker along
+          await this.showTimeline();
+        } else if (nextEvent && g2Session.isConnected() && this.eventOffset === 0 && !this.isEventHidden(nextEvent)) {
           await this.updateDisplay(nextEvent);
         }
       } catch (error) {
@@ -350,6 +951,24 @@ export class AppCoordinator {
     }, this.config.displayTimeout || 300000);
   }
 
+  /**
+   * Utility: Build the text command for a rendered element
+   */
+  private toTextCommand(element: DisplayElement): DisplayCommand {
+    return {
+      type: DisplayCommandType.TEXT,
+      text: element.content,
+      x: element.region.x,
+      y: element.region.y,
+      alignment: this.mapAlignment(element.style.alignment),
+      fontSize: element.style.fontSize,
+      bold: element.style.bold,
+      inverted: element.style.inverted,
+      underline: element.style.underline,
+      maxWidth: element.region.width,
+    };
+  }
+
   /**
    * Utility: Map alignment
    */
@@ -364,18 +983,13 @@ export class AppCoordinator {
     }
   }
 
-  /**
-   * Utility: Delay
-   */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   /**
    * Cleanup
    */
   async destroy(): Promise<void> {
     this.stopAutoUpdate();
+    this.cancelSnooze();
+    batteryService.stop();
     if (this.displayTimeout) {
       clearTimeout(this.displayTimeout);
     }
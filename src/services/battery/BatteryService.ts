@@ -0,0 +1,341 @@
+/**
+ * Battery Service
+ * Tracks the G2 battery across both arms
+ *
+ * Levels arrive as notifications when the firmware sends them and are polled
+ * otherwise, more often as the battery drains. Readings are kept as history
+ * to estimate the drain rate and the time left.
+ */
+
+import { g2Session, G2Session } from '../ble/G2Session';
+import { BLEConnectionState, G2Arm } from '@/types/ble.types';
+import {
+  BatteryStatus,
+  BatteryReading,
+  BatteryReadingSource,
+  BatteryState,
+  BatteryServiceConfig,
+  BatteryStateCallback,
+  BatteryStatusCallback,
+} from '@/types/battery.types';
+
+/**
+ * Default Configuration
+ */
+const DEFAULT_CONFIG: BatteryServiceConfig = {
+  lowThreshold: 20,
+  criticalThreshold: 10,
+  hysteresis: 5,
+  pollIntervals: {
+    [BatteryStatus.NORMAL]: 600000, // 10 minutes
+    [BatteryStatus.LOW]: 120000, // 2 minutes
+    [BatteryStatus.CRITICAL]: 60000, // 1 minute
+  },
+  notificationPollInterval: 1800000, // 30 minutes
+  maxHistory: 500,
+  drainWindow: 3600000, // 1 hour
+  minDrainSpan: 600000, // 10 minutes
+};
+
+const MS_PER_HOUR = 3600000;
+
+/**
+ * Battery Service Implementation
+ */
+export class BatteryService {
+  private config: BatteryServiceConfig;
+  private session: G2Session;
+  private running = false;
+  private polling = false;
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+  private armLevels: Partial<Record<G2Arm, number>> = {};
+  private history: BatteryReading[] = [];
+  private status: BatteryStatus = BatteryStatus.NORMAL;
+  private lastUpdated: Date | null = null;
+
+  // Callbacks
+  private stateCallbacks: BatteryStateCallback[] = [];
+  private statusCallbacks: BatteryStatusCallback[] = [];
+
+  constructor(config: Partial<BatteryServiceConfig> = {}, session: G2Session = g2Session) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.session = session;
+
+    session.onBatteryLevelChange((level, arm) => {
+      if (this.running && arm) {
+        this.record({ [arm]: level }, 'notification');
+      }
+    });
+
+    session.onConnectionStateChange(() => this.handleConnectionStateChange());
+  }
+
+  /**
+   * Start monitoring; reads immediately if the glasses are connected
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    console.log('Battery monitoring started');
+
+    if (this.session.isConnected()) {
+      this.poll().catch(console.error);
+    }
+  }
+
+  /**
+   * Stop monitoring (history is kept)
+   */
+  stop(): void {
+    this.running = false;
+    this.clearPollTimer();
+    console.log('Battery monitoring stopped');
+  }
+
+  /**
+   * Read every connected arm now and reschedule the next poll
+   */
+  async poll(): Promise<void> {
+    if (this.polling || !this.session.isConnected()) {
+      return;
+    }
+
+    this.polling = true;
+    this.clearPollTimer();
+
+    try {
+      const levels: Partial<Record<G2Arm, number>> = {};
+
+      for (const arm of this.connectedArms()) {
+        try {
+          levels[arm] = await this.session.getBatteryLevel(arm);
+        } catch (error) {
+          console.warn(`Failed to read ${arm} arm battery:`, error);
+        }
+      }
+
+      if (Object.keys(levels).length > 0) {
+        this.record(levels, 'poll');
+      }
+    } finally {
+      this.polling = false;
+      this.scheduleNextPoll();
+    }
+  }
+
+  /**
+   * Get current battery state
+   */
+  getState(): BatteryState {
+    const level = this.getLevel();
+    const drainRate = this.estimateDrainRate();
+
+    return {
+      level,
+      status: this.status,
+      arms: { ...this.armLevels },
+      drainRate,
+      minutesRemaining: level !== null && drainRate ? Math.round((level / drainRate) * 60) : null,
+      notificationsActive: this.session.hasBatteryNotifications(),
+      lastUpdated: this.lastUpdated,
+    };
+  }
+
+  getStatus(): BatteryStatus {
+    return this.status;
+  }
+
+  /**
+   * Readings, oldest first
+   */
+  getHistory(): BatteryReading[] {
+    return [...this.history];
+  }
+
+  /**
+   * Event listener registration
+   */
+  onStateChange(callback: BatteryStateCallback): void {
+    this.stateCallbacks.push(callback);
+  }
+
+  onStatusChange(callback: BatteryStatusCallback): void {
+    this.statusCallbacks.push(callback);
+  }
+
+  /**
+   * Private Methods
+   */
+
+  private handleConnectionStateChange(): void {
+    if (!this.running) {
+      return;
+    }
+
+    // Levels of an arm that dropped out are stale
+    const connected = this.connectedArms();
+    const staleArms = (Object.keys(this.armLevels) as G2Arm[]).filter(arm => !connected.includes(arm));
+    staleArms.forEach(arm => delete this.armLevels[arm]);
+
+    if (connected.length > 0) {
+      // A newly connected arm has no level yet
+      this.poll().catch(console.error);
+    } else {
+      this.clearPollTimer();
+    }
+
+    if (staleArms.length > 0) {
+      this.notifyStateChange(this.getState());
+    }
+  }
+
+  private record(levels: Partial<Record<G2Arm, number>>, source: BatteryReadingSource): void {
+    this.armLevels = { ...this.armLevels, ...levels };
+    const level = this.getLevel() as number;
+    const now = new Date();
+
+    this.history.push({ level, arms: { ...this.armLevels }, source, timestamp: now });
+    if (this.history.length > this.config.maxHistory) {
+      this.history.splice(0, this.history.length - this.config.maxHistory);
+    }
+    this.lastUpdated = now;
+
+    const status = this.classify(level);
+    const statusChanged = status !== this.status;
+    this.status = status;
+
+    const state = this.getState();
+    this.notifyStateChange(state);
+
+    if (statusChanged) {
+      console.log(`Battery ${status.toLowerCase()}: ${level}%`);
+      this.notifyStatusChange(status, state);
+
+      // Poll at the rate of the new status
+      if (!this.polling) {
+        this.scheduleNextPoll();
+      }
+    }
+  }
+
+  /**
+   * Map a level to a status; a recovering (charging) level has to clear the
+   * threshold by the hysteresis margin so a level hovering on it doesn't flap
+   */
+  private classify(level: number): BatteryStatus {
+    const { lowThreshold, criticalThreshold, hysteresis } = this.config;
+    const criticalLimit = this.status === BatteryStatus.CRITICAL
+      ? criticalThreshold + hysteresis
+      : criticalThreshold;
+    const lowLimit = this.status === BatteryStatus.NORMAL
+      ? lowThreshold
+      : lowThreshold + hysteresis;
+
+    if (level <= criticalLimit) {
+      return BatteryStatus.CRITICAL;
+    }
+    if (level <= lowLimit) {
+      return BatteryStatus.LOW;
+    }
+    return BatteryStatus.NORMAL;
+  }
+
+  /**
+   * Percent per hour over the recent window, or null without enough data
+   */
+  private estimateDrainRate(): number | null {
+    const now = Date.now();
+    const recent = this.history.filter(
+      reading => now - reading.timestamp.getTime() <= this.config.drainWindow
+    );
+
+    // Only readings since the level last rose (charging) describe the current drain
+    let start = 0;
+    for (let i = 1; i < recent.length; i++) {
+      if (recent[i].level > recent[i - 1].level) {
+        start = i;
+      }
+    }
+
+    const readings = recent.slice(start);
+    if (readings.length < 2) {
+      return null;
+    }
+
+    const first = readings[0];
+    const last = readings[readings.length - 1];
+    const span = last.timestamp.getTime() - first.timestamp.getTime();
+    const dropped = first.level - last.level;
+
+    if (span < this.config.minDrainSpan || dropped <= 0) {
+      return null;
+    }
+
+    return dropped / (span / MS_PER_HOUR);
+  }
+
+  private scheduleNextPoll(): void {
+    this.clearPollTimer();
+
+    if (!this.running || !this.session.isConnected()) {
+      return;
+    }
+
+    // Polls are only a safety net while the glasses push changes themselves
+    const interval = this.session.hasBatteryNotifications()
+      ? this.config.notificationPollInterval
+      : this.config.pollIntervals[this.status];
+
+    this.pollTimer = setTimeout(() => {
+      this.pollTimer = null;
+      this.poll().catch(console.error);
+    }, interval);
+  }
+
+  private clearPollTimer(): void {
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private connectedArms(): G2Arm[] {
+    const states = this.session.getArmStates();
+    return (Object.keys(states) as G2Arm[]).filter(
+      arm => states[arm] === BLEConnectionState.CONNECTED
+    );
+  }
+
+  /**
+   * The emptiest arm decides when the glasses die
+   */
+  private getLevel(): number | null {
+    const levels = Object.values(this.armLevels) as number[];
+    return levels.length > 0 ? Math.min(...levels) : null;
+  }
+
+  private notifyStateChange(state: BatteryState): void {
+    this.stateCallbacks.forEach(cb => cb(state));
+  }
+
+  private notifyStatusChange(status: BatteryStatus, state: BatteryState): void {
+    this.statusCallbacks.forEach(cb => cb(status, state));
+  }
+
+  /**
+   * Cleanup
+   */
+  destroy(): void {
+    this.stop();
+    this.stateCallbacks = [];
+    this.statusCallbacks = [];
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const batteryService = new BatteryService();
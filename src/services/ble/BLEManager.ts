@@ -1,27 +1,52 @@
 /**
  * BLE Manager
- * Handles all Bluetooth Low Energy communication with Even G2 glasses
+ * Handles Bluetooth Low Energy communication with one Even G2 peripheral (arm)
+ * G2Session pairs two managers into a dual-arm device
  */
 
-import { BleManager, Device, State, Subscription } from 'react-native-ble-plx';
-import { Platform, PermissionsAndroid } from 'react-native';
 import {
   IBLEManager,
+  IBLETransport,
+  BLERadioState,
   BLEConnectionState,
   BLEError,
   BLEErrorType,
   G2DeviceInfo,
   DisplayCommand,
   BLEManagerConfig,
+  LinkMetrics,
   BLEConnectionOptions,
   BLEScanOptions,
   DeviceDiscoveryCallback,
   ConnectionStateCallback,
   ErrorCallback,
   TouchBarEventCallback,
+  BatteryLevelCallback,
+  RadioStateCallback,
+  TouchBarEvent,
+  NotificationType,
+  NackReason,
+  RefreshMode,
+  DisplayCommandType,
+  WritePriority,
+  WriteOptions,
+  CharacteristicRoute,
+  TransportConnection,
+  TransportScanResult,
+  TransportSubscription,
+  TransportNotificationListener,
+  G2Capabilities,
+  G2CapabilitiesDescriptor,
+  G2Feature,
+  G2Settings,
+  ProtocolDefinition,
+  IProtocolDecoder,
   G2_UUIDS,
 } from '@/types/ble.types';
-import { g2Encoder, g2Decoder } from './G2Protocol';
+import { g2Decoder, g2Fragmenter, G2FrameParser, G2ProtocolUtils } from './G2Protocol';
+import { BlePlxTransport } from './BlePlxTransport';
+import { ProtocolTracer } from './ProtocolTracer';
+import { protocolRegistry } from './ProtocolRegistry';
 
 /**
  * Default BLE Manager Configuration
@@ -30,32 +55,206 @@ const DEFAULT_CONFIG: BLEManagerConfig = {
   scanTimeout: 10000,
   connectionTimeout: 5000,
   reconnectDelay: 2000,
+  maxReconnectDelay: 30000,
+  reconnectJitter: 0.3,
   maxReconnectAttempts: 5,
   enableAutoReconnect: true,
   rssiThreshold: -80,
+  scanMode: 'balanced',
+  requireAcknowledgement: true,
+  ackTimeout: 1000,
+  maxRetransmissions: 3,
+  maxQueueSize: 32,
+  writeTimeout: 10000,
+  heartbeatInterval: 15000,
+  heartbeatTimeout: 5000,
+  maxMissedHeartbeats: 3,
+  metricsWindow: 60000,
+  traceBufferSize: 500,
+  restoreState: true,
 };
 
+/**
+ * ATT MTU assumed until the connection reports a negotiated value
+ */
+const DEFAULT_MTU = 23;
+
+/**
+ * RSSI change (dBm) that re-notifies listeners about an already discovered device
+ */
+const RSSI_UPDATE_DELTA = 5;
+
+/**
+ * Command-to-characteristic routing table
+ * Candidates are tried in order after service discovery. Firmware variants
+ * without a dedicated characteristic fall back to the shared text characteristic.
+ */
+const TEXT_ROUTE: CharacteristicRoute = {
+  serviceUUID: G2_UUIDS.DISPLAY_SERVICE,
+  characteristicUUID: G2_UUIDS.TEXT_CHARACTERISTIC,
+};
+
+const COMMAND_ROUTES: Record<DisplayCommandType, CharacteristicRoute[]> = {
+  [DisplayCommandType.TEXT]: [TEXT_ROUTE],
+  [DisplayCommandType.CLEAR]: [
+    { serviceUUID: G2_UUIDS.DISPLAY_SERVICE, characteristicUUID: G2_UUIDS.CLEAR_CHARACTERISTIC },
+    TEXT_ROUTE,
+  ],
+  [DisplayCommandType.GRAPHICS]: [
+    { serviceUUID: G2_UUIDS.DISPLAY_SERVICE, characteristicUUID: G2_UUIDS.GRAPHICS_CHARACTERISTIC },
+    TEXT_ROUTE,
+  ],
+  [DisplayCommandType.BRIGHTNESS]: [
+    { serviceUUID: G2_UUIDS.CONFIG_SERVICE, characteristicUUID: G2_UUIDS.BRIGHTNESS_CHARACTERISTIC },
+    TEXT_ROUTE,
+  ],
+  // Commits must stay ordered with the draws they present
+  [DisplayCommandType.REFRESH]: [TEXT_ROUTE],
+  [DisplayCommandType.PING]: [TEXT_ROUTE],
+};
+
+/**
+ * Settings record, read and written outside the display write queue
+ */
+const SETTINGS_ROUTE: CharacteristicRoute = {
+  serviceUUID: G2_UUIDS.CONFIG_SERVICE,
+  characteristicUUID: G2_UUIDS.SETTINGS_CHARACTERISTIC,
+};
+
+/**
+ * Outcome of waiting for a command acknowledgement
+ */
+type AckResult =
+  | { status: 'ACK' }
+  | { status: 'NACK'; reason: NackReason }
+  | { status: 'TIMEOUT' };
+
+/**
+ * Command awaiting an ACK/NACK from the status characteristic
+ */
+interface PendingAck {
+  resolve: (result: AckResult) => void;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Command encoded at enqueue time, sent when its queue entry runs
+ */
+interface EncodedCommand {
+  type: DisplayCommandType;
+  frame: Uint8Array;
+}
+
+/**
+ * Entry in the write queue
+ * Commands in one entry are sent back to back, never interleaved with other writes
+ */
+interface QueuedWrite {
+  commands: EncodedCommand[];
+  priority: WritePriority;
+  coalesceKey: string | null;
+  barrier: boolean; // Contains a REFRESH; older writes can't be coalesced across it
+  waiters: Array<{ resolve: () => void; reject: (error: BLEError) => void }>;
+  timer: ReturnType<typeof setTimeout> | null;
+  settled: boolean;
+}
+
+/**
+ * One delivered (or failed) command, kept for link metrics
+ */
+interface LinkSample {
+  timestamp: number;
+  latency: number | null; // ms, null when the command failed
+  bytes: number;
+  ok: boolean;
+}
+
 /**
  * BLE Manager Implementation
  */
 export class G2BLEManager implements IBLEManager {
-  private bleManager: BleManager;
+  private transport: IBLETransport;
+  private tracer: ProtocolTracer;
   private config: BLEManagerConfig;
-  private connectedDevice: Device | null = null;
+  private connectedDevice: TransportConnection | null = null;
   private connectionState: BLEConnectionState = BLEConnectionState.DISCONNECTED;
+  private mtu = DEFAULT_MTU;
   private reconnectAttempts = 0;
-  private scanSubscription: Subscription | null = null;
-  private connectionSubscription: Subscription | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastDeviceId: string | null = null;
+  private lastConnectionOptions: BLEConnectionOptions = {};
+  private discoveredDevices = new Map<string, G2DeviceInfo>();
+  private scanTimer: ReturnType<typeof setTimeout> | null = null;
+  private connectionSubscription: TransportSubscription | null = null;
+  private stateSubscription: TransportSubscription | null = null;
+  private restoreSubscription: TransportSubscription | null = null;
+  private radioState: BLERadioState = BLERadioState.UNKNOWN;
+  private radioWaiters: Array<() => void> = []; // connect() calls waiting for the radio
+  private activeScan: BLEScanOptions | null = null;
+  private pendingScan: BLEScanOptions | null = null; // Scan to start once the radio is on
+  private notificationSubscriptions: TransportSubscription[] = [];
+  private protocol: ProtocolDefinition = protocolRegistry.getBaseline();
+  private capabilities: G2Capabilities | null = null;
+  private skippedFeatures = new Set<G2Feature>(); // Already warned about this connection
+  private touchBarParser = this.createParser(this.protocol.decoder);
+  private statusParser = this.createParser(this.protocol.decoder);
+  private ackChannelReady = false;
+  private batteryNotificationsReady = false;
+  private batteryLevel: number | null = null;
+  private nextSequence = 0;
+  private pendingAcks = new Map<number, PendingAck>();
+  private availableCharacteristics = new Set<string>();
+  private commandRoutes = new Map<DisplayCommandType, CharacteristicRoute>();
+  private writeQueue: QueuedWrite[] = [];
+  private writeInFlight = false;
+  private heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+  private missedHeartbeats = 0;
+  private lastHeartbeat: Date | null = null;
+  private lastDeliveryAt = 0;
+  private connectedSince: Date | null = null;
+  private linkSamples: LinkSample[] = [];
+  private retransmissionTimes: number[] = [];
   
   // Callbacks
   private deviceDiscoveryCallbacks: DeviceDiscoveryCallback[] = [];
   private connectionStateCallbacks: ConnectionStateCallback[] = [];
   private errorCallbacks: ErrorCallback[] = [];
   private touchBarCallbacks: TouchBarEventCallback[] = [];
+  private batteryCallbacks: BatteryLevelCallback[] = [];
+  private radioStateCallbacks: RadioStateCallback[] = [];
 
-  constructor(config: Partial<BLEManagerConfig> = {}) {
-    this.bleManager = new BleManager();
+  constructor(
+    config: Partial<BLEManagerConfig> = {},
+    transport: IBLETransport = new BlePlxTransport(),
+    tracer?: ProtocolTracer
+  ) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.tracer = tracer || new ProtocolTracer({ capacity: this.config.traceBufferSize });
+    this.transport = this.tracer.wrap(transport);
+  }
+
+  /**
+   * Swap the underlying transport (e.g. the in-process G2 simulator)
+   * Only allowed while disconnected
+   */
+  setTransport(transport: IBLETransport): void {
+    if (this.connectedDevice) {
+      throw new Error('Cannot change transport while connected');
+    }
+    
+    this.stopScan();
+    this.stateSubscription?.remove();
+    this.stateSubscription = null;
+    this.restoreSubscription?.remove();
+    this.restoreSubscription = null;
+    this.transport = this.tracer.wrap(transport);
+  }
+
+  /**
+   * Tracer recording every packet exchanged with the glasses
+   */
+  getTracer(): ProtocolTracer {
+    return this.tracer;
   }
 
   /**
@@ -64,29 +263,53 @@ export class G2BLEManager implements IBLEManager {
   async initialize(): Promise<void> {
     try {
       // Request permissions
-      await this.requestPermissions();
+      const granted = await this.transport.requestPermissions();
+      if (!granted) {
+        throw this.createError(
+          BLEErrorType.PERMISSION_DENIED,
+          'Bluetooth permissions not granted'
+        );
+      }
       
       // Check Bluetooth state
-      const state = await this.bleManager.state();
-      if (state !== State.PoweredOn) {
+      this.radioState = await this.transport.state();
+      if (this.radioState === BLERadioState.UNSUPPORTED) {
         throw this.createError(
           BLEErrorType.BLUETOOTH_DISABLED,
-          'Bluetooth is not enabled'
+          'Bluetooth LE is not supported on this device'
+        );
+      }
+      
+      // Scans and connects wait for the radio rather than fail
+      // (UNKNOWN is normal for a moment after launch and isn't reported)
+      if (this.radioState === BLERadioState.POWERED_OFF) {
+        this.handleError(
+          this.createError(BLEErrorType.BLUETOOTH_DISABLED, 'Bluetooth is not enabled')
+        );
+      } else if (this.radioState === BLERadioState.UNAUTHORIZED) {
+        this.handleError(
+          this.createError(BLEErrorType.PERMISSION_DENIED, 'Bluetooth access is not authorized')
         );
       }
       
       // Monitor Bluetooth state changes
-      this.bleManager.onStateChange((state) => {
-        if (state === State.PoweredOff) {
-          this.handleError(
-            this.createError(BLEErrorType.BLUETOOTH_DISABLED, 'Bluetooth was disabled')
-          );
-          this.disconnect();
-        }
-      }, true);
+      this.stateSubscription?.remove();
+      this.stateSubscription = this.transport.onStateChange(
+        state => this.handleRadioStateChange(state),
+        true
+      );
+      
+      // Peripherals the OS kept connected while the app wasn't running
+      this.restoreSubscription?.remove();
+      this.restoreSubscription = this.config.restoreState
+        ? this.transport.onStateRestored(devices => this.restoreConnection(devices))
+        : null;
       
-      console.log('BLE Manager initialized');
+      console.log(`BLE Manager initialized (Bluetooth ${this.radioState})`);
     } catch (error) {
+      if (this.isBLEError(error)) {
+        throw error;
+      }
       throw this.createError(
         BLEErrorType.UNKNOWN,
         'Failed to initialize BLE Manager',
@@ -97,39 +320,36 @@ export class G2BLEManager implements IBLEManager {
 
   /**
    * Start scanning for G2 devices
+   * Only peripherals advertising the display service are reported
    */
   async startScan(options: BLEScanOptions = {}): Promise<void> {
+    if (this.isRadioOff()) {
+      console.log('Bluetooth is off, scan starts once it is turned on');
+      this.pendingScan = options;
+      return;
+    }
+    
     try {
       this.updateConnectionState(BLEConnectionState.SCANNING);
       
       const timeout = options.timeout || this.config.scanTimeout;
+      const rssiThreshold = options.rssiThreshold ?? this.config.rssiThreshold;
       
       // Stop any existing scan
       this.stopScan();
+      if (this.scanTimer) {
+        clearTimeout(this.scanTimer);
+      }
+      this.discoveredDevices.clear();
+      this.activeScan = options;
       
       console.log('Starting BLE scan...');
       
-      this.scanSubscription = this.bleManager.onDeviceDisconnected(
-        null,
-        (error, device) => {
-          if (error) {
-            console.error('Device disconnected with error:', error);
-            return;
-          }
-          
-          // Filter for G2 devices (adjust name filter as needed)
-          if (device && this.isG2Device(device)) {
-            const deviceInfo = this.mapDeviceInfo(device);
-            this.notifyDeviceDiscovered(deviceInfo);
-          }
-        }
-      );
-      
       // Start scanning
-      this.bleManager.startDeviceScan(
-        null, // Service UUIDs (null = scan all)
-        { allowDuplicates: options.allowDuplicates || false },
-        (error, device) => {
+      this.transport.startScan(
+        [G2_UUIDS.DISPLAY_SERVICE],
+        { ...options, scanMode: options.scanMode || this.config.scanMode },
+        (error, result) => {
           if (error) {
             this.handleError(
               this.createError(BLEErrorType.UNKNOWN, 'Scan error', error)
@@ -137,15 +357,15 @@ export class G2BLEManager implements IBLEManager {
             return;
           }
           
-          if (device && this.isG2Device(device)) {
-            const deviceInfo = this.mapDeviceInfo(device);
-            this.notifyDeviceDiscovered(deviceInfo);
+          if (result) {
+            this.handleScanResult(result, rssiThreshold);
           }
         }
       );
       
       // Auto-stop scan after timeout
-      setTimeout(() => {
+      this.scanTimer = setTimeout(() => {
+        this.scanTimer = null;
         this.stopScan();
         if (this.connectionState === BLEConnectionState.SCANNING) {
           this.updateConnectionState(BLEConnectionState.DISCONNECTED);
@@ -160,15 +380,20 @@ export class G2BLEManager implements IBLEManager {
     }
   }
 
+  /**
+   * Devices seen in the current (or last) scan, strongest signal first
+   */
+  getDiscoveredDevices(): G2DeviceInfo[] {
+    return Array.from(this.discoveredDevices.values()).sort((a, b) => b.rssi - a.rssi);
+  }
+
   /**
    * Stop scanning
    */
   stopScan(): void {
-    if (this.scanSubscription) {
-      this.scanSubscription.remove();
-      this.scanSubscription = null;
-    }
-    this.bleManager.stopDeviceScan();
+    this.activeScan = null;
+    this.pendingScan = null;
+    this.transport.stopScan();
     console.log('BLE scan stopped');
   }
 
@@ -176,8 +401,39 @@ export class G2BLEManager implements IBLEManager {
    * Connect to G2 device
    */
   async connect(deviceId: string, options: BLEConnectionOptions = {}): Promise<void> {
-    try {
+    this.cancelReconnect();
+    this.reconnectAttempts = 0;
+    
+    // Remembered so a dropped link can be re-established without the user
+    this.lastDeviceId = deviceId;
+    this.lastConnectionOptions = options;
+    
+    if (this.isRadioOff()) {
+      console.log('Bluetooth is off, connecting once it is turned on');
       this.updateConnectionState(BLEConnectionState.CONNECTING);
+      await new Promise<void>(resolve => this.radioWaiters.push(resolve));
+      
+      if (this.lastDeviceId !== deviceId) {
+        throw this.createError(BLEErrorType.CONNECTION_FAILED, 'Connection cancelled');
+      }
+    }
+    
+    await this.establishConnection(deviceId, options, BLEConnectionState.CONNECTING);
+  }
+
+  /**
+   * Open the link, discover routes and subscribe to notifications
+   * Shared by user-initiated connects and reconnect attempts
+   */
+  private async establishConnection(
+    deviceId: string,
+    options: BLEConnectionOptions,
+    pendingState: BLEConnectionState.CONNECTING | BLEConnectionState.RECONNECTING
+  ): Promise<void> {
+    try {
+      if (this.connectionState !== pendingState) {
+        this.updateConnectionState(pendingState);
+      }
       this.stopScan();
       
       const timeout = options.timeout || this.config.connectionTimeout;
@@ -185,33 +441,58 @@ export class G2BLEManager implements IBLEManager {
       console.log(`Connecting to device: ${deviceId}`);
       
       // Connect with timeout
-      const device = await Promise.race([
-        this.bleManager.connectToDevice(deviceId, {
-          autoConnect: options.autoConnect,
-          requestMTU: options.requestMTU || 512,
-        }),
-        this.createTimeout(timeout, 'Connection timeout'),
-      ]);
+      const connectTimeout = this.createTimeout<TransportConnection>(timeout, 'Connection timeout');
+      let device: TransportConnection;
+      try {
+        device = await Promise.race([this.transport.connect(deviceId, options), connectTimeout.promise]);
+      } finally {
+        connectTimeout.cancel();
+      }
       
       // Discover services and characteristics
-      await device.discoverAllServicesAndCharacteristics();
+      await this.resolveCommandRoutes(device.id);
       
       this.connectedDevice = device;
+      this.mtu = device.mtu || DEFAULT_MTU;
       this.reconnectAttempts = 0;
+      
+      // Every frame from here on uses the negotiated encoder
+      await this.negotiateProtocol();
+      
+      // Acknowledgements must be flowing before the first command is sent
+      await this.subscribeStatusNotifications();
+      
+      this.resetLinkMetrics();
+      this.connectedSince = new Date();
       this.updateConnectionState(BLEConnectionState.CONNECTED);
       
       // Monitor disconnection
-      this.connectionSubscription = device.onDisconnected((error, device) => {
-        console.log('Device disconnected:', device?.id);
+      this.connectionSubscription = this.transport.onDisconnected(device.id, (error) => {
+        console.log('Device disconnected:', device.id);
         this.handleDisconnection(error);
       });
       
       // Subscribe to TouchBar events
       await this.subscribeTouchBarEvents();
+      await this.subscribeBatteryNotifications();
+      
+      this.scheduleHeartbeat();
       
-      console.log('Connected to G2 device');
+      console.log(`Connected to G2 device (MTU ${this.mtu})`);
     } catch (error) {
-      this.updateConnectionState(BLEConnectionState.ERROR);
+      // A failed reconnect attempt stays in RECONNECTING until the loop gives up
+      if (pendingState === BLEConnectionState.CONNECTING) {
+        this.updateConnectionState(BLEConnectionState.ERROR);
+      }
+      this.connectedDevice = null;
+      this.removeNotificationSubscriptions();
+      this.resetProtocol();
+      this.transport.cancelConnection(deviceId).catch(() => undefined);
+      
+      // Missing services/characteristics are surfaced with their own type
+      if (this.isBLEError(error)) {
+        throw error;
+      }
       throw this.createError(
         BLEErrorType.CONNECTION_FAILED,
         'Failed to connect to device',
@@ -225,16 +506,34 @@ export class G2BLEManager implements IBLEManager {
    */
   async disconnect(): Promise<void> {
     try {
+      // A user-initiated disconnect also stops any pending reconnect
+      this.cancelReconnect();
+      this.stopHeartbeat();
+      this.lastDeviceId = null;
+      this.reconnectAttempts = 0;
+      this.wakeRadioWaiters();
+      
       if (this.connectionSubscription) {
         this.connectionSubscription.remove();
         this.connectionSubscription = null;
       }
       
+      this.removeNotificationSubscriptions();
+      
       if (this.connectedDevice) {
-        await this.bleManager.cancelDeviceConnection(this.connectedDevice.id);
+        await this.transport.cancelConnection(this.connectedDevice.id);
         this.connectedDevice = null;
       }
       
+      this.connectedSince = null;
+      this.mtu = DEFAULT_MTU;
+      this.ackChannelReady = false;
+      this.resetBatteryState();
+      this.failPendingAcks();
+      this.failQueuedWrites('Disconnected before the write was sent');
+      this.clearCommandRoutes();
+      this.resetProtocol();
+      
       this.updateConnectionState(BLEConnectionState.DISCONNECTED);
       console.log('Disconnected from device');
     } catch (error) {
@@ -261,17 +560,13 @@ export class G2BLEManager implements IBLEManager {
     }
     
     try {
-      const characteristic = await this.connectedDevice.readCharacteristicForService(
-        G2_UUIDS.DEVICE_INFO_SERVICE,
-        G2_UUIDS.BATTERY_CHARACTERISTIC
-      );
-      
-      if (!characteristic.value) {
-        throw new Error('No battery data received');
-      }
+      const data = await this.transport.read(this.connectedDevice.id, {
+        serviceUUID: G2_UUIDS.DEVICE_INFO_SERVICE,
+        characteristicUUID: G2_UUIDS.BATTERY_CHARACTERISTIC,
+      });
       
-      const data = this.base64ToUint8Array(characteristic.value);
-      return g2Decoder.decodeBatteryLevel(data);
+      this.batteryLevel = g2Decoder.decodeBatteryLevel(data);
+      return this.batteryLevel;
     } catch (error) {
       throw this.createError(
         BLEErrorType.READ_FAILED,
@@ -281,6 +576,51 @@ export class G2BLEManager implements IBLEManager {
     }
   }
 
+  /**
+   * True while the glasses push battery changes, so polling can back off
+   */
+  hasBatteryNotifications(): boolean {
+    return this.batteryNotificationsReady;
+  }
+
+  /**
+   * Link quality over the recent metrics window
+   */
+  getLinkMetrics(): LinkMetrics {
+    this.pruneLinkSamples();
+    
+    const samples = this.linkSamples;
+    const latencies = samples
+      .filter(sample => sample.latency !== null)
+      .map(sample => sample.latency as number);
+    const failures = samples.filter(sample => !sample.ok).length;
+    const bytes = samples
+      .filter(sample => sample.ok)
+      .reduce((total, sample) => total + sample.bytes, 0);
+    
+    // Rate over the time actually covered, so a fresh connection isn't under-reported
+    const covered = this.connectedSince
+      ? Math.min(this.config.metricsWindow, Date.now() - this.connectedSince.getTime())
+      : this.config.metricsWindow;
+    
+    return {
+      healthy: this.connectedDevice !== null && this.missedHeartbeats === 0,
+      rssi: this.connectedDevice?.rssi ?? null,
+      averageLatency: latencies.length > 0
+        ? latencies.reduce((total, latency) => total + latency, 0) / latencies.length
+        : null,
+      maxLatency: latencies.length > 0 ? Math.max(...latencies) : null,
+      commandsSent: samples.length,
+      failures,
+      failureRate: samples.length > 0 ? failures / samples.length : 0,
+      retransmissions: this.retransmissionTimes.length,
+      throughput: covered > 0 ? bytes / (covered / 1000) : 0,
+      missedHeartbeats: this.missedHeartbeats,
+      lastHeartbeat: this.lastHeartbeat,
+      connectedSince: this.connectedSince,
+    };
+  }
+
   /**
    * Get firmware version
    */
@@ -290,16 +630,11 @@ export class G2BLEManager implements IBLEManager {
     }
     
     try {
-      const characteristic = await this.connectedDevice.readCharacteristicForService(
-        G2_UUIDS.DEVICE_INFO_SERVICE,
-        G2_UUIDS.FIRMWARE_CHARACTERISTIC
-      );
-      
-      if (!characteristic.value) {
-        throw new Error('No firmware data received');
-      }
+      const data = await this.transport.read(this.connectedDevice.id, {
+        serviceUUID: G2_UUIDS.DEVICE_INFO_SERVICE,
+        characteristicUUID: G2_UUIDS.FIRMWARE_CHARACTERISTIC,
+      });
       
-      const data = this.base64ToUint8Array(characteristic.value);
       return g2Decoder.decodeFirmwareVersion(data);
     } catch (error) {
       throw this.createError(
@@ -311,172 +646,1354 @@ export class G2BLEManager implements IBLEManager {
   }
 
   /**
-   * Send display command
+   * Capabilities negotiated with the connected firmware, null while disconnected
    */
-  async sendCommand(command: DisplayCommand): Promise<void> {
-    if (!this.connectedDevice) {
-      throw new Error('No device connected');
-    }
+  getCapabilities(): G2Capabilities | null {
+    return this.capabilities;
+  }
+
+  /**
+   * Whether the connected firmware supports an optional feature
+   */
+  supportsFeature(feature: G2Feature): boolean {
+    return this.capabilities !== null && (this.capabilities.features & feature) !== 0;
+  }
+
+  /**
+   * Read the glasses settings
+   */
+  async getSettings(): Promise<G2Settings> {
+    const deviceId = this.requireSettings();
     
     try {
-      let encodedCommand: Uint8Array;
-      
-      switch (command.type) {
-        case 0x01: // TEXT
-          encodedCommand = g2Encoder.encodeTextCommand(command);
-          break;
-        case 0x02: // CLEAR
-          encodedCommand = g2Encoder.encodeClearCommand(command);
-          break;
-        case 0x03: // GRAPHICS
-          encodedCommand = g2Encoder.encodeGraphicsCommand(command);
-          break;
-        case 0x04: // BRIGHTNESS
-          encodedCommand = g2Encoder.encodeBrightnessCommand(command);
-          break;
-        default:
-          throw new Error(`Unknown command type: ${command.type}`);
-      }
-      
-      const base64Data = this.uint8ArrayToBase64(encodedCommand);
-      
-      await this.connectedDevice.writeCharacteristicWithResponseForService(
-        G2_UUIDS.DISPLAY_SERVICE,
-        G2_UUIDS.TEXT_CHARACTERISTIC,
-        base64Data
-      );
+      const data = await this.transport.read(deviceId, SETTINGS_ROUTE);
+      return this.protocol.decoder.decodeSettings(data);
     } catch (error) {
       throw this.createError(
-        BLEErrorType.WRITE_FAILED,
-        'Failed to send command',
+        BLEErrorType.READ_FAILED,
+        'Failed to read settings',
         error as Error
       );
     }
   }
 
   /**
-   * Clear display
+   * Change some of the glasses settings; fields left out keep their values
+   * Resolves with the settings read back, so values the firmware adjusted show up
    */
-  async clearDisplay(region?: { x: number; y: number; width: number; height: number }): Promise<void> {
-    await this.sendCommand({
-      type: 0x02,
-      region,
-    });
+  async updateSettings(changes: G2Settings): Promise<G2Settings> {
+    const deviceId = this.requireSettings();
+    
+    let data: Uint8Array;
+    try {
+      data = this.protocol.encoder.encodeSettings(changes);
+    } catch (error) {
+      throw this.createError(
+        BLEErrorType.WRITE_FAILED,
+        (error as Error).message,
+        error as Error
+      );
+    }
+    
+    try {
+      await this.transport.write(deviceId, SETTINGS_ROUTE, data);
+    } catch (error) {
+      throw this.createError(
+        BLEErrorType.WRITE_FAILED,
+        'Failed to write settings',
+        error as Error
+      );
+    }
+    
+    return this.getSettings();
   }
 
   /**
-   * Set brightness
+   * Send display command
+   * Queued behind pending writes of equal or higher priority
    */
-  async setBrightness(level: number, auto: boolean = false): Promise<void> {
-    await this.sendCommand({
-      type: 0x04,
-      level,
-      auto,
+  async sendCommand(command: DisplayCommand, options: WriteOptions = {}): Promise<void> {
+    await this.sendCommands([command], {
+      priority: command.type === DisplayCommandType.BRIGHTNESS
+        ? WritePriority.BRIGHTNESS
+        : WritePriority.LAYOUT,
+      coalesceKey: this.defaultCoalesceKey(command),
+      ...options,
     });
   }
 
   /**
-   * Subscribe to TouchBar events
+   * Send a batch of display commands as one queue entry
+   * The batch is written back to back, so a layout can't interleave with other writes
    */
-  private async subscribeTouchBarEvents(): Promise<void> {
+  async sendCommands(commands: DisplayCommand[], options: WriteOptions = {}): Promise<void> {
     if (!this.connectedDevice) {
+      throw new Error('No device connected');
+    }
+    
+    // Commands the firmware would reject are simplified or left out
+    const supported = commands
+      .map(command => this.adaptCommand(command))
+      .filter((command): command is DisplayCommand => command !== null);
+    
+    if (supported.length === 0) {
       return;
     }
     
-    try {
-      await this.connectedDevice.monitorCharacteristicForService(
-        G2_UUIDS.INPUT_SERVICE,
-        G2_UUIDS.TOUCHBAR_CHARACTERISTIC,
-        (error, characteristic) => {
-          if (error) {
-            console.error('TouchBar monitoring error:', error);
-            return;
-          }
-          
-          if (characteristic?.value) {
-            const data = this.base64ToUint8Array(characteristic.value);
-            const event = g2Decoder.decodeTouchBarEvent(data);
-            this.notifyTouchBarEvent(event);
-          }
-        }
+    // Validate and encode up front so malformed commands fail the caller, not the queue
+    const invalid = supported.find(command => !G2ProtocolUtils.validateCommand(command));
+    if (invalid) {
+      throw this.createError(
+        BLEErrorType.WRITE_FAILED,
+        `Invalid display command of type 0x${invalid.type.toString(16)}`
       );
-    } catch (error) {
-      console.error('Failed to subscribe to TouchBar events:', error);
     }
+    
+    const encoded = supported.map(command => ({
+      type: command.type,
+      frame: this.encodeCommand(command),
+    }));
+    
+    return new Promise((resolve, reject) => {
+      this.enqueueWrite({
+        commands: encoded,
+        priority: options.priority ?? WritePriority.LAYOUT,
+        coalesceKey: options.coalesceKey ?? null,
+        barrier: supported.some(command => command.type === DisplayCommandType.REFRESH),
+        waiters: [{ resolve, reject }],
+        timer: null,
+        settled: false,
+      }, options.timeout ?? this.config.writeTimeout);
+    });
   }
 
   /**
-   * Handle disconnection
+   * Number of writes waiting in the queue (excluding the one in flight)
    */
-  private handleDisconnection(error: any): void {
-    this.connectedDevice = null;
-    this.updateConnectionState(BLEConnectionState.DISCONNECTED);
-    
-    if (this.config.enableAutoReconnect && this.reconnectAttempts < this.config.maxReconnectAttempts) {
-      this.reconnectAttempts++;
-      console.log(`Attempting reconnection (${this.reconnectAttempts}/${this.config.maxReconnectAttempts})...`);
-      
-      setTimeout(() => {
-        // Reconnection logic would go here
-        // For now, just notify error
-        this.handleError(
-          this.createError(BLEErrorType.CONNECTION_LOST, 'Connection lost')
-        );
-      }, this.config.reconnectDelay);
-    } else {
-      this.handleError(
-        this.createError(BLEErrorType.CONNECTION_LOST, 'Connection lost')
-      );
-    }
+  getPendingWriteCount(): number {
+    return this.writeQueue.length;
   }
 
   /**
-   * Event listener registration
+   * Negotiated ATT MTU of the current connection
    */
-  onDeviceDiscovered(callback: DeviceDiscoveryCallback): void {
-    this.deviceDiscoveryCallbacks.push(callback);
+  getMTU(): number {
+    return this.mtu;
   }
 
-  onConnectionStateChange(callback: ConnectionStateCallback): void {
-    this.connectionStateCallbacks.push(callback);
+  /**
+   * Whether the connected firmware exposes a characteristic
+   */
+  supportsCharacteristic(route: CharacteristicRoute): boolean {
+    return this.hasCharacteristic(route.serviceUUID, route.characteristicUUID);
   }
 
-  onError(callback: ErrorCallback): void {
-    this.errorCallbacks.push(callback);
+  /**
+   * Write raw bytes to a characteristic, bypassing the display write queue
+   * For services with their own framing, such as firmware updates
+   */
+  async writeCharacteristic(route: CharacteristicRoute, data: Uint8Array): Promise<void> {
+    if (!this.connectedDevice) {
+      throw this.createError(BLEErrorType.WRITE_FAILED, 'No device connected');
+    }
+    
+    try {
+      await this.transport.write(this.connectedDevice.id, route, data);
+    } catch (error) {
+      throw this.createError(
+        BLEErrorType.WRITE_FAILED,
+        `Failed to write ${route.characteristicUUID}`,
+        error as Error
+      );
+    }
   }
 
-  onTouchBarEvent(callback: TouchBarEventCallback): void {
-    this.touchBarCallbacks.push(callback);
+  /**
+   * Subscribe to raw notifications of a characteristic
+   * The subscription ends with the connection
+   */
+  monitorCharacteristic(
+    route: CharacteristicRoute,
+    listener: TransportNotificationListener
+  ): TransportSubscription {
+    if (!this.connectedDevice) {
+      throw this.createError(BLEErrorType.READ_FAILED, 'No device connected');
+    }
+    
+    const subscription = this.transport.monitor(this.connectedDevice.id, route, listener);
+    this.notificationSubscriptions.push(subscription);
+    return subscription;
   }
 
   /**
-   * Get connection state
+   * Fit a command to the negotiated capabilities
+   * Returns null for a command the firmware would reject outright
    */
-  getConnectionState(): BLEConnectionState {
-    return this.connectionState;
+  private adaptCommand(command: DisplayCommand): DisplayCommand | null {
+    const capabilities = this.capabilities;
+    if (!capabilities) {
+      return command;
+    }
+    
+    switch (command.type) {
+      case DisplayCommandType.TEXT: {
+        const adapted = { ...command };
+        
+        if (adapted.fontSize !== undefined) {
+          adapted.fontSize = Math.max(
+            capabilities.minFontSize,
+            Math.min(capabilities.maxFontSize, adapted.fontSize)
+          );
+        }
+        
+        if (
+          (adapted.bold || adapted.inverted || adapted.underline) &&
+          !this.supportsFeature(G2Feature.TEXT_STYLES)
+        ) {
+          this.warnSkipped(G2Feature.TEXT_STYLES, 'Text styles');
+          adapted.bold = false;
+          adapted.inverted = false;
+          adapted.underline = false;
+        }
+        
+        return adapted;
+      }
+      case DisplayCommandType.CLEAR:
+        if (command.region && !this.supportsFeature(G2Feature.CLEAR_REGION)) {
+          this.warnSkipped(G2Feature.CLEAR_REGION, 'Region clears');
+          return null;
+        }
+        return command;
+      case DisplayCommandType.GRAPHICS:
+        return this.requireFeature(command, G2Feature.GRAPHICS, 'Graphics');
+      case DisplayCommandType.BRIGHTNESS:
+        return this.requireFeature(command, G2Feature.BRIGHTNESS, 'Brightness control');
+      case DisplayCommandType.REFRESH:
+        // Without deferred frames every draw is presented as it arrives
+        return this.requireFeature(command, G2Feature.REFRESH, 'Deferred refresh');
+      case DisplayCommandType.PING:
+        return this.requireFeature(command, G2Feature.PING, 'Ping');
+      default:
+        return command;
+    }
   }
 
-  isConnected(): boolean {
-    return this.connectionState === BLEConnectionState.CONNECTED;
+  private requireFeature(command: DisplayCommand, feature: G2Feature, description: string): DisplayCommand | null {
+    if (this.supportsFeature(feature)) {
+      return command;
+    }
+    
+    this.warnSkipped(feature, description);
+    return null;
   }
 
   /**
-   * Utility Methods
+   * Warn once per connection about a feature the firmware lacks
+   */
+  private warnSkipped(feature: G2Feature, description: string): void {
+    if (!this.skippedFeatures.has(feature)) {
+      this.skippedFeatures.add(feature);
+      console.warn(`${description} not supported by the connected firmware, degrading`);
+    }
+  }
+
+  private encodeCommand(command: DisplayCommand): Uint8Array {
+    const encoder = this.protocol.encoder;
+    
+    try {
+      switch (command.type) {
+        case 0x01: // TEXT
+          return encoder.encodeTextCommand(command);
+        case 0x02: // CLEAR
+          return encoder.encodeClearCommand(command);
+        case 0x03: // GRAPHICS
+          return encoder.encodeGraphicsCommand(command);
+        case 0x04: // BRIGHTNESS
+          return encoder.encodeBrightnessCommand(command);
+        case 0x05: // REFRESH
+          return encoder.encodeRefreshCommand(command);
+        case 0x06: // PING
+          return encoder.encodePingCommand(command);
+        default:
+          throw new Error(`Unknown command type: ${(command as DisplayCommand).type}`);
+      }
+    } catch (error) {
+      throw this.createError(
+        BLEErrorType.WRITE_FAILED,
+        'Failed to encode command',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Write one encoded command and wait for its acknowledgement
+   */
+  private async transmitCommand(command: EncodedCommand): Promise<void> {
+    if (!this.connectedDevice) {
+      throw this.createError(BLEErrorType.WRITE_FAILED, 'No device connected');
+    }
+    
+    const route = this.commandRoutes.get(command.type);
+    if (!route) {
+      throw this.createError(
+        BLEErrorType.CHARACTERISTIC_NOT_FOUND,
+        `No characteristic available for command type 0x${command.type.toString(16)}`
+      );
+    }
+    
+    // Retransmissions reuse the sequence number so the G2 can drop duplicates
+    const sequence = this.nextSequence;
+    this.nextSequence = (this.nextSequence + 1) & 0xFFFF;
+    const envelope = this.protocol.encoder.encodeEnvelope(sequence, command.frame);
+    
+    const expectAck = this.config.requireAcknowledgement && this.ackChannelReady;
+    const attempts = expectAck ? this.config.maxRetransmissions + 1 : 1;
+    let result: AckResult = { status: 'TIMEOUT' };
+    
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      const ack = expectAck ? this.expectAck(sequence) : null;
+      
+      try {
+        await this.writeFragments(envelope, route);
+      } catch (error) {
+        this.settleAck(sequence, { status: 'TIMEOUT' });
+        throw this.createError(
+          BLEErrorType.WRITE_FAILED,
+          'Failed to send command',
+          error as Error
+        );
+      }
+      
+      if (!ack) {
+        return;
+      }
+      
+      this.startAckTimer(sequence);
+      result = await ack;
+      
+      if (result.status === 'ACK') {
+        return;
+      }
+      
+      console.warn(
+        `Command ${sequence} ${result.status === 'NACK' ? `rejected (reason ${result.reason})` : 'not acknowledged'}, ` +
+        `attempt ${attempt}/${attempts}`
+      );
+      
+      if (attempt < attempts) {
+        this.retransmissionTimes.push(Date.now());
+      }
+    }
+    
+    if (result.status === 'NACK') {
+      throw this.createError(
+        BLEErrorType.WRITE_FAILED,
+        `Command ${sequence} rejected by device (reason ${result.reason})`
+      );
+    }
+    
+    throw this.createError(
+      BLEErrorType.TIMEOUT,
+      `Command ${sequence} was not acknowledged after ${attempts} attempts`
+    );
+  }
+
+  /**
+   * Clear display
+   */
+  async clearDisplay(region?: { x: number; y: number; width: number; height: number }): Promise<void> {
+    await this.sendCommand({
+      type: 0x02,
+      region,
+    });
+  }
+
+  /**
+   * Set brightness
+   */
+  async setBrightness(level: number, auto: boolean = false): Promise<void> {
+    await this.sendCommand({
+      type: 0x04,
+      level,
+      auto,
+    });
+  }
+
+  /**
+   * Start a deferred frame
+   * Subsequent draw commands render into the back buffer until commitFrame()
+   */
+  async beginFrame(): Promise<void> {
+    await this.sendCommand({
+      type: 0x05,
+      mode: RefreshMode.BEGIN_DEFERRED,
+    });
+  }
+
+  /**
+   * Present the back buffer in a single refresh
+   */
+  async commitFrame(): Promise<void> {
+    await this.sendCommand({
+      type: 0x05,
+      mode: RefreshMode.COMMIT,
+    });
+  }
+
+  /**
+   * Subscribe to TouchBar events
+   */
+  private async subscribeTouchBarEvents(): Promise<void> {
+    if (!this.connectedDevice) {
+      return;
+    }
+    
+    // Drop any partial frame left over from a previous connection
+    this.touchBarParser.reset();
+    
+    try {
+      const subscription = this.transport.monitor(
+        this.connectedDevice.id,
+        {
+          serviceUUID: G2_UUIDS.INPUT_SERVICE,
+          characteristicUUID: G2_UUIDS.TOUCHBAR_CHARACTERISTIC,
+        },
+        (error, data) => {
+          if (error) {
+            console.error('TouchBar monitoring error:', error);
+            return;
+          }
+          
+          if (data) {
+            for (const notification of this.touchBarParser.push(data)) {
+              if (notification.type === NotificationType.TOUCHBAR) {
+                notification.events.forEach(event => this.notifyTouchBarEvent(event));
+              }
+            }
+          }
+        }
+      );
+      this.notificationSubscriptions.push(subscription);
+    } catch (error) {
+      console.error('Failed to subscribe to TouchBar events:', error);
+    }
+  }
+
+  /**
+   * Subscribe to command acknowledgements
+   * Falls back to unacknowledged writes if the firmware lacks the status characteristic
+   */
+  private async subscribeStatusNotifications(): Promise<void> {
+    this.ackChannelReady = false;
+    
+    if (!this.connectedDevice || !this.config.requireAcknowledgement) {
+      return;
+    }
+    
+    this.statusParser.reset();
+    
+    if (!this.hasCharacteristic(G2_UUIDS.DISPLAY_SERVICE, G2_UUIDS.STATUS_CHARACTERISTIC)) {
+      console.warn('Status characteristic not found, sending without delivery confirmation');
+      return;
+    }
+    
+    try {
+      const subscription = this.transport.monitor(
+        this.connectedDevice.id,
+        {
+          serviceUUID: G2_UUIDS.DISPLAY_SERVICE,
+          characteristicUUID: G2_UUIDS.STATUS_CHARACTERISTIC,
+        },
+        (error, data) => {
+          if (error) {
+            console.error('Status monitoring error:', error);
+            return;
+          }
+          
+          if (data) {
+            for (const notification of this.statusParser.push(data)) {
+              if (notification.type === NotificationType.ACK) {
+                this.settleAck(notification.sequence, { status: 'ACK' });
+              } else if (notification.type === NotificationType.NACK) {
+                this.settleAck(notification.sequence, {
+                  status: 'NACK',
+                  reason: notification.reason,
+                });
+              }
+            }
+          }
+        }
+      );
+      this.notificationSubscriptions.push(subscription);
+      this.ackChannelReady = true;
+    } catch (error) {
+      console.warn('Acknowledgements unavailable, sending without delivery confirmation:', error);
+    }
+  }
+
+  /**
+   * Subscribe to battery level changes
+   * Not every firmware notifies on the battery characteristic; callers poll as a fallback
+   */
+  private async subscribeBatteryNotifications(): Promise<void> {
+    this.batteryNotificationsReady = false;
+    
+    if (
+      !this.connectedDevice ||
+      !this.hasCharacteristic(G2_UUIDS.DEVICE_INFO_SERVICE, G2_UUIDS.BATTERY_CHARACTERISTIC)
+    ) {
+      return;
+    }
+    
+    try {
+      const subscription = this.transport.monitor(
+        this.connectedDevice.id,
+        {
+          serviceUUID: G2_UUIDS.DEVICE_INFO_SERVICE,
+          characteristicUUID: G2_UUIDS.BATTERY_CHARACTERISTIC,
+        },
+        (error, data) => {
+          if (error) {
+            console.warn('Battery notifications unavailable:', error.message);
+            this.batteryNotificationsReady = false;
+            return;
+          }
+          
+          if (data) {
+            try {
+              this.batteryLevel = g2Decoder.decodeBatteryLevel(data);
+              this.notifyBatteryLevelChange(this.batteryLevel);
+            } catch (decodeError) {
+              console.error('Invalid battery notification:', decodeError);
+            }
+          }
+        }
+      );
+      this.notificationSubscriptions.push(subscription);
+      this.batteryNotificationsReady = true;
+    } catch (error) {
+      console.warn('Failed to subscribe to battery notifications:', error);
+    }
+  }
+
+  private resetBatteryState(): void {
+    this.batteryNotificationsReady = false;
+    this.batteryLevel = null;
+  }
+
+  /**
+   * Write an envelope as MTU-sized fragments
+   */
+  private async writeFragments(envelope: Uint8Array, route: CharacteristicRoute): Promise<void> {
+    for (const fragment of g2Fragmenter.fragment(envelope, this.mtu)) {
+      if (!this.connectedDevice) {
+        throw new Error('No device connected');
+      }
+      
+      await this.transport.write(this.connectedDevice.id, route, fragment);
+    }
+  }
+
+  /**
+   * Read the firmware version and capabilities descriptor, then pick the protocol
+   * Missing or unreadable information falls back to what the firmware version implies
+   */
+  private async negotiateProtocol(): Promise<void> {
+    if (!this.connectedDevice) {
+      return;
+    }
+    
+    let firmwareVersion: string | null = null;
+    try {
+      firmwareVersion = await this.getFirmwareVersion();
+    } catch (error) {
+      console.warn('Firmware version unavailable for protocol negotiation:', error);
+    }
+    
+    let descriptor: G2CapabilitiesDescriptor | null = null;
+    if (this.hasCharacteristic(G2_UUIDS.DISPLAY_SERVICE, G2_UUIDS.CAPABILITIES_CHARACTERISTIC)) {
+      try {
+        const data = await this.transport.read(this.connectedDevice.id, {
+          serviceUUID: G2_UUIDS.DISPLAY_SERVICE,
+          characteristicUUID: G2_UUIDS.CAPABILITIES_CHARACTERISTIC,
+        });
+        
+        // The descriptor layout is shared by every protocol version
+        descriptor = g2Decoder.decodeCapabilities(data);
+        if (!descriptor) {
+          console.warn('Unrecognized capabilities descriptor, assuming firmware defaults');
+        }
+      } catch (error) {
+        console.warn('Failed to read capabilities, assuming firmware defaults:', error);
+      }
+    }
+    
+    const { protocol, capabilities } = protocolRegistry.negotiate(firmwareVersion, descriptor);
+    this.setProtocol(protocol);
+    this.capabilities = capabilities;
+    
+    console.log(
+      `Using ${protocol.name} (firmware ${firmwareVersion || 'unknown'}, ` +
+      `capabilities ${capabilities.source}, features 0x${capabilities.features.toString(16)})`
+    );
+  }
+
+  private setProtocol(protocol: ProtocolDefinition): void {
+    this.skippedFeatures.clear();
+    
+    if (protocol !== this.protocol) {
+      this.protocol = protocol;
+      this.touchBarParser = this.createParser(protocol.decoder);
+      this.statusParser = this.createParser(protocol.decoder);
+    }
+  }
+  
+  /**
+   * Notification parser that reports frames it had to drop
+   */
+  private createParser(decoder: IProtocolDecoder): G2FrameParser {
+    return new G2FrameParser(decoder, error =>
+      this.handleError(this.createError(BLEErrorType.READ_FAILED, 'Dropped an undecodable notification', error))
+    );
+  }
+
+  private resetProtocol(): void {
+    this.setProtocol(protocolRegistry.getBaseline());
+    this.capabilities = null;
+  }
+
+  /**
+   * Record the discovered characteristic set and pick a route per command
+   */
+  private async resolveCommandRoutes(deviceId: string): Promise<void> {
+    this.clearCommandRoutes();
+    
+    const services = await this.transport.discoverServices(deviceId);
+    
+    if (!services.some(service => service.uuid === G2_UUIDS.DISPLAY_SERVICE)) {
+      throw this.createError(
+        BLEErrorType.SERVICE_NOT_FOUND,
+        'G2 display service not found on device'
+      );
+    }
+    
+    services.forEach(service => {
+      service.characteristicUUIDs.forEach(characteristicUUID => {
+        this.availableCharacteristics.add(this.routeKey(service.uuid, characteristicUUID));
+      });
+    });
+    
+    for (const [key, candidates] of Object.entries(COMMAND_ROUTES)) {
+      const commandType = Number(key) as DisplayCommandType;
+      const route = candidates.find(candidate =>
+        this.hasCharacteristic(candidate.serviceUUID, candidate.characteristicUUID)
+      );
+      
+      if (route) {
+        this.commandRoutes.set(commandType, route);
+      } else {
+        console.warn(`No characteristic for command type 0x${commandType.toString(16)}`);
+      }
+    }
+    
+    if (!this.commandRoutes.has(DisplayCommandType.TEXT)) {
+      throw this.createError(
+        BLEErrorType.CHARACTERISTIC_NOT_FOUND,
+        'G2 text characteristic not found on device'
+      );
+    }
+  }
+
+  /**
+   * Id of the connected device, if its firmware has the settings characteristic
+   */
+  private requireSettings(): string {
+    if (!this.connectedDevice) {
+      throw new Error('No device connected');
+    }
+    if (!this.hasCharacteristic(SETTINGS_ROUTE.serviceUUID, SETTINGS_ROUTE.characteristicUUID)) {
+      throw this.createError(
+        BLEErrorType.CHARACTERISTIC_NOT_FOUND,
+        'Settings characteristic not found on device'
+      );
+    }
+    
+    return this.connectedDevice.id;
+  }
+
+  private hasCharacteristic(serviceUUID: string, characteristicUUID: string): boolean {
+    return this.availableCharacteristics.has(this.routeKey(serviceUUID, characteristicUUID));
+  }
+
+  private removeNotificationSubscriptions(): void {
+    this.notificationSubscriptions.forEach(subscription => subscription.remove());
+    this.notificationSubscriptions = [];
+  }
+
+  private clearCommandRoutes(): void {
+    this.availableCharacteristics.clear();
+    this.commandRoutes.clear();
+  }
+
+  private routeKey(serviceUUID: string, characteristicUUID: string): string {
+    return `${serviceUUID}/${characteristicUUID}`;
+  }
+
+  /**
+   * Register interest in an ACK before writing, so a fast reply isn't missed
+   */
+  private expectAck(sequence: number): Promise<AckResult> {
+    return new Promise(resolve => {
+      this.pendingAcks.set(sequence, { resolve, timer: null });
+    });
+  }
+
+  /**
+   * Start the ACK timeout once the last fragment has been written
+   */
+  private startAckTimer(sequence: number): void {
+    const pending = this.pendingAcks.get(sequence);
+    if (pending) {
+      pending.timer = setTimeout(
+        () => this.settleAck(sequence, { status: 'TIMEOUT' }),
+        this.config.ackTimeout
+      );
+    }
+  }
+
+  private settleAck(sequence: number, result: AckResult): void {
+    const pending = this.pendingAcks.get(sequence);
+    if (!pending) {
+      return;
+    }
+    
+    if (pending.timer) {
+      clearTimeout(pending.timer);
+    }
+    this.pendingAcks.delete(sequence);
+    pending.resolve(result);
+  }
+
+  private failPendingAcks(): void {
+    Array.from(this.pendingAcks.keys()).forEach(sequence =>
+      this.settleAck(sequence, { status: 'TIMEOUT' })
+    );
+  }
+
+  /**
+   * Add a write to the queue, coalescing it with a superseded pending write
+   * or applying backpressure when the queue is full
+   */
+  private enqueueWrite(write: QueuedWrite, timeout: number): void {
+    const superseded = this.findSupersededWrite(write);
+    
+    if (superseded) {
+      // The newer content takes the older entry's place; both callers settle with it
+      this.clearWriteTimer(superseded);
+      write.waiters.unshift(...superseded.waiters);
+      this.writeQueue[this.writeQueue.indexOf(superseded)] = write;
+    } else {
+      if (this.writeQueue.length >= this.config.maxQueueSize) {
+        const victim = this.lowestPriorityWrite();
+        
+        if (!victim || victim.priority >= write.priority) {
+          this.settleWrite(write, this.createError(
+            BLEErrorType.QUEUE_FULL,
+            `Write queue full (${this.config.maxQueueSize} pending)`
+          ));
+          return;
+        }
+        
+        // Shed the least important pending write to make room
+        this.removeQueuedWrite(victim);
+        this.settleWrite(victim, this.createError(
+          BLEErrorType.QUEUE_FULL,
+          'Write dropped to make room for a higher priority write'
+        ));
+      }
+      
+      // Insert behind every pending write of equal or higher priority
+      const index = this.writeQueue.findIndex(queued => queued.priority < write.priority);
+      if (index === -1) {
+        this.writeQueue.push(write);
+      } else {
+        this.writeQueue.splice(index, 0, write);
+      }
+    }
+    
+    write.timer = setTimeout(() => {
+      write.timer = null;
+      this.removeQueuedWrite(write);
+      this.settleWrite(write, this.createError(
+        BLEErrorType.TIMEOUT,
+        `Write not completed within ${timeout}ms`
+      ));
+    }, timeout);
+    
+    this.processWriteQueue();
+  }
+
+  /**
+   * Drain the queue one entry at a time
+   */
+  private async processWriteQueue(): Promise<void> {
+    if (this.writeInFlight) {
+      return;
+    }
+    
+    this.writeInFlight = true;
+    
+    try {
+      let write = this.writeQueue.shift();
+      
+      while (write) {
+        try {
+          for (const command of write.commands) {
+            const startedAt = Date.now();
+            
+            try {
+              await this.transmitCommand(command);
+            } catch (error) {
+              this.recordLinkSample(command, startedAt, false);
+              throw error;
+            }
+            
+            this.recordLinkSample(command, startedAt, true);
+          }
+          this.settleWrite(write);
+        } catch (error) {
+          this.settleWrite(write, this.isBLEError(error)
+            ? error
+            : this.createError(BLEErrorType.WRITE_FAILED, 'Failed to send command', error as Error));
+        }
+        
+        write = this.writeQueue.shift();
+      }
+    } finally {
+      this.writeInFlight = false;
+    }
+  }
+
+  /**
+   * Find the pending write a new one replaces
+   * A queued REFRESH is a barrier: writes behind it belong to a different frame
+   */
+  private findSupersededWrite(write: QueuedWrite): QueuedWrite | null {
+    if (!write.coalesceKey) {
+      return null;
+    }
+    
+    for (let i = this.writeQueue.length - 1; i >= 0; i--) {
+      const queued = this.writeQueue[i];
+      
+      if (queued.coalesceKey === write.coalesceKey && queued.priority === write.priority) {
+        return queued;
+      }
+      if (queued.barrier) {
+        return null;
+      }
+    }
+    
+    return null;
+  }
+
+  private lowestPriorityWrite(): QueuedWrite | null {
+    // The queue is ordered by priority, so the newest lowest-priority entry is last
+    return this.writeQueue[this.writeQueue.length - 1] || null;
+  }
+
+  private removeQueuedWrite(write: QueuedWrite): void {
+    const index = this.writeQueue.indexOf(write);
+    if (index !== -1) {
+      this.writeQueue.splice(index, 1);
+    }
+  }
+
+  private settleWrite(write: QueuedWrite, error?: BLEError): void {
+    this.clearWriteTimer(write);
+    
+    if (write.settled) {
+      return;
+    }
+    
+    write.settled = true;
+    write.waiters.forEach(waiter => (error ? waiter.reject(error) : waiter.resolve()));
+  }
+
+  private clearWriteTimer(write: QueuedWrite): void {
+    if (write.timer) {
+      clearTimeout(write.timer);
+      write.timer = null;
+    }
+  }
+
+  /**
+   * Reject every queued write, e.g. when the link goes down
+   */
+  private failQueuedWrites(message: string): void {
+    const writes = this.writeQueue;
+    this.writeQueue = [];
+    writes.forEach(write =>
+      this.settleWrite(write, this.createError(BLEErrorType.CONNECTION_LOST, message))
+    );
+  }
+
+  /**
+   * Writes to the same place supersede each other unless the caller says otherwise
+   */
+  private defaultCoalesceKey(command: DisplayCommand): string | undefined {
+    switch (command.type) {
+      case DisplayCommandType.BRIGHTNESS:
+        return 'brightness';
+      case DisplayCommandType.PING:
+        return 'ping';
+      case DisplayCommandType.TEXT:
+        return `text@${command.x},${command.y}`;
+      case DisplayCommandType.CLEAR:
+        return command.region
+          ? `clear@${command.region.x},${command.region.y},${command.region.width},${command.region.height}`
+          : undefined;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Heartbeat
+   * Reads RSSI and, when no write has been acknowledged since the last beat,
+   * sends a PING through the queue. A link that misses maxMissedHeartbeats
+   * beats in a row is dropped and handed to the reconnect loop.
+   */
+  
+  private scheduleHeartbeat(): void {
+    this.stopHeartbeat();
+    
+    if (this.config.heartbeatInterval <= 0 || !this.connectedDevice) {
+      return;
+    }
+    
+    this.heartbeatTimer = setTimeout(() => {
+      this.heartbeatTimer = null;
+      this.runHeartbeat().catch(error => console.error('Heartbeat error:', error));
+    }, this.config.heartbeatInterval);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private async runHeartbeat(): Promise<void> {
+    const device = this.connectedDevice;
+    if (!device) {
+      return;
+    }
+    
+    try {
+      const rssiTimeout = this.createTimeout<number>(this.config.heartbeatTimeout, 'RSSI read timed out');
+      try {
+        device.rssi = await Promise.race([this.transport.readRSSI(device.id), rssiTimeout.promise]);
+      } finally {
+        rssiTimeout.cancel();
+      }
+      
+      // Recently acknowledged traffic already proves the G2 is processing commands;
+      // firmware without PING is judged on the RSSI read alone
+      if (
+        this.supportsFeature(G2Feature.PING) &&
+        Date.now() - this.lastDeliveryAt > this.config.heartbeatInterval
+      ) {
+        await this.sendCommand(
+          { type: DisplayCommandType.PING },
+          { priority: WritePriority.URGENT, timeout: this.config.heartbeatTimeout }
+        );
+      }
+      
+      this.missedHeartbeats = 0;
+      this.lastHeartbeat = new Date();
+    } catch (error) {
+      // The link went away while the heartbeat was in flight
+      if (this.connectedDevice !== device) {
+        return;
+      }
+      
+      this.missedHeartbeats++;
+      console.warn(
+        `Heartbeat missed (${this.missedHeartbeats}/${this.config.maxMissedHeartbeats}):`,
+        (error as Error).message
+      );
+      
+      if (this.missedHeartbeats >= this.config.maxMissedHeartbeats) {
+        this.dropUnhealthyLink();
+        return;
+      }
+    }
+    
+    if (this.connectedDevice === device) {
+      this.scheduleHeartbeat();
+    }
+  }
+  
+  /**
+   * Tear down a link that stopped responding without the stack noticing
+   */
+  private dropUnhealthyLink(): void {
+    const device = this.connectedDevice;
+    if (!device) {
+      return;
+    }
+    
+    console.warn(`Link unhealthy after ${this.missedHeartbeats} missed heartbeats, reconnecting`);
+    
+    // Handle the loss first so the disconnect event from the cancel below is already unsubscribed
+    this.handleDisconnection(new Error('Heartbeat not answered'));
+    this.transport.cancelConnection(device.id).catch(() => undefined);
+  }
+
+  private recordLinkSample(command: EncodedCommand, startedAt: number, ok: boolean): void {
+    const now = Date.now();
+    
+    this.linkSamples.push({
+      timestamp: now,
+      latency: ok ? now - startedAt : null,
+      bytes: command.frame.length,
+      ok,
+    });
+    
+    if (ok) {
+      this.lastDeliveryAt = now;
+    }
+    
+    this.pruneLinkSamples();
+  }
+
+  private pruneLinkSamples(): void {
+    const cutoff = Date.now() - this.config.metricsWindow;
+    this.linkSamples = this.linkSamples.filter(sample => sample.timestamp >= cutoff);
+    this.retransmissionTimes = this.retransmissionTimes.filter(time => time >= cutoff);
+  }
+
+  private resetLinkMetrics(): void {
+    this.linkSamples = [];
+    this.retransmissionTimes = [];
+    this.missedHeartbeats = 0;
+    this.lastHeartbeat = null;
+    this.lastDeliveryAt = 0;
+  }
+
+  /**
+   * Handle disconnection
+   */
+  private handleDisconnection(error: Error | null): void {
+    console.log('Connection lost:', error?.message || 'no reason given');
+    
+    this.connectionSubscription?.remove();
+    this.connectionSubscription = null;
+    this.stopHeartbeat();
+    this.removeNotificationSubscriptions();
+    this.connectedDevice = null;
+    this.connectedSince = null;
+    this.mtu = DEFAULT_MTU;
+    this.ackChannelReady = false;
+    this.resetBatteryState();
+    this.failPendingAcks();
+    this.failQueuedWrites('Connection lost before the write was sent');
+    this.clearCommandRoutes();
+    this.resetProtocol();
+    
+    if (this.config.enableAutoReconnect && this.lastDeviceId) {
+      this.scheduleReconnect();
+    } else {
+      this.updateConnectionState(BLEConnectionState.DISCONNECTED);
+      this.handleError(
+        this.createError(BLEErrorType.CONNECTION_LOST, 'Connection lost')
+      );
+    }
+  }
+
+  /**
+   * Schedule the next reconnect attempt, or give up once attempts are exhausted
+   */
+  private scheduleReconnect(): void {
+    // Attempts with the radio off would only use up the budget
+    if (this.isRadioOff()) {
+      console.log('Bluetooth is off, reconnecting once it is turned on');
+      this.updateConnectionState(BLEConnectionState.RECONNECTING);
+      return;
+    }
+    
+    if (this.reconnectAttempts >= this.config.maxReconnectAttempts) {
+      console.log(`Giving up after ${this.reconnectAttempts} reconnect attempts`);
+      this.reconnectAttempts = 0;
+      this.updateConnectionState(BLEConnectionState.DISCONNECTED);
+      this.handleError(
+        this.createError(
+          BLEErrorType.CONNECTION_LOST,
+          `Connection lost, reconnect failed after ${this.config.maxReconnectAttempts} attempts`
+        )
+      );
+      return;
+    }
+    
+    const delay = this.getReconnectDelay(this.reconnectAttempts);
+    this.reconnectAttempts++;
+    this.updateConnectionState(BLEConnectionState.RECONNECTING);
+    
+    console.log(
+      `Reconnecting in ${delay}ms (${this.reconnectAttempts}/${this.config.maxReconnectAttempts})...`
+    );
+    
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.attemptReconnect();
+    }, delay);
+  }
+
+  private async attemptReconnect(): Promise<void> {
+    const deviceId = this.lastDeviceId;
+    if (!deviceId) {
+      return;
+    }
+    
+    try {
+      await this.establishConnection(deviceId, this.lastConnectionOptions, BLEConnectionState.RECONNECTING);
+      
+      // The user disconnected while the attempt was in flight
+      if (this.lastDeviceId !== deviceId) {
+        await this.transport.cancelConnection(deviceId).catch(() => undefined);
+        return;
+      }
+      
+      console.log('Reconnected to G2 device');
+    } catch (error) {
+      console.warn('Reconnect attempt failed:', error);
+      
+      if (this.lastDeviceId === deviceId) {
+        this.scheduleReconnect();
+      }
+    }
+  }
+
+  /**
+   * Exponential backoff capped at maxReconnectDelay, with up to
+   * reconnectJitter of each delay randomized so phones don't retry in lockstep
+   */
+  private getReconnectDelay(attempt: number): number {
+    const backoff = Math.min(
+      this.config.reconnectDelay * Math.pow(2, attempt),
+      this.config.maxReconnectDelay
+    );
+    const jitter = Math.min(Math.max(this.config.reconnectJitter, 0), 1);
+    
+    return Math.round(backoff * (1 - jitter * Math.random()));
+  }
+
+  private cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  /**
+   * Whether scans and connects have to wait for the radio
+   * Without initialize() nothing watches it, so calls go straight to the transport
+   */
+  private isRadioOff(): boolean {
+    return this.stateSubscription !== null && this.radioState !== BLERadioState.POWERED_ON;
+  }
+
+  private handleRadioStateChange(state: BLERadioState): void {
+    const previous = this.radioState;
+    if (state === previous) {
+      return;
+    }
+    
+    this.radioState = state;
+    console.log(`Bluetooth state changed: ${previous} -> ${state}`);
+    this.radioStateCallbacks.forEach(cb => cb(state));
+    
+    if (state === BLERadioState.POWERED_ON) {
+      this.resumeAfterRadioOn();
+    } else if (previous === BLERadioState.POWERED_ON) {
+      this.suspendForRadioOff(state);
+    }
+  }
+
+  /**
+   * Park the running scan and the link until the radio is back
+   */
+  private suspendForRadioOff(state: BLERadioState): void {
+    if (state === BLERadioState.POWERED_OFF) {
+      this.handleError(
+        this.createError(BLEErrorType.BLUETOOTH_DISABLED, 'Bluetooth was disabled')
+      );
+    }
+    
+    if (this.activeScan) {
+      const scan = this.activeScan;
+      this.stopScan();
+      if (this.scanTimer) {
+        clearTimeout(this.scanTimer);
+        this.scanTimer = null;
+      }
+      this.pendingScan = scan;
+      if (this.connectionState === BLEConnectionState.SCANNING) {
+        this.updateConnectionState(BLEConnectionState.DISCONNECTED);
+      }
+    }
+    
+    // A pending attempt would fail; the loop resumes when the radio is back
+    this.cancelReconnect();
+    
+    // Not every stack reports the disconnection when the adapter goes down
+    if (this.connectedDevice) {
+      this.handleDisconnection(new Error('Bluetooth turned off'));
+    }
+  }
+
+  /**
+   * Resume what was waiting for the radio: connects, a scan and the reconnect loop
+   */
+  private resumeAfterRadioOn(): void {
+    this.wakeRadioWaiters();
+    
+    if (this.pendingScan) {
+      const scan = this.pendingScan;
+      this.pendingScan = null;
+      this.startScan(scan).catch(error => this.handleError(error));
+    }
+    
+    if (
+      this.connectionState === BLEConnectionState.RECONNECTING &&
+      this.lastDeviceId &&
+      !this.connectedDevice &&
+      !this.reconnectTimer
+    ) {
+      // A fresh budget: the attempts before the radio went off don't count
+      this.reconnectAttempts = 0;
+      this.scheduleReconnect();
+    }
+  }
+
+  private wakeRadioWaiters(): void {
+    const waiters = this.radioWaiters;
+    this.radioWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+
+  /**
+   * Pick up a link the OS kept open across an app relaunch
+   */
+  private restoreConnection(devices: TransportConnection[]): void {
+    // The app connected on its own before restoration was delivered
+    if (devices.length === 0 || this.lastDeviceId) {
+      return;
+    }
+    
+    const device = devices[0];
+    console.log(`Restoring connection to ${device.name || device.id}`);
+    this.connect(device.id).catch(error => this.handleError(error));
+  }
+
+  /**
+   * Event listener registration
+   */
+  onDeviceDiscovered(callback: DeviceDiscoveryCallback): void {
+    this.deviceDiscoveryCallbacks.push(callback);
+  }
+
+  onConnectionStateChange(callback: ConnectionStateCallback): void {
+    this.connectionStateCallbacks.push(callback);
+  }
+
+  onError(callback: ErrorCallback): void {
+    this.errorCallbacks.push(callback);
+  }
+
+  onTouchBarEvent(callback: TouchBarEventCallback): void {
+    this.touchBarCallbacks.push(callback);
+  }
+
+  onBatteryLevelChange(callback: BatteryLevelCallback): void {
+    this.batteryCallbacks.push(callback);
+  }
+
+  onRadioStateChange(callback: RadioStateCallback): void {
+    this.radioStateCallbacks.push(callback);
+  }
+
+  /**
+   * Get connection state
+   */
+  getConnectionState(): BLEConnectionState {
+    return this.connectionState;
+  }
+
+  /**
+   * Last Bluetooth adapter state reported by the transport
+   */
+  getRadioState(): BLERadioState {
+    return this.radioState;
+  }
+
+  isConnected(): boolean {
+    return this.connectionState === BLEConnectionState.CONNECTED;
+  }
+
+  /**
+   * Utility Methods
    */
   
-  private isG2Device(device: Device): boolean {
-    // Adjust this filter based on actual G2 device naming
-    return device.name?.toLowerCase().includes('even') || 
-           device.name?.toLowerCase().includes('g2') ||
-           false;
+  /**
+   * Filter, parse and dedupe one scan result
+   */
+  private handleScanResult(result: TransportScanResult, rssiThreshold: number): void {
+    const advertisement = result.manufacturerData
+      ? g2Decoder.decodeManufacturerData(result.manufacturerData)
+      : null;
+    
+    // Some stacks ignore the service filter, so check what the device actually advertises
+    const advertisesDisplay = result.serviceUUIDs?.includes(G2_UUIDS.DISPLAY_SERVICE) || false;
+    if (!advertisesDisplay && !advertisement) {
+      return;
+    }
+    
+    const existing = this.discoveredDevices.get(result.id);
+    
+    // Weak advertisements don't add devices, but a listed device keeps its entry
+    if (!existing && (result.rssi ?? -100) < rssiThreshold) {
+      return;
+    }
+    
+    const device: G2DeviceInfo = {
+      ...this.mapDeviceInfo(result),
+      batteryLevel: advertisement?.batteryLevel,
+      firmwareVersion: advertisement?.firmwareVersion,
+      advertisement: advertisement || undefined,
+    };
+    this.discoveredDevices.set(result.id, device);
+    
+    if (
+      !existing ||
+      existing.name !== device.name ||
+      Math.abs(existing.rssi - device.rssi) >= RSSI_UPDATE_DELTA
+    ) {
+      this.notifyDeviceDiscovered(device);
+    }
   }
 
-  private mapDeviceInfo(device: Device): G2DeviceInfo {
+  private mapDeviceInfo(device: { id: string; name: string | null; rssi: number | null }): G2DeviceInfo {
+    const isConnected = device.id === this.connectedDevice?.id;
     return {
       id: device.id,
       name: device.name || 'Unknown',
       rssi: device.rssi || -100,
-      isConnected: device.id === this.connectedDevice?.id,
+      batteryLevel: isConnected && this.batteryLevel !== null ? this.batteryLevel : undefined,
+      isConnected,
       lastSeen: new Date(),
     };
   }
@@ -495,6 +2012,15 @@ export class G2BLEManager implements IBLEManager {
     };
   }
 
+  private isBLEError(error: unknown): error is BLEError {
+    return (
+      typeof error === 'object' &&
+      error !== null &&
+      'type' in error &&
+      Object.values(BLEErrorType).includes((error as BLEError).type)
+    );
+  }
+
   private handleError(error: BLEError): void {
     console.error('BLE Error:', error);
     this.notifyError(error);
@@ -512,74 +2038,29 @@ export class G2BLEManager implements IBLEManager {
     this.errorCallbacks.forEach(cb => cb(error));
   }
 
-  private notifyTouchBarEvent(event: any): void {
+  private notifyTouchBarEvent(event: TouchBarEvent): void {
     this.touchBarCallbacks.forEach(cb => cb(event));
   }
 
-  private base64ToUint8Array(base64: string): Uint8Array {
-    const binaryString = atob(base64);
-    const bytes = new Uint8Array(binaryString.length);
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
-    return bytes;
-  }
-
-  private uint8ArrayToBase64(bytes: Uint8Array): string {
-    let binary = '';
-    for (let i = 0; i < bytes.length; i++) {
-      binary += String.fromCharCode(bytes[i]);
-    }
-    return btoa(binary);
+  private notifyBatteryLevelChange(level: number): void {
+    this.batteryCallbacks.forEach(cb => cb(level));
   }
 
-  private createTimeout<T>(ms: number, message: string): Promise<T> {
-    return new Promise((_, reject) => {
-      setTimeout(() => reject(new Error(message)), ms);
+  /**
+   * Promise that rejects after ms; cancel it once the race it guards has settled
+   */
+  private createTimeout<T>(ms: number, message: string): { promise: Promise<T>; cancel: () => void } {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const promise = new Promise<T>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(message)), ms);
     });
-  }
-
-  private async requestPermissions(): Promise<void> {
-    if (Platform.OS === 'android') {
-      const apiLevel = Platform.Version;
-      
-      if (apiLevel >= 31) {
-        // Android 12+
-        const granted = await PermissionsAndroid.requestMultiple([
-          PermissionsAndroid.PERMISSIONS.BLUETOOTH_SCAN,
-          PermissionsAndroid.PERMISSIONS.BLUETOOTH_CONNECT,
-          PermissionsAndroid.PERMISSIONS.ACCESS_FINE_LOCATION,
-        ]);
-        
-        const allGranted = Object.values(granted).every(
-          status => status === PermissionsAndroid.RESULTS.GRANTED
-        );
-        
-        if (!allGranted) {
-          throw this.createError(
-            BLEErrorType.PERMISSION_DENIED,
-            'Bluetooth permissions not granted'
-          );
-        }
-      } else {
-        // Android 11 and below
-        const granted = await PermissionsAndroid.request(
-          PermissionsAndroid.PERMISSIONS.ACCESS_FINE_LOCATION
-        );
-        
-        if (granted !== PermissionsAndroid.RESULTS.GRANTED) {
-          throw this.createError(
-            BLEErrorType.PERMISSION_DENIED,
-            'Location permission not granted'
-          );
-        }
+    
+    const cancel = () => {
+      if (timer !== undefined) {
+        clearTimeout(timer);
       }
-    }
-    // iOS permissions are handled automatically by the system
+    };
+    
+    return { promise, cancel };
   }
 }
-
-/**
- * Export singleton instance
- */
-export const bleManager = new G2BLEManager();
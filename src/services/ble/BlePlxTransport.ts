@@ -0,0 +1,325 @@
+/**
+ * BLE-PLX Transport
+ * IBLETransport implementation backed by react-native-ble-plx
+ */
+
+import { BleManager, BleRestoredState, Device, ScanMode, State } from 'react-native-ble-plx';
+import { Platform, PermissionsAndroid } from 'react-native';
+import {
+  IBLETransport,
+  BLERadioState,
+  BLEScanOptions,
+  BLEConnectionOptions,
+  CharacteristicRoute,
+  TransportConnection,
+  TransportScanResult,
+  TransportService,
+  TransportSubscription,
+  TransportScanListener,
+  TransportNotificationListener,
+  TransportDisconnectListener,
+  RadioStateListener,
+  StateRestoredListener,
+  BLEScanMode,
+} from '@/types/ble.types';
+
+/**
+ * ATT MTU assumed when the platform does not report a negotiated value
+ */
+const DEFAULT_MTU = 23;
+
+/**
+ * iOS key for CoreBluetooth state restoration; needs the bluetooth-central background mode
+ */
+const RESTORE_STATE_IDENTIFIER = 'even-g2-calendar-companion';
+
+/**
+ * React Native BLE transport
+ */
+export class BlePlxTransport implements IBLETransport {
+  private manager: BleManager | null = null;
+  private devices = new Map<string, Device>();
+  private restoredDevices: TransportConnection[] | null = null;
+  private restoreListeners: StateRestoredListener[] = [];
+
+  /**
+   * Request platform Bluetooth permissions
+   */
+  async requestPermissions(): Promise<boolean> {
+    if (Platform.OS !== 'android') {
+      // iOS permissions are handled automatically by the system
+      return true;
+    }
+    
+    const apiLevel = Platform.Version;
+    
+    if (apiLevel >= 31) {
+      // Android 12+
+      const granted = await PermissionsAndroid.requestMultiple([
+        PermissionsAndroid.PERMISSIONS.BLUETOOTH_SCAN,
+        PermissionsAndroid.PERMISSIONS.BLUETOOTH_CONNECT,
+        PermissionsAndroid.PERMISSIONS.ACCESS_FINE_LOCATION,
+      ]);
+      
+      return Object.values(granted).every(
+        status => status === PermissionsAndroid.RESULTS.GRANTED
+      );
+    }
+    
+    // Android 11 and below
+    const granted = await PermissionsAndroid.request(
+      PermissionsAndroid.PERMISSIONS.ACCESS_FINE_LOCATION
+    );
+    
+    return granted === PermissionsAndroid.RESULTS.GRANTED;
+  }
+
+  async state(): Promise<BLERadioState> {
+    return this.mapState(await this.getManager().state());
+  }
+
+  onStateChange(listener: RadioStateListener, emitCurrentState: boolean = false): TransportSubscription {
+    return this.getManager().onStateChange(
+      state => listener(this.mapState(state)),
+      emitCurrentState
+    );
+  }
+
+  /**
+   * Peripherals iOS kept connected while the app was suspended or relaunched in the background
+   * Android never restores, so listeners there are not called
+   */
+  onStateRestored(listener: StateRestoredListener): TransportSubscription {
+    this.restoreListeners.push(listener);
+    
+    // Restoration runs once, when the native manager is created
+    const restored = this.restoredDevices;
+    this.getManager();
+    if (restored && restored.length > 0) {
+      setTimeout(() => listener(restored), 0);
+    }
+    
+    return {
+      remove: () => {
+        this.restoreListeners = this.restoreListeners.filter(cb => cb !== listener);
+      },
+    };
+  }
+
+  startScan(serviceUUIDs: string[] | null, options: BLEScanOptions, listener: TransportScanListener): void {
+    this.getManager().startDeviceScan(
+      serviceUUIDs,
+      {
+        allowDuplicates: options.allowDuplicates || false,
+        scanMode: this.mapScanMode(options.scanMode),
+      },
+      (error, device) => {
+        if (error) {
+          listener(error, null);
+          return;
+        }
+        
+        if (device) {
+          listener(null, this.mapScanResult(device));
+        }
+      }
+    );
+  }
+
+  stopScan(): void {
+    this.getManager().stopDeviceScan();
+  }
+
+  async connect(deviceId: string, options: BLEConnectionOptions): Promise<TransportConnection> {
+    const device = await this.getManager().connectToDevice(deviceId, {
+      autoConnect: options.autoConnect,
+      requestMTU: options.requestMTU || 512,
+    });
+    
+    this.devices.set(deviceId, device);
+    
+    return {
+      id: device.id,
+      name: device.name,
+      rssi: device.rssi,
+      mtu: device.mtu || DEFAULT_MTU,
+    };
+  }
+
+  async discoverServices(deviceId: string): Promise<TransportService[]> {
+    const device = await this.getDevice(deviceId).discoverAllServicesAndCharacteristics();
+    const services = await device.services();
+    
+    return Promise.all(
+      services.map(async service => {
+        const characteristics = await device.characteristicsForService(service.uuid);
+        return {
+          uuid: service.uuid.toLowerCase(),
+          characteristicUUIDs: characteristics.map(c => c.uuid.toLowerCase()),
+        };
+      })
+    );
+  }
+
+  async cancelConnection(deviceId: string): Promise<void> {
+    this.devices.delete(deviceId);
+    await this.getManager().cancelDeviceConnection(deviceId);
+  }
+
+  onDisconnected(deviceId: string, listener: TransportDisconnectListener): TransportSubscription {
+    return this.getManager().onDeviceDisconnected(deviceId, error => {
+      this.devices.delete(deviceId);
+      listener(error);
+    });
+  }
+
+  async readRSSI(deviceId: string): Promise<number> {
+    const device = await this.getDevice(deviceId).readRSSI();
+    
+    if (device.rssi === null) {
+      throw new Error(`No RSSI reported for ${deviceId}`);
+    }
+    
+    return device.rssi;
+  }
+
+  async read(deviceId: string, route: CharacteristicRoute): Promise<Uint8Array> {
+    const characteristic = await this.getDevice(deviceId).readCharacteristicForService(
+      route.serviceUUID,
+      route.characteristicUUID
+    );
+    
+    if (!characteristic.value) {
+      throw new Error(`No data received from ${route.characteristicUUID}`);
+    }
+    
+    return this.base64ToUint8Array(characteristic.value);
+  }
+
+  async write(deviceId: string, route: CharacteristicRoute, data: Uint8Array): Promise<void> {
+    await this.getDevice(deviceId).writeCharacteristicWithResponseForService(
+      route.serviceUUID,
+      route.characteristicUUID,
+      this.uint8ArrayToBase64(data)
+    );
+  }
+
+  monitor(
+    deviceId: string,
+    route: CharacteristicRoute,
+    listener: TransportNotificationListener
+  ): TransportSubscription {
+    return this.getDevice(deviceId).monitorCharacteristicForService(
+      route.serviceUUID,
+      route.characteristicUUID,
+      (error, characteristic) => {
+        if (error) {
+          listener(error, null);
+          return;
+        }
+        
+        if (characteristic?.value) {
+          listener(null, this.base64ToUint8Array(characteristic.value));
+        }
+      }
+    );
+  }
+
+  /**
+   * Utility Methods
+   */
+
+  // Created on first use so importing the transport has no native side effects
+  private getManager(): BleManager {
+    if (!this.manager) {
+      this.manager = new BleManager({
+        restoreStateIdentifier: RESTORE_STATE_IDENTIFIER,
+        restoreStateFunction: restored => this.handleRestoredState(restored),
+      });
+    }
+    return this.manager;
+  }
+
+  private handleRestoredState(restored: BleRestoredState | null): void {
+    const peripherals = restored?.connectedPeripherals || [];
+    
+    // Restored peripherals are connected, so GATT calls work without connect()
+    peripherals.forEach(device => this.devices.set(device.id, device));
+    this.restoredDevices = peripherals.map(device => ({
+      id: device.id,
+      name: device.name,
+      rssi: device.rssi,
+      mtu: device.mtu || DEFAULT_MTU,
+    }));
+    
+    if (this.restoredDevices.length > 0) {
+      const devices = this.restoredDevices;
+      this.restoreListeners.forEach(cb => cb(devices));
+    }
+  }
+
+  private getDevice(deviceId: string): Device {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      throw new Error(`Device ${deviceId} is not connected`);
+    }
+    return device;
+  }
+
+  private mapScanResult(device: Device): TransportScanResult {
+    return {
+      id: device.id,
+      name: device.name,
+      rssi: device.rssi,
+      serviceUUIDs: device.serviceUUIDs?.map(uuid => uuid.toLowerCase()) || null,
+      manufacturerData: device.manufacturerData
+        ? this.base64ToUint8Array(device.manufacturerData)
+        : null,
+    };
+  }
+
+  private mapScanMode(scanMode?: BLEScanMode): ScanMode {
+    switch (scanMode) {
+      case 'lowPower':
+        return ScanMode.LowPower;
+      case 'lowLatency':
+        return ScanMode.LowLatency;
+      default:
+        return ScanMode.Balanced;
+    }
+  }
+
+  private mapState(state: State): BLERadioState {
+    switch (state) {
+      case State.PoweredOn:
+        return BLERadioState.POWERED_ON;
+      case State.PoweredOff:
+        return BLERadioState.POWERED_OFF;
+      case State.Resetting:
+        return BLERadioState.RESETTING;
+      case State.Unsupported:
+        return BLERadioState.UNSUPPORTED;
+      case State.Unauthorized:
+        return BLERadioState.UNAUTHORIZED;
+      default:
+        return BLERadioState.UNKNOWN;
+    }
+  }
+
+  private base64ToUint8Array(base64: string): Uint8Array {
+    const binaryString = atob(base64);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+      bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  private uint8ArrayToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+      binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+  }
+}
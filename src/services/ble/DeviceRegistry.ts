@@ -0,0 +1,133 @@
+/**
+ * Device Registry
+ * Remembers paired G2 glasses across launches (AsyncStorage)
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { KnownDevice } from '@/types/ble.types';
+
+/**
+ * AsyncStorage key for the registry
+ */
+const STORAGE_KEY = '@even_g2/known_devices';
+
+/**
+ * Device Registry Implementation
+ */
+export class DeviceRegistry {
+  private devices: KnownDevice[] = [];
+  private loaded = false;
+
+  /**
+   * Load known devices from storage (cached after the first call)
+   */
+  async load(): Promise<KnownDevice[]> {
+    if (this.loaded) {
+      return this.getDevices();
+    }
+
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      const parsed: KnownDevice[] = stored ? JSON.parse(stored) : [];
+
+      // Dates are stored as ISO strings
+      this.devices = parsed.map(device => ({
+        ...device,
+        pairedAt: new Date(device.pairedAt),
+        lastConnected: new Date(device.lastConnected),
+      }));
+    } catch (error) {
+      console.error('Failed to load device registry:', error);
+      this.devices = [];
+    }
+
+    this.loaded = true;
+    return this.getDevices();
+  }
+
+  /**
+   * Known devices, most recently connected first
+   */
+  getDevices(): KnownDevice[] {
+    return [...this.devices].sort(
+      (a, b) => b.lastConnected.getTime() - a.lastConnected.getTime()
+    );
+  }
+
+  getDevice(deviceId: string): KnownDevice | null {
+    return this.devices.find(device => device.id === deviceId) || null;
+  }
+
+  isKnown(deviceId: string): boolean {
+    return this.getDevice(deviceId) !== null;
+  }
+
+  /**
+   * Record a successful connection, adding the device on first pairing
+   */
+  async recordConnection(device: { id: string; name: string; rssi: number; firmwareVersion?: string }): Promise<void> {
+    const now = new Date();
+    const existing = this.getDevice(device.id);
+
+    if (existing) {
+      existing.name = device.name;
+      existing.lastRssi = device.rssi;
+      existing.firmwareVersion = device.firmwareVersion || existing.firmwareVersion;
+      existing.lastConnected = now;
+    } else {
+      this.devices.push({
+        id: device.id,
+        name: device.name,
+        lastRssi: device.rssi,
+        firmwareVersion: device.firmwareVersion,
+        pairedAt: now,
+        lastConnected: now,
+      });
+      console.log(`Paired new device: ${device.name}`);
+    }
+
+    await this.save();
+  }
+
+  /**
+   * Update details learned after connecting (e.g. firmware version)
+   */
+  async updateDevice(deviceId: string, changes: Partial<Pick<KnownDevice, 'name' | 'lastRssi' | 'firmwareVersion'>>): Promise<void> {
+    const device = this.getDevice(deviceId);
+    if (!device) {
+      return;
+    }
+
+    Object.assign(device, changes);
+    await this.save();
+  }
+
+  /**
+   * Remove a device so it is no longer auto-connected
+   */
+  async forget(deviceId: string): Promise<void> {
+    this.devices = this.devices.filter(device => device.id !== deviceId);
+    await this.save();
+  }
+
+  /**
+   * Remove all devices
+   */
+  async clear(): Promise<void> {
+    this.devices = [];
+    await this.save();
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.devices));
+    } catch (error) {
+      console.error('Failed to save device registry:', error);
+    }
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const deviceRegistry = new DeviceRegistry();
@@ -3,7 +3,16 @@
  * Based on reverse-engineered protocol from i-soxi/even-g2-protocol
  * 
  * Protocol Structure:
- * [Header(1)] [Command(1)] [Length(2)] [Payload(N)] [Checksum(1)]
+ * [Header(1)] [Command(1)] [Length(2)] [Payload(N)] [Checksum(1-2)]
+ * 
+ * The checksum is an XOR byte (protocol v1) or a CRC-16/CCITT (v2),
+ * chosen per protocol version when the encoder/decoder is created.
+ * 
+ * Command Envelope Structure:
+ * [Sequence(2)] [Frame(N)]
+ * 
+ * Link Fragment Structure (one per BLE write):
+ * [MessageId(1)] [Index(1)] [Total(1)] [Frame Slice(N)]
  */
 
 import {
@@ -12,13 +21,33 @@ import {
   ClearDisplayCommand,
   GraphicsDisplayCommand,
   BrightnessCommand,
+  RefreshCommand,
+  PingCommand,
+  RefreshMode,
   DisplayCommandType,
   TextAlignment,
+  TextStyleFlag,
   BLECommandPacket,
   TouchBarEvent,
   TouchBarEventType,
+  PacketFragment,
+  NotificationType,
+  NackReason,
+  CommandEnvelope,
+  G2Notification,
   IProtocolEncoder,
   IProtocolDecoder,
+  G2Arm,
+  G2Advertisement,
+  G2_MANUFACTURER_DATA,
+  G2_CAPABILITIES,
+  G2_TOUCHBAR,
+  G2CapabilitiesDescriptor,
+  G2_SETTINGS,
+  G2SettingKey,
+  G2Settings,
+  G2Language,
+  ChecksumType,
 } from '@/types/ble.types';
 
 /**
@@ -29,19 +58,81 @@ const PROTOCOL_CONSTANTS = {
   FOOTER: 0x03, // End of frame
   MAX_PAYLOAD_SIZE: 512, // Maximum payload size in bytes
   CHECKSUM_SEED: 0xFF,
+  CRC16_SEED: 0xFFFF,
+  FRAME_HEADER_SIZE: 4, // header(1) + cmd(1) + len(2)
+  ATT_HEADER_SIZE: 3, // ATT opcode(1) + handle(2) consumed from every write
+  FRAGMENT_HEADER_SIZE: 3, // messageId(1) + index(1) + total(1)
+  DEFAULT_MTU: 23, // BLE minimum ATT MTU
+  MAX_FRAGMENTS: 255,
+  REASSEMBLY_TIMEOUT: 2000, // ms before a partial message is discarded
+  ENVELOPE_HEADER_SIZE: 2, // sequence(2)
 } as const;
 
+/**
+ * Bytes of checksum at the end of a frame
+ */
+const CHECKSUM_LENGTH: Record<ChecksumType, number> = {
+  [ChecksumType.XOR8]: 1,
+  [ChecksumType.CRC16_CCITT]: 2,
+};
+
+/**
+ * Command bytes the G2 sends on its notification characteristics
+ */
+const NOTIFICATION_TYPES: number[] = [NotificationType.TOUCHBAR, NotificationType.ACK, NotificationType.NACK];
+
+/**
+ * CRC-16/CCITT-FALSE (polynomial 0x1021, initial value 0xFFFF, not reflected, no final XOR)
+ * Check value: "123456789" → 0x29B1
+ */
+const CRC16_TABLE = (() => {
+  const table = new Uint16Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n << 8;
+    for (let k = 0; k < 8; k++) {
+      c = c & 0x8000 ? ((c << 1) ^ 0x1021) & 0xFFFF : (c << 1) & 0xFFFF;
+    }
+    table[n] = c;
+  }
+  return table;
+})();
+
+export function crc16Ccitt(data: Uint8Array, previous: number = PROTOCOL_CONSTANTS.CRC16_SEED): number {
+  let crc = previous;
+  for (let i = 0; i < data.length; i++) {
+    crc = ((crc << 8) & 0xFFFF) ^ CRC16_TABLE[((crc >> 8) ^ data[i]) & 0xFF];
+  }
+  return crc;
+}
+
+/**
+ * Checksum of the frame bytes between header and checksum
+ */
+function computeChecksum(type: ChecksumType, data: Uint8Array): number {
+  if (type === ChecksumType.CRC16_CCITT) {
+    return crc16Ccitt(data);
+  }
+  
+  let checksum: number = PROTOCOL_CONSTANTS.CHECKSUM_SEED;
+  for (let i = 0; i < data.length; i++) {
+    checksum ^= data[i];
+  }
+  return checksum;
+}
+
 /**
  * G2 Protocol Encoder
  * Converts high-level commands to BLE byte arrays
  */
 export class G2ProtocolEncoder implements IProtocolEncoder {
+  constructor(readonly checksumType: ChecksumType = ChecksumType.XOR8) {}
+
   /**
    * Encode text display command
    */
   encodeTextCommand(command: TextDisplayCommand): Uint8Array {
     const textBytes = this.stringToBytes(command.text);
-    const payloadSize = 6 + textBytes.length; // x(2) + y(2) + alignment(1) + fontSize(1) + text
+    const payloadSize = 9 + textBytes.length; // x(2) + y(2) + alignment(1) + fontSize(1) + style(1) + maxWidth(2) + text
     
     const payload = new Uint8Array(payloadSize);
     let offset = 0;
@@ -60,6 +151,14 @@ export class G2ProtocolEncoder implements IProtocolEncoder {
     // Font size (1 byte)
     payload[offset++] = command.fontSize || 18;
     
+    // Style flags (1 byte)
+    payload[offset++] = this.encodeTextStyle(command);
+    
+    // Clip width (2 bytes, little-endian, 0 = no clip)
+    const maxWidth = command.maxWidth || 0;
+    payload[offset++] = maxWidth & 0xFF;
+    payload[offset++] = (maxWidth >> 8) & 0xFF;
+    
     // Text data
     payload.set(textBytes, offset);
     
@@ -126,23 +225,160 @@ export class G2ProtocolEncoder implements IProtocolEncoder {
     return this.buildPacket(DisplayCommandType.BRIGHTNESS, payload);
   }
 
+  /**
+   * Encode refresh command
+   */
+  encodeRefreshCommand(command: RefreshCommand): Uint8Array {
+    const payload = new Uint8Array(1);
+    payload[0] = command.mode;
+    
+    return this.buildPacket(DisplayCommandType.REFRESH, payload);
+  }
+
+  /**
+   * Encode ping command
+   */
+  encodePingCommand(_command: PingCommand): Uint8Array {
+    return this.buildPacket(DisplayCommandType.PING, new Uint8Array(0));
+  }
+
+  /**
+   * Wrap an encoded frame in a sequence-numbered envelope
+   */
+  encodeEnvelope(sequence: number, frame: Uint8Array): Uint8Array {
+    const envelope = new Uint8Array(PROTOCOL_CONSTANTS.ENVELOPE_HEADER_SIZE + frame.length);
+    
+    // Sequence number (2 bytes, little-endian)
+    envelope[0] = sequence & 0xFF;
+    envelope[1] = (sequence >> 8) & 0xFF;
+    
+    envelope.set(frame, PROTOCOL_CONSTANTS.ENVELOPE_HEADER_SIZE);
+    
+    return envelope;
+  }
+
+  /**
+   * Encode a notification frame as sent by the G2
+   * Used by the simulator and tooling that plays the peripheral role
+   */
+  encodeNotification(notification: G2Notification): Uint8Array {
+    switch (notification.type) {
+      case NotificationType.TOUCHBAR:
+        return this.buildPacket(NotificationType.TOUCHBAR, this.encodeTouchBarPayload(notification.events));
+      case NotificationType.ACK:
+        return this.buildPacket(
+          NotificationType.ACK,
+          new Uint8Array([notification.sequence & 0xFF, (notification.sequence >> 8) & 0xFF])
+        );
+      case NotificationType.NACK:
+        return this.buildPacket(
+          NotificationType.NACK,
+          new Uint8Array([
+            notification.sequence & 0xFF,
+            (notification.sequence >> 8) & 0xFF,
+            notification.reason,
+          ])
+        );
+    }
+  }
+
+  /**
+   * Encode the manufacturer data a G2 arm advertises
+   * Used by the simulator and tooling that plays the peripheral role
+   */
+  encodeManufacturerData(advertisement: G2Advertisement): Uint8Array {
+    const data = new Uint8Array(G2_MANUFACTURER_DATA.LENGTH);
+    const [major = 0, minor = 0] = advertisement.firmwareVersion
+      .split('.')
+      .map(part => parseInt(part, 10) || 0);
+    
+    data[0] = advertisement.companyId & 0xFF;
+    data[1] = (advertisement.companyId >> 8) & 0xFF;
+    data[2] = advertisement.model;
+    data[3] = advertisement.arm === G2Arm.LEFT
+      ? G2_MANUFACTURER_DATA.ARM_LEFT
+      : advertisement.arm === G2Arm.RIGHT
+      ? G2_MANUFACTURER_DATA.ARM_RIGHT
+      : G2_MANUFACTURER_DATA.ARM_NONE;
+    data[4] = major & 0xFF;
+    data[5] = minor & 0xFF;
+    data[6] = Math.max(0, Math.min(100, advertisement.batteryLevel));
+    data[7] = advertisement.pairingMode ? G2_MANUFACTURER_DATA.FLAG_PAIRING : 0x00;
+    
+    return data;
+  }
+
+  /**
+   * Encode the capabilities descriptor
+   * Used by the simulator and tooling that plays the peripheral role
+   */
+  encodeCapabilities(descriptor: G2CapabilitiesDescriptor): Uint8Array {
+    const data = new Uint8Array(G2_CAPABILITIES.LENGTH);
+    
+    data[0] = G2_CAPABILITIES.FORMAT;
+    data[1] = descriptor.protocolVersion & 0xFF;
+    data[2] = descriptor.features & 0xFF;
+    data[3] = (descriptor.features >> 8) & 0xFF;
+    data[4] = descriptor.minFontSize & 0xFF;
+    data[5] = descriptor.maxFontSize & 0xFF;
+    data[6] = descriptor.maxPayloadSize & 0xFF;
+    data[7] = (descriptor.maxPayloadSize >> 8) & 0xFF;
+    
+    return data;
+  }
+
+  /**
+   * Encode a settings record
+   * Only the fields present are written, so the glasses keep the others;
+   * a value the glasses can't store throws a RangeError
+   */
+  encodeSettings(settings: G2Settings): Uint8Array {
+    const entries: number[] = [];
+    
+    if (settings.displayTimeout !== undefined) {
+      const timeout = settings.displayTimeout;
+      if (!Number.isInteger(timeout) || timeout < 0 || timeout > G2_SETTINGS.MAX_DISPLAY_TIMEOUT) {
+        throw new RangeError(`Display timeout must be 0-${G2_SETTINGS.MAX_DISPLAY_TIMEOUT} seconds`);
+      }
+      entries.push(G2SettingKey.DISPLAY_TIMEOUT, 2, timeout & 0xFF, (timeout >> 8) & 0xFF);
+    }
+    
+    if (settings.headUpAngle !== undefined) {
+      const angle = settings.headUpAngle;
+      if (!Number.isInteger(angle) || angle < 0 || angle > G2_SETTINGS.MAX_HEAD_UP_ANGLE) {
+        throw new RangeError(`Head-up angle must be 0-${G2_SETTINGS.MAX_HEAD_UP_ANGLE} degrees`);
+      }
+      entries.push(G2SettingKey.HEAD_UP_ANGLE, 1, angle);
+    }
+    
+    if (settings.wearDetection !== undefined) {
+      entries.push(G2SettingKey.WEAR_DETECTION, 1, settings.wearDetection ? 0x01 : 0x00);
+    }
+    
+    if (settings.language !== undefined) {
+      if (G2Language[settings.language] === undefined) {
+        throw new RangeError(`Unknown language: ${settings.language}`);
+      }
+      entries.push(G2SettingKey.LANGUAGE, 1, settings.language);
+    }
+    
+    return new Uint8Array([G2_SETTINGS.FORMAT, ...entries]);
+  }
+
   /**
    * Calculate checksum for data
-   * Simple XOR checksum with seed
+   * XOR with seed, or CRC-16/CCITT, depending on the protocol version
    */
   calculateChecksum(data: Uint8Array): number {
-    let checksum = PROTOCOL_CONSTANTS.CHECKSUM_SEED;
-    for (let i = 0; i < data.length; i++) {
-      checksum ^= data[i];
-    }
-    return checksum;
+    return computeChecksum(this.checksumType, data);
   }
 
   /**
    * Build complete BLE packet
    */
-  private buildPacket(commandType: DisplayCommandType, payload: Uint8Array): Uint8Array {
-    const packetSize = 5 + payload.length; // header(1) + cmd(1) + len(2) + payload + checksum(1)
+  private buildPacket(commandType: DisplayCommandType | NotificationType, payload: Uint8Array): Uint8Array {
+    const checksumLength = CHECKSUM_LENGTH[this.checksumType];
+    const packetSize = PROTOCOL_CONSTANTS.FRAME_HEADER_SIZE + payload.length + checksumLength;
     const packet = new Uint8Array(packetSize);
     let offset = 0;
     
@@ -160,9 +396,12 @@ export class G2ProtocolEncoder implements IProtocolEncoder {
     packet.set(payload, offset);
     offset += payload.length;
     
-    // Checksum (calculated on everything except header and checksum itself)
-    const checksumData = packet.slice(1, offset);
-    packet[offset] = this.calculateChecksum(checksumData);
+    // Checksum (calculated on everything except header and checksum itself, little-endian)
+    const checksum = this.calculateChecksum(packet.slice(1, offset));
+    packet[offset] = checksum & 0xFF;
+    if (checksumLength === 2) {
+      packet[offset + 1] = (checksum >> 8) & 0xFF;
+    }
     
     return packet;
   }
@@ -175,6 +414,96 @@ export class G2ProtocolEncoder implements IProtocolEncoder {
     return encoder.encode(str);
   }
 
+  /**
+   * Encode text style flags to byte value
+   */
+  private encodeTextStyle(command: TextDisplayCommand): number {
+    let flags = 0x00;
+    if (command.bold) flags |= TextStyleFlag.BOLD;
+    if (command.inverted) flags |= TextStyleFlag.INVERTED;
+    if (command.underline) flags |= TextStyleFlag.UNDERLINE;
+    return flags;
+  }
+
+  /**
+   * Encode TouchBar events as a notification payload
+   * A lone event without side or detail uses the legacy layout older firmware sends
+   */
+  private encodeTouchBarPayload(events: TouchBarEvent[]): Uint8Array {
+    const [first] = events;
+    if (
+      events.length === 1 &&
+      first.arm === null &&
+      first.duration === undefined &&
+      first.velocity === undefined
+    ) {
+      const payload = new Uint8Array(G2_TOUCHBAR.LEGACY_LENGTH);
+      payload[0] = this.encodeEventType(first.type);
+      this.writeTimestamp(payload, 1, first.timestamp);
+      return payload;
+    }
+    
+    if (events.length > 0xFF) {
+      throw new Error('Too many TouchBar events for one notification');
+    }
+    
+    const payload = new Uint8Array(1 + events.length * G2_TOUCHBAR.RECORD_LENGTH);
+    payload[0] = events.length;
+    
+    events.forEach((event, i) => {
+      const offset = 1 + i * G2_TOUCHBAR.RECORD_LENGTH;
+      const detail = Math.min(
+        G2_TOUCHBAR.MAX_DETAIL,
+        Math.max(0, Math.round(event.duration ?? event.velocity ?? 0))
+      );
+      
+      payload[offset] = this.encodeEventType(event.type);
+      payload[offset + 1] = event.arm === G2Arm.LEFT
+        ? G2_TOUCHBAR.SIDE_LEFT
+        : event.arm === G2Arm.RIGHT
+        ? G2_TOUCHBAR.SIDE_RIGHT
+        : G2_TOUCHBAR.SIDE_UNKNOWN;
+      this.writeTimestamp(payload, offset + 2, event.timestamp);
+      payload[offset + 6] = detail & 0xFF;
+      payload[offset + 7] = (detail >> 8) & 0xFF;
+    });
+    
+    return payload;
+  }
+
+  /**
+   * Write a timestamp as 4 bytes of little-endian Unix seconds
+   */
+  private writeTimestamp(data: Uint8Array, offset: number, timestamp: Date): void {
+    const seconds = Math.floor(timestamp.getTime() / 1000);
+    data[offset] = seconds & 0xFF;
+    data[offset + 1] = (seconds >>> 8) & 0xFF;
+    data[offset + 2] = (seconds >>> 16) & 0xFF;
+    data[offset + 3] = (seconds >>> 24) & 0xFF;
+  }
+
+  /**
+   * Encode TouchBar event type to byte value
+   */
+  private encodeEventType(type: TouchBarEventType): number {
+    switch (type) {
+      case TouchBarEventType.TAP:
+        return 0x01;
+      case TouchBarEventType.DOUBLE_TAP:
+        return 0x02;
+      case TouchBarEventType.TRIPLE_TAP:
+        return 0x03;
+      case TouchBarEventType.PRESS_HOLD:
+        return 0x04;
+      case TouchBarEventType.SWIPE_UP:
+        return 0x05;
+      case TouchBarEventType.SWIPE_DOWN:
+        return 0x06;
+      default:
+        return 0x00;
+    }
+  }
+
   /**
    * Encode text alignment to byte value
    */
@@ -197,20 +526,174 @@ export class G2ProtocolEncoder implements IProtocolEncoder {
  * Converts BLE byte arrays to high-level events/data
  */
 export class G2ProtocolDecoder implements IProtocolDecoder {
+  constructor(readonly checksumType: ChecksumType = ChecksumType.XOR8) {}
+
   /**
-   * Decode TouchBar event from BLE notification
+   * Decode a display command frame as received by the G2
+   * Used by the simulator and tooling that plays the peripheral role
    */
-  decodeTouchBarEvent(data: Uint8Array): TouchBarEvent {
-    if (data.length < 2) {
-      throw new Error('Invalid TouchBar event data');
+  decodeCommand(frame: Uint8Array): DisplayCommand {
+    if (frame[0] !== PROTOCOL_CONSTANTS.HEADER || !this.validateChecksum(frame)) {
+      throw new Error('Invalid command frame');
     }
     
-    const eventType = this.decodeEventType(data[0]);
+    const payloadLength = frame[2] | (frame[3] << 8);
+    const expectedLength =
+      PROTOCOL_CONSTANTS.FRAME_HEADER_SIZE + payloadLength + CHECKSUM_LENGTH[this.checksumType];
+    if (frame.length !== expectedLength) {
+      throw new Error('Command frame length mismatch');
+    }
+    
+    const payload = frame.slice(4, 4 + payloadLength);
+    
+    switch (frame[1]) {
+      case DisplayCommandType.TEXT:
+        if (payload.length < 9) {
+          throw new Error('Invalid TEXT payload');
+        }
+        return {
+          type: DisplayCommandType.TEXT,
+          x: this.readUint16(payload, 0),
+          y: this.readUint16(payload, 2),
+          alignment: this.decodeAlignment(payload[4]),
+          fontSize: payload[5],
+          bold: (payload[6] & TextStyleFlag.BOLD) !== 0,
+          inverted: (payload[6] & TextStyleFlag.INVERTED) !== 0,
+          underline: (payload[6] & TextStyleFlag.UNDERLINE) !== 0,
+          maxWidth: this.readUint16(payload, 7),
+          text: new TextDecoder().decode(payload.slice(9)),
+        };
+      case DisplayCommandType.CLEAR:
+        if (payload.length === 0) {
+          return { type: DisplayCommandType.CLEAR };
+        }
+        if (payload.length !== 8) {
+          throw new Error('Invalid CLEAR payload');
+        }
+        return {
+          type: DisplayCommandType.CLEAR,
+          region: {
+            x: this.readUint16(payload, 0),
+            y: this.readUint16(payload, 2),
+            width: this.readUint16(payload, 4),
+            height: this.readUint16(payload, 6),
+          },
+        };
+      case DisplayCommandType.GRAPHICS:
+        if (payload.length < 8) {
+          throw new Error('Invalid GRAPHICS payload');
+        }
+        return {
+          type: DisplayCommandType.GRAPHICS,
+          x: this.readUint16(payload, 0),
+          y: this.readUint16(payload, 2),
+          width: this.readUint16(payload, 4),
+          height: this.readUint16(payload, 6),
+          data: payload.slice(8),
+        };
+      case DisplayCommandType.BRIGHTNESS:
+        if (payload.length !== 2) {
+          throw new Error('Invalid BRIGHTNESS payload');
+        }
+        return {
+          type: DisplayCommandType.BRIGHTNESS,
+          level: payload[0],
+          auto: payload[1] === 0x01,
+        };
+      case DisplayCommandType.REFRESH:
+        if (payload.length !== 1 ||
+            (payload[0] !== RefreshMode.COMMIT && payload[0] !== RefreshMode.BEGIN_DEFERRED)) {
+          throw new Error('Invalid REFRESH payload');
+        }
+        return {
+          type: DisplayCommandType.REFRESH,
+          mode: payload[0],
+        };
+      case DisplayCommandType.PING:
+        if (payload.length !== 0) {
+          throw new Error('Invalid PING payload');
+        }
+        return { type: DisplayCommandType.PING };
+      default:
+        throw new Error(`Unknown command type: 0x${frame[1].toString(16)}`);
+    }
+  }
+
+  /**
+   * Decode a complete, checksum-validated notification frame
+   * Returns null for notification types this client does not handle
+   */
+  decodeNotification(frame: Uint8Array): G2Notification | null {
+    const payloadLength = frame[2] | (frame[3] << 8);
+    const payload = frame.slice(4, 4 + payloadLength);
+    
+    switch (frame[1]) {
+      case NotificationType.TOUCHBAR:
+        return {
+          type: NotificationType.TOUCHBAR,
+          events: this.decodeTouchBarEvents(payload),
+        };
+      case NotificationType.ACK:
+        return {
+          type: NotificationType.ACK,
+          sequence: this.decodeSequence(payload),
+        };
+      case NotificationType.NACK:
+        return {
+          type: NotificationType.NACK,
+          sequence: this.decodeSequence(payload),
+          reason: this.decodeNackReason(payload[2]),
+        };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Decode the TouchBar events in a notification payload
+   * Events with an unknown type byte are dropped, never guessed at
+   */
+  decodeTouchBarEvents(payload: Uint8Array): TouchBarEvent[] {
     const timestamp = new Date();
     
+    // Older firmware sends one event without side or detail
+    if (payload.length === G2_TOUCHBAR.LEGACY_LENGTH) {
+      const event = this.decodeTouchBarEvent(payload[0], G2_TOUCHBAR.SIDE_UNKNOWN, null, timestamp);
+      return event ? [event] : [];
+    }
+    
+    if (payload.length === 0 || payload.length !== 1 + payload[0] * G2_TOUCHBAR.RECORD_LENGTH) {
+      throw new Error('Invalid TouchBar event data');
+    }
+    
+    const events: TouchBarEvent[] = [];
+    for (let i = 0; i < payload[0]; i++) {
+      const offset = 1 + i * G2_TOUCHBAR.RECORD_LENGTH;
+      const event = this.decodeTouchBarEvent(
+        payload[offset],
+        payload[offset + 1],
+        this.readUint16(payload, offset + 6),
+        timestamp
+      );
+      if (event) {
+        events.push(event);
+      }
+    }
+    
+    return events;
+  }
+
+  /**
+   * Split a command envelope into its sequence number and frame
+   */
+  decodeEnvelope(data: Uint8Array): CommandEnvelope {
+    if (data.length < PROTOCOL_CONSTANTS.ENVELOPE_HEADER_SIZE) {
+      throw new Error('Invalid command envelope');
+    }
+    
     return {
-      type: eventType,
-      timestamp,
+      sequence: this.decodeSequence(data),
+      frame: data.slice(PROTOCOL_CONSTANTS.ENVELOPE_HEADER_SIZE),
     };
   }
 
@@ -234,29 +717,233 @@ export class G2ProtocolDecoder implements IProtocolDecoder {
     return decoder.decode(data).trim();
   }
 
+  /**
+   * Parse G2 manufacturer data from a scan result
+   * Returns null for other vendors or a malformed record
+   */
+  decodeManufacturerData(data: Uint8Array): G2Advertisement | null {
+    if (data.length < G2_MANUFACTURER_DATA.LENGTH) {
+      return null;
+    }
+    
+    const companyId = this.readUint16(data, 0);
+    if (companyId !== G2_MANUFACTURER_DATA.COMPANY_ID) {
+      return null;
+    }
+    
+    let arm: G2Arm | null;
+    switch (data[3]) {
+      case G2_MANUFACTURER_DATA.ARM_LEFT:
+        arm = G2Arm.LEFT;
+        break;
+      case G2_MANUFACTURER_DATA.ARM_RIGHT:
+        arm = G2Arm.RIGHT;
+        break;
+      case G2_MANUFACTURER_DATA.ARM_NONE:
+        arm = null;
+        break;
+      default:
+        return null;
+    }
+    
+    return {
+      companyId,
+      model: data[2],
+      arm,
+      firmwareVersion: `${data[4]}.${data[5]}`,
+      batteryLevel: Math.min(100, data[6]),
+      pairingMode: (data[7] & G2_MANUFACTURER_DATA.FLAG_PAIRING) !== 0,
+    };
+  }
+
+  /**
+   * Parse the capabilities descriptor
+   * Returns null for an unknown format or a malformed record; longer
+   * descriptors from newer firmware are read up to the fields known here
+   */
+  decodeCapabilities(data: Uint8Array): G2CapabilitiesDescriptor | null {
+    if (data.length < G2_CAPABILITIES.LENGTH || data[0] !== G2_CAPABILITIES.FORMAT) {
+      return null;
+    }
+    
+    const minFontSize = data[4];
+    const maxFontSize = data[5];
+    const maxPayloadSize = this.readUint16(data, 6);
+    if (data[1] === 0 || minFontSize === 0 || maxFontSize < minFontSize || maxPayloadSize === 0) {
+      return null;
+    }
+    
+    return {
+      protocolVersion: data[1],
+      features: this.readUint16(data, 2),
+      minFontSize,
+      maxFontSize,
+      maxPayloadSize,
+    };
+  }
+
+  /**
+   * Decode a settings record
+   * Keys this version doesn't know are skipped, so newer firmware still reads
+   */
+  decodeSettings(data: Uint8Array): G2Settings {
+    if (data.length < 1 || data[0] !== G2_SETTINGS.FORMAT) {
+      throw new Error('Invalid settings record');
+    }
+    
+    const settings: G2Settings = {};
+    let offset = 1;
+    
+    while (offset < data.length) {
+      if (offset + 2 > data.length || offset + 2 + data[offset + 1] > data.length) {
+        throw new Error('Truncated settings record');
+      }
+      
+      const key = data[offset];
+      const length = data[offset + 1];
+      const value = offset + 2;
+      
+      switch (key) {
+        case G2SettingKey.DISPLAY_TIMEOUT:
+          if (length >= 2) {
+            settings.displayTimeout = this.readUint16(data, value);
+          }
+          break;
+        case G2SettingKey.HEAD_UP_ANGLE:
+          if (length >= 1) {
+            settings.headUpAngle = data[value];
+          }
+          break;
+        case G2SettingKey.WEAR_DETECTION:
+          if (length >= 1) {
+            settings.wearDetection = data[value] !== 0;
+          }
+          break;
+        case G2SettingKey.LANGUAGE:
+          // A language added after this version is left out rather than guessed
+          if (length >= 1 && G2Language[data[value]] !== undefined) {
+            settings.language = data[value] as G2Language;
+          }
+          break;
+      }
+      
+      offset = value + length;
+    }
+    
+    return settings;
+  }
+
   /**
    * Validate packet checksum
    */
   validateChecksum(packet: Uint8Array): boolean {
-    if (packet.length < 5) {
+    const checksumLength = CHECKSUM_LENGTH[this.checksumType];
+    if (packet.length < PROTOCOL_CONSTANTS.FRAME_HEADER_SIZE + checksumLength) {
+      return false;
+    }
+    
+    // A frame of the other checksum width can't be told apart by its bytes alone
+    const payloadLength = packet[2] | (packet[3] << 8);
+    if (packet.length !== PROTOCOL_CONSTANTS.FRAME_HEADER_SIZE + payloadLength + checksumLength) {
       return false;
     }
     
-    const checksumIndex = packet.length - 1;
-    const receivedChecksum = packet[checksumIndex];
+    const checksumIndex = packet.length - checksumLength;
+    const receivedChecksum = checksumLength === 2
+      ? this.readUint16(packet, checksumIndex)
+      : packet[checksumIndex];
     
     // Calculate checksum on data (excluding header and checksum)
     const checksumData = packet.slice(1, checksumIndex);
-    const encoder = new G2ProtocolEncoder();
-    const calculatedChecksum = encoder.calculateChecksum(checksumData);
     
-    return receivedChecksum === calculatedChecksum;
+    return receivedChecksum === computeChecksum(this.checksumType, checksumData);
+  }
+
+  /**
+   * Read little-endian 16-bit value
+   */
+  private readUint16(data: Uint8Array, offset: number): number {
+    return data[offset] | (data[offset + 1] << 8);
+  }
+
+  /**
+   * Decode text alignment from byte
+   */
+  private decodeAlignment(byte: number): TextAlignment {
+    switch (byte) {
+      case 0x01:
+        return TextAlignment.CENTER;
+      case 0x02:
+        return TextAlignment.RIGHT;
+      default:
+        return TextAlignment.LEFT;
+    }
+  }
+
+  /**
+   * Decode little-endian sequence number from the start of data
+   */
+  private decodeSequence(data: Uint8Array): number {
+    if (data.length < 2) {
+      throw new Error('Invalid sequence number');
+    }
+    
+    return data[0] | (data[1] << 8);
+  }
+
+  /**
+   * Decode NACK reason from byte
+   */
+  private decodeNackReason(byte: number | undefined): NackReason {
+    switch (byte) {
+      case NackReason.CHECKSUM_MISMATCH:
+      case NackReason.INVALID_COMMAND:
+      case NackReason.BUSY:
+        return byte;
+      default:
+        return NackReason.UNKNOWN;
+    }
+  }
+
+  /**
+   * Decode one TouchBar event record
+   * The detail field is the hold duration of a PRESS_HOLD or the velocity of a swipe
+   */
+  private decodeTouchBarEvent(
+    code: number,
+    side: number,
+    detail: number | null,
+    timestamp: Date
+  ): TouchBarEvent | null {
+    // A gesture from newer firmware; the other events in the packet still count
+    const type = this.decodeEventType(code);
+    if (type === null) {
+      return null;
+    }
+    
+    const event: TouchBarEvent = {
+      type,
+      code,
+      arm: side === G2_TOUCHBAR.SIDE_LEFT ? G2Arm.LEFT : side === G2_TOUCHBAR.SIDE_RIGHT ? G2Arm.RIGHT : null,
+      timestamp,
+    };
+    
+    if (detail !== null) {
+      if (type === TouchBarEventType.PRESS_HOLD) {
+        event.duration = detail;
+      } else if (type === TouchBarEventType.SWIPE_UP || type === TouchBarEventType.SWIPE_DOWN) {
+        event.velocity = detail;
+      }
+    }
+    
+    return event;
   }
 
   /**
    * Decode TouchBar event type from byte
+   * Returns null for a type this client doesn't know
    */
-  private decodeEventType(byte: number): TouchBarEventType {
+  private decodeEventType(byte: number): TouchBarEventType | null {
     switch (byte) {
       case 0x01:
         return TouchBarEventType.TAP;
@@ -271,11 +958,285 @@ export class G2ProtocolDecoder implements IProtocolDecoder {
       case 0x06:
         return TouchBarEventType.SWIPE_DOWN;
       default:
-        return TouchBarEventType.TAP;
+        return null;
     }
   }
 }
 
+/**
+ * G2 Frame Parser
+ * Stateful parser for notification byte streams. Notifications may carry
+ * partial or multiple frames, so bytes are buffered until a complete,
+ * checksum-valid frame is available.
+ */
+export class G2FrameParser {
+  private buffer = new Uint8Array(0);
+
+  /**
+   * onDecodeError hears about checksum-valid frames that fail to decode; they are dropped
+   */
+  constructor(
+    private decoder: IProtocolDecoder = new G2ProtocolDecoder(),
+    private onDecodeError?: (error: Error) => void
+  ) {}
+
+  /**
+   * Append received bytes and return every notification completed by them
+   */
+  push(chunk: Uint8Array): G2Notification[] {
+    this.append(chunk);
+    
+    const notifications: G2Notification[] = [];
+    
+    while (this.buffer.length > 0) {
+      // Resync on the next header byte, dropping any leading noise
+      const headerIndex = this.buffer.indexOf(PROTOCOL_CONSTANTS.HEADER);
+      if (headerIndex === -1) {
+        this.buffer = new Uint8Array(0);
+        break;
+      }
+      if (headerIndex > 0) {
+        this.buffer = this.buffer.slice(headerIndex);
+      }
+      
+      // header(1) + cmd(1) + len(2)
+      if (this.buffer.length < PROTOCOL_CONSTANTS.FRAME_HEADER_SIZE) {
+        break;
+      }
+      
+      if (!this.isPlausibleHeader(0)) {
+        // Not a real header; skip it and resync
+        this.buffer = this.buffer.slice(1);
+        continue;
+      }
+      
+      const frameLength = this.frameLengthAt(0);
+      if (this.buffer.length < frameLength) {
+        // A stray header must not hold up a complete frame queued behind it
+        if (this.hasCompleteFrameAfter(1)) {
+          this.buffer = this.buffer.slice(1);
+          continue;
+        }
+        break;
+      }
+      
+      const frame = this.buffer.slice(0, frameLength);
+      if (!this.decoder.validateChecksum(frame)) {
+        this.buffer = this.buffer.slice(1);
+        continue;
+      }
+      
+      this.buffer = this.buffer.slice(frameLength);
+      
+      try {
+        const notification = this.decoder.decodeNotification(frame);
+        if (notification) {
+          notifications.push(notification);
+        }
+      } catch (error) {
+        this.onDecodeError?.(error as Error);
+      }
+    }
+    
+    return notifications;
+  }
+
+  /**
+   * Discard buffered bytes (e.g. after reconnecting)
+   */
+  reset(): void {
+    this.buffer = new Uint8Array(0);
+  }
+
+  /**
+   * Whether the 4 bytes at index could start a notification frame
+   */
+  private isPlausibleHeader(index: number): boolean {
+    const payloadLength = this.buffer[index + 2] | (this.buffer[index + 3] << 8);
+    return NOTIFICATION_TYPES.includes(this.buffer[index + 1]) && payloadLength <= PROTOCOL_CONSTANTS.MAX_PAYLOAD_SIZE;
+  }
+
+  private frameLengthAt(index: number): number {
+    const payloadLength = this.buffer[index + 2] | (this.buffer[index + 3] << 8);
+    return PROTOCOL_CONSTANTS.FRAME_HEADER_SIZE + payloadLength + CHECKSUM_LENGTH[this.decoder.checksumType];
+  }
+
+  /**
+   * Whether a complete frame with a valid checksum starts at or after index
+   */
+  private hasCompleteFrameAfter(index: number): boolean {
+    let start = this.buffer.indexOf(PROTOCOL_CONSTANTS.HEADER, index);
+    
+    while (start !== -1 && this.buffer.length - start >= PROTOCOL_CONSTANTS.FRAME_HEADER_SIZE) {
+      const end = start + this.frameLengthAt(start);
+      if (
+        this.isPlausibleHeader(start) &&
+        end <= this.buffer.length &&
+        this.decoder.validateChecksum(this.buffer.slice(start, end))
+      ) {
+        return true;
+      }
+      start = this.buffer.indexOf(PROTOCOL_CONSTANTS.HEADER, start + 1);
+    }
+    
+    return false;
+  }
+
+  private append(chunk: Uint8Array): void {
+    const combined = new Uint8Array(this.buffer.length + chunk.length);
+    combined.set(this.buffer, 0);
+    combined.set(chunk, this.buffer.length);
+    this.buffer = combined;
+  }
+}
+
+/**
+ * G2 Packet Fragmenter
+ * Splits encoded frames into MTU-sized link fragments
+ */
+export class G2PacketFragmenter {
+  private nextMessageId = 0;
+
+  /**
+   * Split a frame into fragments that each fit in a single write
+   */
+  fragment(frame: Uint8Array, mtu: number = PROTOCOL_CONSTANTS.DEFAULT_MTU): Uint8Array[] {
+    const chunkSize = G2PacketFragmenter.getChunkSize(mtu);
+    const total = Math.max(1, Math.ceil(frame.length / chunkSize));
+    
+    if (total > PROTOCOL_CONSTANTS.MAX_FRAGMENTS) {
+      throw new Error(
+        `Frame of ${frame.length} bytes needs ${total} fragments at MTU ${mtu}`
+      );
+    }
+    
+    const messageId = this.nextMessageId;
+    this.nextMessageId = (this.nextMessageId + 1) & 0xFF;
+    
+    const fragments: Uint8Array[] = [];
+    for (let index = 0; index < total; index++) {
+      const slice = frame.subarray(index * chunkSize, (index + 1) * chunkSize);
+      const fragment = new Uint8Array(PROTOCOL_CONSTANTS.FRAGMENT_HEADER_SIZE + slice.length);
+      
+      fragment[0] = messageId;
+      fragment[1] = index;
+      fragment[2] = total;
+      fragment.set(slice, PROTOCOL_CONSTANTS.FRAGMENT_HEADER_SIZE);
+      
+      fragments.push(fragment);
+    }
+    
+    return fragments;
+  }
+
+  /**
+   * Parse the header of a received link fragment
+   */
+  static parseFragment(data: Uint8Array): PacketFragment {
+    if (data.length < PROTOCOL_CONSTANTS.FRAGMENT_HEADER_SIZE) {
+      throw new Error('Invalid fragment data');
+    }
+    
+    const fragment: PacketFragment = {
+      messageId: data[0],
+      index: data[1],
+      total: data[2],
+      data: data.slice(PROTOCOL_CONSTANTS.FRAGMENT_HEADER_SIZE),
+    };
+    
+    if (fragment.total === 0 || fragment.index >= fragment.total) {
+      throw new Error(`Invalid fragment index ${fragment.index}/${fragment.total}`);
+    }
+    
+    return fragment;
+  }
+
+  /**
+   * Frame bytes carried by each fragment for a given MTU
+   */
+  static getChunkSize(mtu: number): number {
+    const effectiveMtu = Math.max(mtu, PROTOCOL_CONSTANTS.DEFAULT_MTU);
+    return effectiveMtu - PROTOCOL_CONSTANTS.ATT_HEADER_SIZE - PROTOCOL_CONSTANTS.FRAGMENT_HEADER_SIZE;
+  }
+}
+
+/**
+ * G2 Packet Reassembler
+ * Rebuilds complete frames from link fragments
+ */
+export class G2PacketReassembler {
+  private pending = new Map<number, {
+    total: number;
+    slices: Array<Uint8Array | undefined>;
+    received: number;
+    startedAt: number;
+  }>();
+
+  constructor(private timeout: number = PROTOCOL_CONSTANTS.REASSEMBLY_TIMEOUT) {}
+
+  /**
+   * Add a fragment; returns the complete frame once every slice has arrived
+   */
+  push(data: Uint8Array): Uint8Array | null {
+    const fragment = G2PacketFragmenter.parseFragment(data);
+    const now = Date.now();
+    
+    this.discardStale(now);
+    
+    let message = this.pending.get(fragment.messageId);
+    
+    // A restarted or mismatched message id replaces the stale partial
+    if (!message || message.total !== fragment.total || fragment.index === 0) {
+      message = {
+        total: fragment.total,
+        slices: new Array(fragment.total),
+        received: 0,
+        startedAt: now,
+      };
+      this.pending.set(fragment.messageId, message);
+    }
+    
+    if (!message.slices[fragment.index]) {
+      message.slices[fragment.index] = fragment.data;
+      message.received++;
+    }
+    
+    if (message.received < message.total) {
+      return null;
+    }
+    
+    this.pending.delete(fragment.messageId);
+    
+    const length = message.slices.reduce((sum, slice) => sum + (slice?.length || 0), 0);
+    const frame = new Uint8Array(length);
+    let offset = 0;
+    
+    for (const slice of message.slices) {
+      if (slice) {
+        frame.set(slice, offset);
+        offset += slice.length;
+      }
+    }
+    
+    return frame;
+  }
+
+  /**
+   * Drop all partial messages
+   */
+  reset(): void {
+    this.pending.clear();
+  }
+
+  private discardStale(now: number): void {
+    this.pending.forEach((message, messageId) => {
+      if (now - message.startedAt > this.timeout) {
+        this.pending.delete(messageId);
+      }
+    });
+  }
+}
+
 /**
  * Protocol Utilities
  */
@@ -293,6 +1254,10 @@ export class G2ProtocolUtils {
         return this.validateGraphicsCommand(command);
       case DisplayCommandType.BRIGHTNESS:
         return this.validateBrightnessCommand(command);
+      case DisplayCommandType.REFRESH:
+        return this.validateRefreshCommand(command);
+      case DisplayCommandType.PING:
+        return true;
       default:
         return false;
     }
@@ -308,7 +1273,9 @@ export class G2ProtocolUtils {
       command.y >= 0 &&
       command.y < 200 &&
       command.text.length > 0 &&
-      command.text.length <= 256
+      command.text.length <= 256 &&
+      (command.maxWidth === undefined ||
+        (command.maxWidth >= 0 && command.x + command.maxWidth <= 640))
     );
   }
 
@@ -334,7 +1301,7 @@ export class G2ProtocolUtils {
    * Validate graphics command
    */
   private static validateGraphicsCommand(command: GraphicsDisplayCommand): boolean {
-    const expectedDataSize = Math.ceil((command.width * command.height) / 8); // 1 bit per pixel
+    const expectedDataSize = Math.ceil(command.width / 8) * command.height; // 1 bit per pixel, rows padded to whole bytes
     
     return (
       command.x >= 0 &&
@@ -354,6 +1321,13 @@ export class G2ProtocolUtils {
     return command.level >= 0 && command.level <= 100;
   }
 
+  /**
+   * Validate refresh command
+   */
+  private static validateRefreshCommand(command: RefreshCommand): boolean {
+    return command.mode === RefreshMode.COMMIT || command.mode === RefreshMode.BEGIN_DEFERRED;
+  }
+
   /**
    * Split large text into multiple commands if needed
    */
@@ -409,3 +1383,4 @@ export class G2ProtocolUtils {
  */
 export const g2Encoder = new G2ProtocolEncoder();
 export const g2Decoder = new G2ProtocolDecoder();
+export const g2Fragmenter = new G2PacketFragmenter();
@@ -0,0 +1,773 @@
+/**
+ * G2 Session
+ * Pairs the two arm peripherals of a G2 into one logical device
+ *
+ * Each arm runs its own G2BLEManager (write queue, ACKs, reconnect loop)
+ * on a shared transport. The session tracks arm states independently,
+ * routes display commands to one or both arms and reports a combined state.
+ */
+
+import {
+  IBLEManager,
+  IBLETransport,
+  BLEConnectionState,
+  BLEConnectionOptions,
+  BLEScanOptions,
+  BLEManagerConfig,
+  BLEError,
+  BLEErrorType,
+  G2Arm,
+  G2DeviceInfo,
+  G2Capabilities,
+  G2Feature,
+  G2Settings,
+  G2SessionConfig,
+  LinkMetrics,
+  ArmRoutingMode,
+  DisplayCommand,
+  WriteOptions,
+  DeviceDiscoveryCallback,
+  ConnectionStateCallback,
+  ErrorCallback,
+  TouchBarEventCallback,
+  BatteryLevelCallback,
+  ArmStateCallback,
+  RadioStateCallback,
+  BLERadioState,
+  TransportConnection,
+  TransportSubscription,
+  TouchBarEvent,
+  CharacteristicRoute,
+  G2_UUIDS,
+} from '@/types/ble.types';
+import { G2BLEManager } from './BLEManager';
+import { BlePlxTransport } from './BlePlxTransport';
+import { ProtocolTracer } from './ProtocolTracer';
+
+/**
+ * Default Session Configuration
+ */
+const DEFAULT_SESSION_CONFIG: G2SessionConfig = {
+  routing: ArmRoutingMode.MIRROR,
+  primaryArm: G2Arm.LEFT,
+  armDiscoveryTimeout: 3000,
+};
+
+const ARMS: G2Arm[] = [G2Arm.LEFT, G2Arm.RIGHT];
+
+const SETTINGS_ROUTE: CharacteristicRoute = {
+  serviceUUID: G2_UUIDS.CONFIG_SERVICE,
+  characteristicUUID: G2_UUIDS.SETTINGS_CHARACTERISTIC,
+};
+
+/**
+ * Arm peripherals advertise as "<glasses name>_L_<suffix>" / "<glasses name>_R_<suffix>"
+ * Names without a side marker are treated as a single-peripheral device
+ */
+const ARM_NAME_PATTERN = /^(.+?)_([LR])(?:_.*)?$/;
+
+/**
+ * Glasses seen during a scan, grouped from their arm advertisements
+ */
+interface DiscoveredGlasses {
+  name: string;
+  dualArm: boolean; // Grouped from "_L_"/"_R_" advertisements
+  arms: Partial<Record<G2Arm, G2DeviceInfo>>;
+}
+
+/**
+ * G2 Session Implementation
+ */
+export class G2Session implements IBLEManager {
+  private config: G2SessionConfig;
+  private arms: Record<G2Arm, G2BLEManager>;
+  private tracer: ProtocolTracer;
+  private activeArms: G2Arm[] = [];
+  private connectedGlasses: { id: string; name: string } | null = null;
+  private discovered = new Map<string, DiscoveredGlasses>();
+  private connectionState: BLEConnectionState = BLEConnectionState.DISCONNECTED;
+  private armDiscoveryWaiter: ((glassesId: string) => void) | null = null;
+  private connecting = false;
+  private transport: IBLETransport;
+  private restoreState: boolean;
+  private restoreSubscription: TransportSubscription | null = null;
+
+  // Callbacks
+  private deviceDiscoveryCallbacks: DeviceDiscoveryCallback[] = [];
+  private connectionStateCallbacks: ConnectionStateCallback[] = [];
+  private armStateCallbacks: ArmStateCallback[] = [];
+  private errorCallbacks: ErrorCallback[] = [];
+  private touchBarCallbacks: TouchBarEventCallback[] = [];
+  private batteryCallbacks: BatteryLevelCallback[] = [];
+  private radioStateCallbacks: RadioStateCallback[] = [];
+
+  constructor(
+    config: Partial<G2SessionConfig> = {},
+    managerConfig: Partial<BLEManagerConfig> = {},
+    transport: IBLETransport = new BlePlxTransport()
+  ) {
+    this.config = { ...DEFAULT_SESSION_CONFIG, ...config };
+    this.transport = transport;
+
+    // Restored arms are grouped into glasses here, not claimed by whichever arm manager hears first
+    this.restoreState = managerConfig.restoreState ?? true;
+    const armConfig = { ...managerConfig, restoreState: false };
+
+    // One capture for both arms, told apart by device id
+    this.tracer = new ProtocolTracer(
+      managerConfig.traceBufferSize !== undefined ? { capacity: managerConfig.traceBufferSize } : {}
+    );
+    this.arms = {
+      [G2Arm.LEFT]: new G2BLEManager(armConfig, transport, this.tracer),
+      [G2Arm.RIGHT]: new G2BLEManager(armConfig, transport, this.tracer),
+    };
+
+    ARMS.forEach(arm => this.attachArm(arm));
+
+    // Both arms share the radio, so one of them reports it
+    this.scanner().onRadioStateChange(state => this.radioStateCallbacks.forEach(cb => cb(state)));
+  }
+
+  /**
+   * Swap the transport of both arms (e.g. the in-process G2 simulator)
+   * Only allowed while disconnected
+   */
+  setTransport(transport: IBLETransport): void {
+    ARMS.forEach(arm => this.arms[arm].setTransport(transport));
+    this.transport = transport;
+    this.restoreSubscription?.remove();
+    this.restoreSubscription = null;
+  }
+
+  /**
+   * Change how display commands are distributed across the arms
+   */
+  setRouting(routing: ArmRoutingMode, primaryArm: G2Arm = this.config.primaryArm): void {
+    this.config = { ...this.config, routing, primaryArm };
+  }
+
+  /**
+   * Initialize both arm managers
+   */
+  async initialize(): Promise<void> {
+    for (const arm of ARMS) {
+      await this.arms[arm].initialize();
+    }
+
+    this.restoreSubscription?.remove();
+    this.restoreSubscription = this.restoreState
+      ? this.transport.onStateRestored(devices => this.restoreSession(devices))
+      : null;
+  }
+
+  /**
+   * Start scanning for G2 glasses
+   * Arm advertisements are grouped into one discovered device per pair of glasses
+   */
+  async startScan(options: BLEScanOptions = {}): Promise<void> {
+    this.discovered.clear();
+    await this.scanner().startScan(options);
+  }
+
+  stopScan(): void {
+    this.scanner().stopScan();
+  }
+
+  /**
+   * Connect to both arms of the glasses discovered under deviceId
+   * A device id that was not grouped from arm advertisements is connected as a single arm
+   */
+  async connect(deviceId: string, options: BLEConnectionOptions = {}): Promise<void> {
+    let glasses = this.discovered.get(deviceId);
+
+    // The first arm often shows up well before the second
+    if (glasses?.dualArm && !(glasses.arms[G2Arm.LEFT] && glasses.arms[G2Arm.RIGHT])) {
+      await this.waitForSecondArm(deviceId);
+      glasses = this.discovered.get(deviceId);
+    }
+
+    const armIds: Partial<Record<G2Arm, string>> = glasses
+      ? {
+          [G2Arm.LEFT]: glasses.arms[G2Arm.LEFT]?.id,
+          [G2Arm.RIGHT]: glasses.arms[G2Arm.RIGHT]?.id,
+        }
+      : { [this.config.primaryArm]: deviceId };
+
+    this.activeArms = ARMS.filter(arm => armIds[arm]);
+    this.connectedGlasses = { id: deviceId, name: glasses?.name || deviceId };
+
+    // Both arms connect in parallel; one arm up while the other is still connecting isn't partial yet
+    this.connecting = true;
+    const results = await Promise.allSettled(
+      this.activeArms.map(arm => this.arms[arm].connect(armIds[arm] as string, options))
+    );
+    this.connecting = false;
+
+    const failures = results
+      .map((result, index) => ({ result, arm: this.activeArms[index] }))
+      .filter(({ result }) => result.status === 'rejected');
+
+    if (failures.length === this.activeArms.length) {
+      this.activeArms = [];
+      this.connectedGlasses = null;
+      this.updateConnectionState();
+      throw (failures[0].result as PromiseRejectedResult).reason;
+    }
+
+    failures.forEach(({ result, arm }) => {
+      console.warn(`${arm} arm failed to connect, continuing with one arm`);
+      this.handleArmError(arm, (result as PromiseRejectedResult).reason);
+    });
+
+    this.updateConnectionState();
+  }
+
+  /**
+   * Disconnect both arms
+   */
+  async disconnect(): Promise<void> {
+    await Promise.all(ARMS.map(arm => this.arms[arm].disconnect()));
+    this.activeArms = [];
+    this.connectedGlasses = null;
+    this.updateConnectionState();
+  }
+
+  /**
+   * Get connected glasses info
+   */
+  getConnectedDevice(): G2DeviceInfo | null {
+    if (!this.connectedGlasses) {
+      return null;
+    }
+
+    const armInfo = this.activeArms
+      .map(arm => ({ arm, info: this.arms[arm].getConnectedDevice() }))
+      .filter(({ info }) => info !== null) as Array<{ arm: G2Arm; info: G2DeviceInfo }>;
+
+    if (armInfo.length === 0) {
+      return null;
+    }
+
+    const batteryLevels = armInfo
+      .map(({ info }) => info.batteryLevel)
+      .filter((level): level is number => level !== undefined);
+
+    return {
+      id: this.connectedGlasses.id,
+      name: this.connectedGlasses.name,
+      // The weaker arm limits the link
+      rssi: Math.min(...armInfo.map(({ info }) => info.rssi)),
+      batteryLevel: batteryLevels.length > 0 ? Math.min(...batteryLevels) : undefined,
+      isConnected: true,
+      lastSeen: new Date(),
+      arms: armInfo.reduce(
+        (arms, { arm, info }) => ({ ...arms, [arm]: info.id }),
+        {} as Partial<Record<G2Arm, string>>
+      ),
+    };
+  }
+
+  /**
+   * Battery level of the emptiest connected arm
+   */
+  async getBatteryLevel(arm?: G2Arm): Promise<number> {
+    if (arm) {
+      return this.arms[arm].getBatteryLevel();
+    }
+
+    const levels = await Promise.all(this.connectedArms().map(a => this.arms[a].getBatteryLevel()));
+    if (levels.length === 0) {
+      throw new Error('No device connected');
+    }
+    return Math.min(...levels);
+  }
+
+  /**
+   * True when every connected arm pushes battery changes
+   */
+  hasBatteryNotifications(): boolean {
+    const connected = this.connectedArms();
+    return connected.length > 0 && connected.every(arm => this.arms[arm].hasBatteryNotifications());
+  }
+
+  async getFirmwareVersion(arm?: G2Arm): Promise<string> {
+    return this.arms[arm || this.readArm()].getFirmwareVersion();
+  }
+
+  /**
+   * Capabilities of one arm, or what every connected arm supports
+   * Arms can run different firmware after an interrupted update
+   */
+  getCapabilities(arm?: G2Arm): G2Capabilities | null {
+    if (arm) {
+      return this.arms[arm].getCapabilities();
+    }
+
+    const arms = this.connectedArms()
+      .map(a => this.arms[a].getCapabilities())
+      .filter((capabilities): capabilities is G2Capabilities => capabilities !== null);
+    if (arms.length === 0) {
+      return null;
+    }
+
+    return arms.reduce((combined, capabilities) => ({
+      protocolVersion: Math.min(combined.protocolVersion, capabilities.protocolVersion),
+      firmwareVersion: combined.firmwareVersion === capabilities.firmwareVersion
+        ? combined.firmwareVersion
+        : null,
+      features: combined.features & capabilities.features,
+      minFontSize: Math.max(combined.minFontSize, capabilities.minFontSize),
+      maxFontSize: Math.min(combined.maxFontSize, capabilities.maxFontSize),
+      maxPayloadSize: Math.min(combined.maxPayloadSize, capabilities.maxPayloadSize),
+      source: combined.source === 'descriptor' && capabilities.source === 'descriptor'
+        ? 'descriptor'
+        : 'assumed',
+    }));
+  }
+
+  supportsFeature(feature: G2Feature): boolean {
+    const capabilities = this.getCapabilities();
+    return capabilities !== null && (capabilities.features & feature) !== 0;
+  }
+
+  /**
+   * Glasses settings, read from one arm (the primary arm by default)
+   */
+  async getSettings(arm?: G2Arm): Promise<G2Settings> {
+    return this.arms[arm || this.settingsArms()[0] || this.readArm()].getSettings();
+  }
+
+  /**
+   * Apply settings to every connected arm that stores them
+   * Resolves with the settings read back from the primary arm
+   */
+  async updateSettings(changes: G2Settings): Promise<G2Settings> {
+    const arms = this.settingsArms();
+    if (arms.length === 0) {
+      // Let the arm report why: not connected or no settings characteristic
+      return this.arms[this.readArm()].updateSettings(changes);
+    }
+
+    const results = await Promise.all(arms.map(arm => this.arms[arm].updateSettings(changes)));
+    return results[0];
+  }
+
+  /**
+   * Link metrics of one arm, or of the whole session (worst arm for quality, totals for traffic)
+   */
+  getLinkMetrics(arm?: G2Arm): LinkMetrics {
+    if (arm) {
+      return this.arms[arm].getLinkMetrics();
+    }
+
+    const arms = (this.activeArms.length > 0 ? this.activeArms : [this.config.primaryArm])
+      .map(a => this.arms[a].getLinkMetrics());
+    const commandsSent = arms.reduce((total, metrics) => total + metrics.commandsSent, 0);
+    const failures = arms.reduce((total, metrics) => total + metrics.failures, 0);
+    const rssis = arms.map(metrics => metrics.rssi).filter((rssi): rssi is number => rssi !== null);
+    const latencies = arms
+      .map(metrics => metrics.maxLatency)
+      .filter((latency): latency is number => latency !== null);
+    const averages = arms
+      .map(metrics => metrics.averageLatency)
+      .filter((latency): latency is number => latency !== null);
+    const heartbeats = arms.map(metrics => metrics.lastHeartbeat);
+    const connectedSince = arms
+      .map(metrics => metrics.connectedSince)
+      .filter((date): date is Date => date !== null);
+
+    return {
+      healthy: arms.every(metrics => metrics.healthy),
+      rssi: rssis.length > 0 ? Math.min(...rssis) : null,
+      averageLatency: averages.length > 0 ? Math.max(...averages) : null,
+      maxLatency: latencies.length > 0 ? Math.max(...latencies) : null,
+      commandsSent,
+      failures,
+      failureRate: commandsSent > 0 ? failures / commandsSent : 0,
+      retransmissions: arms.reduce((total, metrics) => total + metrics.retransmissions, 0),
+      throughput: arms.reduce((total, metrics) => total + metrics.throughput, 0),
+      missedHeartbeats: Math.max(...arms.map(metrics => metrics.missedHeartbeats)),
+      // The session is only as fresh as its stalest arm
+      lastHeartbeat: heartbeats.includes(null)
+        ? null
+        : new Date(Math.min(...heartbeats.map(date => (date as Date).getTime()))),
+      connectedSince: connectedSince.length > 0
+        ? new Date(Math.max(...connectedSince.map(date => date.getTime())))
+        : null,
+    };
+  }
+
+  /**
+   * Send display command to the arms selected by the routing mode
+   */
+  async sendCommand(command: DisplayCommand, options: WriteOptions = {}): Promise<void> {
+    await Promise.all(
+      this.targetArms(options).map(arm => this.arms[arm].sendCommand(command, options))
+    );
+  }
+
+  /**
+   * Send a batch of display commands to the arms selected by the routing mode
+   */
+  async sendCommands(commands: DisplayCommand[], options: WriteOptions = {}): Promise<void> {
+    await Promise.all(
+      this.targetArms(options).map(arm => this.arms[arm].sendCommands(commands, options))
+    );
+  }
+
+  async clearDisplay(region?: { x: number; y: number; width: number; height: number }): Promise<void> {
+    await Promise.all(this.targetArms({}).map(arm => this.arms[arm].clearDisplay(region)));
+  }
+
+  async setBrightness(level: number, auto: boolean = false): Promise<void> {
+    // Both arms must match regardless of routing, or the image looks uneven
+    await Promise.all(this.connectedArms().map(arm => this.arms[arm].setBrightness(level, auto)));
+  }
+
+  async beginFrame(): Promise<void> {
+    await Promise.all(this.targetArms({}).map(arm => this.arms[arm].beginFrame()));
+  }
+
+  async commitFrame(): Promise<void> {
+    await Promise.all(this.targetArms({}).map(arm => this.arms[arm].commitFrame()));
+  }
+
+  /**
+   * Glasses seen in the current (or last) scan, strongest signal first
+   */
+  getDiscoveredDevices(): G2DeviceInfo[] {
+    return Array.from(this.discovered.entries())
+      .map(([glassesId, glasses]) => this.toGlassesInfo(glassesId, glasses))
+      .sort((a, b) => b.rssi - a.rssi);
+  }
+
+  /**
+   * Event listener registration
+   */
+  onDeviceDiscovered(callback: DeviceDiscoveryCallback): void {
+    this.deviceDiscoveryCallbacks.push(callback);
+  }
+
+  onConnectionStateChange(callback: ConnectionStateCallback): void {
+    this.connectionStateCallbacks.push(callback);
+  }
+
+  onArmStateChange(callback: ArmStateCallback): void {
+    this.armStateCallbacks.push(callback);
+  }
+
+  onError(callback: ErrorCallback): void {
+    this.errorCallbacks.push(callback);
+  }
+
+  onTouchBarEvent(callback: TouchBarEventCallback): void {
+    this.touchBarCallbacks.push(callback);
+  }
+
+  onBatteryLevelChange(callback: BatteryLevelCallback): void {
+    this.batteryCallbacks.push(callback);
+  }
+
+  onRadioStateChange(callback: RadioStateCallback): void {
+    this.radioStateCallbacks.push(callback);
+  }
+
+  /**
+   * Get combined connection state
+   */
+  getRadioState(): BLERadioState {
+    return this.scanner().getRadioState();
+  }
+
+  getConnectionState(): BLEConnectionState {
+    return this.connectionState;
+  }
+
+  /**
+   * Connection state of each arm in use (null for an arm the glasses don't have)
+   */
+  getArmStates(): Record<G2Arm, BLEConnectionState | null> {
+    return {
+      [G2Arm.LEFT]: this.isArmActive(G2Arm.LEFT) ? this.arms[G2Arm.LEFT].getConnectionState() : null,
+      [G2Arm.RIGHT]: this.isArmActive(G2Arm.RIGHT) ? this.arms[G2Arm.RIGHT].getConnectionState() : null,
+    };
+  }
+
+  /**
+   * True while at least one arm can take commands
+   */
+  isConnected(): boolean {
+    return this.connectedArms().length > 0;
+  }
+
+  getPendingWriteCount(): number {
+    return ARMS.reduce((count, arm) => count + this.arms[arm].getPendingWriteCount(), 0);
+  }
+
+  /**
+   * Arms currently taking commands
+   */
+  getConnectedArms(): G2Arm[] {
+    return this.connectedArms();
+  }
+
+  /**
+   * Tracer shared by both arms
+   */
+  getTracer(): ProtocolTracer {
+    return this.tracer;
+  }
+
+  /**
+   * Manager of one arm, for services that talk to each peripheral on its own (firmware updates)
+   */
+  getArmManager(arm: G2Arm): G2BLEManager {
+    return this.arms[arm];
+  }
+
+  /**
+   * Arm Helpers
+   */
+
+  private attachArm(arm: G2Arm): void {
+    const manager = this.arms[arm];
+
+    manager.onConnectionStateChange(state => {
+      if (this.isArmActive(arm)) {
+        this.armStateCallbacks.forEach(cb => cb(arm, state));
+      }
+      this.updateConnectionState();
+    });
+
+    manager.onDeviceDiscovered(device => this.handleArmDiscovered(device));
+    manager.onError(error => this.handleArmError(arm, error));
+    // Each arm of dual-arm glasses has its own TouchBar
+    manager.onTouchBarEvent(event =>
+      this.notifyTouchBarEvent(event.arm === null && this.activeArms.length > 1 ? { ...event, arm } : event)
+    );
+    manager.onBatteryLevelChange(level => this.batteryCallbacks.forEach(cb => cb(level, arm)));
+  }
+
+  private handleArmDiscovered(device: G2DeviceInfo): void {
+    const { glassesId, glasses } = this.groupArm(device);
+    this.notifyDeviceDiscovered(this.toGlassesInfo(glassesId, glasses));
+
+    this.armDiscoveryWaiter?.(glassesId);
+  }
+
+  /**
+   * File an arm under the glasses it belongs to; returns the glasses and their id
+   */
+  private groupArm(device: G2DeviceInfo): { glassesId: string; glasses: DiscoveredGlasses } {
+    const match = ARM_NAME_PATTERN.exec(device.name);
+    const glassesId = match ? match[1] : device.id;
+
+    // The side byte in the manufacturer data wins over the name marker
+    const advertisedArm = device.advertisement?.arm;
+    const arm = advertisedArm || (match && match[2] === 'R' ? G2Arm.RIGHT : G2Arm.LEFT);
+
+    const glasses = this.discovered.get(glassesId) || {
+      name: match ? match[1] : device.name,
+      dualArm: match !== null,
+      arms: {},
+    };
+    glasses.arms[arm] = device;
+    this.discovered.set(glassesId, glasses);
+
+    return { glassesId, glasses };
+  }
+
+  /**
+   * Reconnect to glasses whose arms the OS kept connected across an app relaunch
+   */
+  private restoreSession(devices: TransportConnection[]): void {
+    if (devices.length === 0 || this.activeArms.length > 0 || this.connecting) {
+      return;
+    }
+
+    const glassesIds = devices.map(device =>
+      this.groupArm({
+        id: device.id,
+        name: device.name || device.id,
+        rssi: device.rssi ?? 0,
+        isConnected: true,
+        lastSeen: new Date(),
+      }).glassesId
+    );
+
+    console.log(`Restoring session with ${glassesIds[0]}`);
+    this.connect(glassesIds[0]).catch(error => console.error('Failed to restore session:', error));
+  }
+
+  /**
+   * One device entry for the glasses; the weakest arm stands for the pair
+   */
+  private toGlassesInfo(glassesId: string, glasses: DiscoveredGlasses): G2DeviceInfo {
+    const seen = Object.values(glasses.arms) as G2DeviceInfo[];
+    const batteryLevels = seen
+      .map(info => info.batteryLevel)
+      .filter((level): level is number => level !== undefined);
+
+    return {
+      id: glassesId,
+      name: glasses.name,
+      rssi: Math.min(...seen.map(info => info.rssi)),
+      isConnected: glassesId === this.connectedGlasses?.id,
+      lastSeen: new Date(Math.max(...seen.map(info => info.lastSeen.getTime()))),
+      batteryLevel: batteryLevels.length > 0 ? Math.min(...batteryLevels) : undefined,
+      firmwareVersion: seen[0].firmwareVersion,
+      arms: {
+        [G2Arm.LEFT]: glasses.arms[G2Arm.LEFT]?.id,
+        [G2Arm.RIGHT]: glasses.arms[G2Arm.RIGHT]?.id,
+      },
+    };
+  }
+
+  private handleArmError(arm: G2Arm, error: BLEError | Error): void {
+    // Radio errors come from every arm at once; report them once, for the glasses
+    if ('type' in error && error.type === BLEErrorType.BLUETOOTH_DISABLED) {
+      if (this.arms[arm] === this.scanner()) {
+        this.errorCallbacks.forEach(cb => cb(error));
+      }
+      return;
+    }
+
+    const armError: BLEError = 'type' in error
+      ? { ...error, arm, message: `${arm} arm: ${error.message}` }
+      : {
+          type: BLEErrorType.UNKNOWN,
+          message: `${arm} arm: ${error.message}`,
+          originalError: error,
+          timestamp: new Date(),
+          arm,
+        };
+
+    this.errorCallbacks.forEach(cb => cb(armError));
+  }
+
+  /**
+   * Scan until the missing arm of a pair is seen, or the discovery window closes
+   */
+  private waitForSecondArm(glassesId: string): Promise<void> {
+    return new Promise(resolve => {
+      const finish = () => {
+        clearTimeout(timer);
+        this.armDiscoveryWaiter = null;
+        this.stopScan();
+        resolve();
+      };
+
+      const timer = setTimeout(finish, this.config.armDiscoveryTimeout);
+
+      this.armDiscoveryWaiter = (seenId: string) => {
+        const glasses = this.discovered.get(seenId);
+        if (seenId === glassesId && glasses?.arms[G2Arm.LEFT] && glasses.arms[G2Arm.RIGHT]) {
+          finish();
+        }
+      };
+
+      this.scanner().startScan({ timeout: this.config.armDiscoveryTimeout }).catch(finish);
+    });
+  }
+
+  /**
+   * Arms a command goes to
+   */
+  private targetArms(options: WriteOptions): G2Arm[] {
+    const connected = this.connectedArms();
+
+    let targets: G2Arm[];
+    if (options.arms) {
+      targets = options.arms.filter(arm => connected.includes(arm));
+    } else if (this.config.routing === ArmRoutingMode.SPLIT && this.activeArms.length > 1) {
+      targets = connected.includes(this.config.primaryArm) ? [this.config.primaryArm] : [];
+    } else {
+      // MIRROR degrades to whichever arm is still up
+      targets = connected;
+    }
+
+    if (targets.length === 0) {
+      throw new Error('No device connected');
+    }
+    return targets;
+  }
+
+  private connectedArms(): G2Arm[] {
+    return this.activeArms.filter(arm => this.arms[arm].isConnected());
+  }
+
+  private readArm(): G2Arm {
+    const connected = this.connectedArms();
+    return connected.includes(this.config.primaryArm)
+      ? this.config.primaryArm
+      : connected[0] || this.config.primaryArm;
+  }
+
+  /**
+   * Connected arms with a settings characteristic, primary arm first
+   */
+  private settingsArms(): G2Arm[] {
+    const primary = this.readArm();
+    return this.connectedArms()
+      .filter(arm => this.arms[arm].supportsCharacteristic(SETTINGS_ROUTE))
+      .sort((a, b) => (a === primary ? -1 : b === primary ? 1 : 0));
+  }
+
+  private isArmActive(arm: G2Arm): boolean {
+    return this.activeArms.includes(arm);
+  }
+
+  /**
+   * Scanning runs on the left arm's manager; discoveries are grouped by the session
+   */
+  private scanner(): G2BLEManager {
+    return this.arms[G2Arm.LEFT];
+  }
+
+  /**
+   * Derive the combined state from the arms in use
+   */
+  private updateConnectionState(): void {
+    const states = (this.activeArms.length > 0 ? this.activeArms : [G2Arm.LEFT])
+      .map(arm => this.arms[arm].getConnectionState());
+
+    let combined: BLEConnectionState;
+    const connectedCount = states.filter(state => state === BLEConnectionState.CONNECTED).length;
+
+    if (connectedCount === states.length) {
+      combined = BLEConnectionState.CONNECTED;
+    } else if (connectedCount > 0) {
+      combined = this.connecting
+        ? BLEConnectionState.CONNECTING
+        : BLEConnectionState.PARTIALLY_CONNECTED;
+    } else if (states.includes(BLEConnectionState.RECONNECTING)) {
+      combined = BLEConnectionState.RECONNECTING;
+    } else if (states.includes(BLEConnectionState.CONNECTING)) {
+      combined = BLEConnectionState.CONNECTING;
+    } else if (states.includes(BLEConnectionState.SCANNING)) {
+      combined = BLEConnectionState.SCANNING;
+    } else if (states.includes(BLEConnectionState.ERROR)) {
+      combined = BLEConnectionState.ERROR;
+    } else {
+      combined = BLEConnectionState.DISCONNECTED;
+    }
+
+    if (combined !== this.connectionState) {
+      this.connectionState = combined;
+      this.connectionStateCallbacks.forEach(cb => cb(combined));
+    }
+  }
+
+  private notifyDeviceDiscovered(device: G2DeviceInfo): void {
+    this.deviceDiscoveryCallbacks.forEach(cb => cb(device));
+  }
+
+  private notifyTouchBarEvent(event: TouchBarEvent): void {
+    this.touchBarCallbacks.forEach(cb => cb(event));
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const g2Session = new G2Session();
@@ -0,0 +1,1095 @@
+/**
+ * G2 Simulator
+ * In-process software G2 peripheral and matching IBLETransport, so the
+ * BLE pipeline can run without glasses (Jest, Linux CI, demos)
+ *
+ * The peripheral plays the glasses' side of the link: it reassembles
+ * fragments, unwraps envelopes, decodes frames with the real protocol
+ * decoder and draws into a 640×200 1-bit framebuffer.
+ */
+
+import {
+  IBLETransport,
+  BLERadioState,
+  BLEScanOptions,
+  BLEConnectionOptions,
+  CharacteristicRoute,
+  DisplayCommand,
+  DisplayCommandType,
+  TextDisplayCommand,
+  GraphicsDisplayCommand,
+  TextAlignment,
+  RefreshMode,
+  NotificationType,
+  NackReason,
+  TouchBarEvent,
+  TouchBarEventType,
+  G2SimulatorConfig,
+  SimulatedTextRun,
+  TransportConnection,
+  TransportService,
+  TransportSubscription,
+  TransportScanListener,
+  TransportNotificationListener,
+  TransportDisconnectListener,
+  RadioStateListener,
+  StateRestoredListener,
+  G2Feature,
+  G2Settings,
+  G2Language,
+  ProtocolDefinition,
+  G2_UUIDS,
+  G2_MANUFACTURER_DATA,
+} from '@/types/ble.types';
+import { DISPLAY_DIMENSIONS } from '@/types/display.types';
+import { DfuOpcode, DfuStatus, FirmwareVersion } from '@/types/dfu.types';
+import { g2Encoder, G2PacketReassembler } from './G2Protocol';
+import { PROTOCOL_V2, protocolRegistry } from './ProtocolRegistry';
+import { dfuProtocol, crc32 } from '../dfu/DfuProtocol';
+
+/**
+ * GATT table of a current-firmware G2
+ */
+const DEFAULT_SERVICES: TransportService[] = [
+  {
+    uuid: G2_UUIDS.DEVICE_INFO_SERVICE,
+    characteristicUUIDs: [G2_UUIDS.BATTERY_CHARACTERISTIC, G2_UUIDS.FIRMWARE_CHARACTERISTIC],
+  },
+  {
+    uuid: G2_UUIDS.DISPLAY_SERVICE,
+    characteristicUUIDs: [
+      G2_UUIDS.TEXT_CHARACTERISTIC,
+      G2_UUIDS.GRAPHICS_CHARACTERISTIC,
+      G2_UUIDS.CLEAR_CHARACTERISTIC,
+      G2_UUIDS.STATUS_CHARACTERISTIC,
+      G2_UUIDS.CAPABILITIES_CHARACTERISTIC,
+    ],
+  },
+  {
+    uuid: G2_UUIDS.INPUT_SERVICE,
+    characteristicUUIDs: [G2_UUIDS.TOUCHBAR_CHARACTERISTIC],
+  },
+  {
+    uuid: G2_UUIDS.CONFIG_SERVICE,
+    characteristicUUIDs: [G2_UUIDS.BRIGHTNESS_CHARACTERISTIC, G2_UUIDS.SETTINGS_CHARACTERISTIC],
+  },
+  {
+    uuid: G2_UUIDS.DFU_SERVICE,
+    characteristicUUIDs: [G2_UUIDS.DFU_CONTROL_CHARACTERISTIC, G2_UUIDS.DFU_DATA_CHARACTERISTIC],
+  },
+];
+
+const DEFAULT_SIMULATOR_CONFIG: G2SimulatorConfig = {
+  id: 'G2-SIMULATOR',
+  name: 'Even G2 Simulator',
+  rssi: -50,
+  mtu: 247,
+  batteryLevel: 100,
+  firmwareVersion: '2.0.0-sim',
+  arm: null,
+  services: DEFAULT_SERVICES,
+  capabilities: { protocolVersion: PROTOCOL_V2.version, ...PROTOCOL_V2.defaults },
+  settings: {
+    displayTimeout: 30,
+    headUpAngle: 20,
+    wearDetection: true,
+    language: G2Language.ENGLISH,
+  },
+};
+
+const FRAMEBUFFER_STRIDE = DISPLAY_DIMENSIONS.WIDTH / 8;
+const DFU_CAPACITY = 4 * 1024 * 1024; // bytes of flash available for a staged image
+const GLYPH_ASPECT = 0.6; // glyph cell width relative to font size
+
+/**
+ * Deliver on a later microtask, like a real radio would, without needing timers
+ */
+function deferred(callback: () => void): void {
+  Promise.resolve().then(callback);
+}
+
+/**
+ * Firmware image being received over DFU
+ * Kept across disconnects so an interrupted transfer can resume
+ */
+interface StagedFirmware {
+  size: number;
+  crc32: number;
+  version: FirmwareVersion;
+  data: Uint8Array;
+  offset: number;
+  validated: boolean;
+}
+
+/**
+ * Software G2 peripheral
+ */
+export class G2Simulator {
+  readonly config: G2SimulatorConfig;
+
+  private connected = false;
+  private frontBuffer: Uint8Array = new Uint8Array(FRAMEBUFFER_STRIDE * DISPLAY_DIMENSIONS.HEIGHT);
+  private backBuffer: Uint8Array | null = null;
+  private frontRuns: SimulatedTextRun[] = [];
+  private backRuns: SimulatedTextRun[] = [];
+  private brightness = { level: 50, auto: false };
+  private settings: G2Settings;
+  private batteryLevel: number;
+  private firmwareVersion: string;
+  private rssi: number;
+  private unresponsive = false;
+  private refreshCount = 0;
+  private lastSequence: number | null = null;
+  private pendingRejection: NackReason | null = null;
+  private ackDelay: number | null = null;
+  private corruptCommands = 0;
+  private stagedFirmware: StagedFirmware | null = null;
+  private corruptDfuChunks = 0;
+  private dfuDropOffset: number | null = null;
+  private receivedCommands: DisplayCommand[] = [];
+  private reassemblers = new Map<string, G2PacketReassembler>();
+  private subscribers = new Map<string, TransportNotificationListener[]>();
+  private disconnectListeners: TransportDisconnectListener[] = [];
+  private protocol: ProtocolDefinition;
+
+  constructor(config: Partial<G2SimulatorConfig> = {}) {
+    this.config = { ...DEFAULT_SIMULATOR_CONFIG, ...config };
+    this.batteryLevel = this.config.batteryLevel;
+    this.firmwareVersion = this.config.firmwareVersion;
+    this.rssi = this.config.rssi;
+    this.settings = { ...this.config.settings };
+    // Firmware without the descriptor predates versions that need one
+    const descriptor = this.hasCharacteristic({
+      serviceUUID: G2_UUIDS.DISPLAY_SERVICE,
+      characteristicUUID: G2_UUIDS.CAPABILITIES_CHARACTERISTIC,
+    }) ? this.config.capabilities : null;
+    this.protocol = protocolRegistry.negotiate(this.firmwareVersion, descriptor).protocol;
+  }
+
+  /**
+   * Link lifecycle (driven by G2SimulatorTransport)
+   */
+
+  connect(): void {
+    this.connected = true;
+    this.unresponsive = false;
+    this.lastSequence = null;
+    this.reassemblers.clear();
+  }
+
+  disconnect(): void {
+    this.connected = false;
+    this.subscribers.clear();
+    this.disconnectListeners = [];
+    this.reassemblers.clear();
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  hasCharacteristic(route: CharacteristicRoute): boolean {
+    return this.config.services.some(
+      service =>
+        service.uuid === route.serviceUUID &&
+        service.characteristicUUIDs.includes(route.characteristicUUID)
+    );
+  }
+
+  /**
+   * Handle a GATT write (one link fragment)
+   */
+  write(route: CharacteristicRoute, data: Uint8Array): void {
+    this.assertCharacteristic(route);
+    
+    if (this.unresponsive) {
+      return;
+    }
+    
+    if (route.serviceUUID === G2_UUIDS.DFU_SERVICE) {
+      this.handleDfuWrite(route, data);
+      return;
+    }
+    
+    if (route.characteristicUUID === G2_UUIDS.SETTINGS_CHARACTERISTIC) {
+      this.handleSettingsWrite(data);
+      return;
+    }
+    
+    const key = this.routeKey(route);
+    let reassembler = this.reassemblers.get(key);
+    if (!reassembler) {
+      reassembler = new G2PacketReassembler();
+      this.reassemblers.set(key, reassembler);
+    }
+    
+    const message = reassembler.push(data);
+    if (message) {
+      this.handleEnvelope(message);
+    }
+  }
+
+  /**
+   * Handle a GATT read
+   */
+  read(route: CharacteristicRoute): Uint8Array {
+    this.assertCharacteristic(route);
+    this.assertResponsive();
+    
+    switch (route.characteristicUUID) {
+      case G2_UUIDS.BATTERY_CHARACTERISTIC:
+        return new Uint8Array([this.batteryLevel]);
+      case G2_UUIDS.FIRMWARE_CHARACTERISTIC:
+        return new TextEncoder().encode(this.firmwareVersion);
+      case G2_UUIDS.BRIGHTNESS_CHARACTERISTIC:
+        return new Uint8Array([this.brightness.level, this.brightness.auto ? 0x01 : 0x00]);
+      case G2_UUIDS.CAPABILITIES_CHARACTERISTIC:
+        return g2Encoder.encodeCapabilities(this.config.capabilities);
+      case G2_UUIDS.SETTINGS_CHARACTERISTIC:
+        return this.protocol.encoder.encodeSettings(this.settings);
+      default:
+        return new Uint8Array(0);
+    }
+  }
+
+  /**
+   * Manufacturer data included in scan results
+   */
+  getManufacturerData(): Uint8Array {
+    return g2Encoder.encodeManufacturerData({
+      companyId: G2_MANUFACTURER_DATA.COMPANY_ID,
+      model: G2_MANUFACTURER_DATA.MODEL_G2,
+      arm: this.config.arm,
+      firmwareVersion: this.firmwareVersion,
+      batteryLevel: this.batteryLevel,
+      pairingMode: !this.connected,
+    });
+  }
+
+  readRssi(): number {
+    this.assertResponsive();
+    return this.rssi;
+  }
+
+  subscribe(route: CharacteristicRoute, listener: TransportNotificationListener): TransportSubscription {
+    this.assertCharacteristic(route);
+    
+    const key = this.routeKey(route);
+    const listeners = this.subscribers.get(key) || [];
+    listeners.push(listener);
+    this.subscribers.set(key, listeners);
+    
+    return {
+      remove: () => {
+        const current = this.subscribers.get(key) || [];
+        this.subscribers.set(key, current.filter(cb => cb !== listener));
+      },
+    };
+  }
+
+  onDisconnected(listener: TransportDisconnectListener): TransportSubscription {
+    this.disconnectListeners.push(listener);
+    
+    return {
+      remove: () => {
+        this.disconnectListeners = this.disconnectListeners.filter(cb => cb !== listener);
+      },
+    };
+  }
+
+  /**
+   * Fault and input injection
+   */
+
+  injectTouchBarEvent(
+    type: TouchBarEventType,
+    details: Partial<Pick<TouchBarEvent, 'arm' | 'duration' | 'velocity'>> = {}
+  ): void {
+    this.injectTouchBarEvents([{ type, ...details }]);
+  }
+
+  /**
+   * Several gestures in one notification, as firmware batches them
+   */
+  injectTouchBarEvents(
+    events: Array<Pick<TouchBarEvent, 'type'> & Partial<Pick<TouchBarEvent, 'arm' | 'duration' | 'velocity'>>>
+  ): void {
+    const timestamp = new Date();
+    
+    this.notify(
+      { serviceUUID: G2_UUIDS.INPUT_SERVICE, characteristicUUID: G2_UUIDS.TOUCHBAR_CHARACTERISTIC },
+      this.protocol.encoder.encodeNotification({
+        type: NotificationType.TOUCHBAR,
+        events: events.map(event => ({ code: 0, arm: null, ...event, timestamp })),
+      })
+    );
+  }
+
+  setBatteryLevel(level: number): void {
+    this.batteryLevel = Math.max(0, Math.min(100, Math.round(level)));
+    this.notify(
+      { serviceUUID: G2_UUIDS.DEVICE_INFO_SERVICE, characteristicUUID: G2_UUIDS.BATTERY_CHARACTERISTIC },
+      new Uint8Array([this.batteryLevel])
+    );
+  }
+
+  setRssi(rssi: number): void {
+    this.rssi = rssi;
+  }
+
+  /**
+   * Keep the link up but stop answering writes and reads (a zombie connection)
+   * Cleared by the next connect
+   */
+  simulateUnresponsive(unresponsive: boolean = true): void {
+    this.unresponsive = unresponsive;
+  }
+
+  /**
+   * Drop the link from the peripheral side (out of range, powered off)
+   */
+  simulateDisconnect(error: Error | null = new Error('Simulated link loss')): void {
+    if (!this.connected) {
+      return;
+    }
+    
+    const listeners = this.disconnectListeners;
+    this.disconnect();
+    deferred(() => listeners.forEach(cb => cb(error)));
+  }
+
+  /**
+   * NACK the next complete command instead of applying it
+   */
+  rejectNextCommand(reason: NackReason = NackReason.BUSY): void {
+    this.pendingRejection = reason;
+  }
+
+  /**
+   * Apply the next command but hold its ACK back for ms (one-shot),
+   * so it can arrive after the app has given up on it
+   */
+  delayNextAck(ms: number): void {
+    this.ackDelay = ms;
+  }
+
+  /**
+   * Swap two payload bytes of the next command frames as they arrive,
+   * an error the v1 XOR checksum can't detect
+   */
+  corruptNextCommands(count: number = 1): void {
+    this.corruptCommands = count;
+  }
+
+  /**
+   * Treat the next DFU chunks as if they arrived corrupted
+   */
+  corruptNextDfuChunks(count: number = 1): void {
+    this.corruptDfuChunks = count;
+  }
+
+  /**
+   * Drop the link once the staged image reaches offset (one-shot)
+   */
+  dropLinkDuringDfu(offset: number): void {
+    this.dfuDropOffset = offset;
+  }
+
+  /**
+   * Inspection
+   */
+
+  getFramebuffer(): Uint8Array {
+    return this.frontBuffer.slice();
+  }
+
+  getPixel(x: number, y: number): boolean {
+    return this.readPixel(this.frontBuffer, x, y);
+  }
+
+  getTextRuns(): SimulatedTextRun[] {
+    return [...this.frontRuns];
+  }
+
+  getVisibleText(): string[] {
+    return this.frontRuns.map(run => run.text);
+  }
+
+  getBrightness(): { level: number; auto: boolean } {
+    return { ...this.brightness };
+  }
+
+  getSettings(): G2Settings {
+    return { ...this.settings };
+  }
+
+  getBatteryLevel(): number {
+    return this.batteryLevel;
+  }
+
+  getFirmwareVersion(): string {
+    return this.firmwareVersion;
+  }
+
+  /**
+   * Bytes of the staged firmware image received so far (null when nothing is staged)
+   */
+  getDfuOffset(): number | null {
+    return this.stagedFirmware ? this.stagedFirmware.offset : null;
+  }
+
+  getRssi(): number {
+    return this.rssi;
+  }
+
+  getRefreshCount(): number {
+    return this.refreshCount;
+  }
+
+  getReceivedCommands(): DisplayCommand[] {
+    return [...this.receivedCommands];
+  }
+
+  /**
+   * Render the framebuffer as text art ('#' lit, '.' dark), for debugging failed tests
+   */
+  toAscii(region = { x: 0, y: 0, width: DISPLAY_DIMENSIONS.WIDTH, height: DISPLAY_DIMENSIONS.HEIGHT }): string {
+    const rows: string[] = [];
+    for (let y = region.y; y < region.y + region.height; y++) {
+      let row = '';
+      for (let x = region.x; x < region.x + region.width; x++) {
+        row += this.getPixel(x, y) ? '#' : '.';
+      }
+      rows.push(row);
+    }
+    return rows.join('\n');
+  }
+
+  /**
+   * Command handling
+   */
+
+  private handleEnvelope(message: Uint8Array): void {
+    let sequence: number;
+    let command: DisplayCommand;
+    
+    try {
+      const envelope = this.protocol.decoder.decodeEnvelope(message);
+      sequence = envelope.sequence;
+      
+      if (this.corruptCommands > 0) {
+        this.corruptCommands--;
+        this.swapPayloadBytes(envelope.frame);
+      }
+      
+      if (!this.protocol.decoder.validateChecksum(envelope.frame)) {
+        this.sendNack(sequence, NackReason.CHECKSUM_MISMATCH);
+        return;
+      }
+      
+      command = this.protocol.decoder.decodeCommand(envelope.frame);
+    } catch (error) {
+      console.warn('G2 simulator rejected frame:', error);
+      if (message.length >= 2) {
+        this.sendNack(message[0] | (message[1] << 8), NackReason.INVALID_COMMAND);
+      }
+      return;
+    }
+    
+    if (this.pendingRejection !== null) {
+      this.sendNack(sequence, this.pendingRejection);
+      this.pendingRejection = null;
+      return;
+    }
+    
+    if (!this.supportsCommand(command)) {
+      this.sendNack(sequence, NackReason.INVALID_COMMAND);
+      return;
+    }
+    
+    // Retransmission of a command already applied: acknowledge again, don't redraw
+    if (sequence !== this.lastSequence) {
+      this.lastSequence = sequence;
+      this.applyCommand(command);
+    }
+    
+    const ack = this.protocol.encoder.encodeNotification({
+      type: NotificationType.ACK,
+      sequence,
+    });
+    
+    if (this.ackDelay !== null) {
+      setTimeout(() => this.notify(this.statusRoute(), ack), this.ackDelay);
+      this.ackDelay = null;
+      return;
+    }
+    
+    this.notify(this.statusRoute(), ack);
+  }
+
+  /**
+   * Whether the configured capabilities cover a command, as firmware would check
+   */
+  private supportsCommand(command: DisplayCommand): boolean {
+    const { features, minFontSize, maxFontSize } = this.config.capabilities;
+    const has = (feature: G2Feature) => (features & feature) !== 0;
+    
+    switch (command.type) {
+      case DisplayCommandType.TEXT:
+        if (
+          command.fontSize !== undefined &&
+          (command.fontSize < minFontSize || command.fontSize > maxFontSize)
+        ) {
+          return false;
+        }
+        return has(G2Feature.TEXT_STYLES) || !(command.bold || command.inverted || command.underline);
+      case DisplayCommandType.CLEAR:
+        return !command.region || has(G2Feature.CLEAR_REGION);
+      case DisplayCommandType.GRAPHICS:
+        return has(G2Feature.GRAPHICS);
+      case DisplayCommandType.BRIGHTNESS:
+        return has(G2Feature.BRIGHTNESS);
+      case DisplayCommandType.REFRESH:
+        return has(G2Feature.REFRESH);
+      case DisplayCommandType.PING:
+        return has(G2Feature.PING);
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Swap the first pair of differing payload bytes in place
+   */
+  private swapPayloadBytes(frame: Uint8Array): void {
+    const payloadEnd = 4 + (frame[2] | (frame[3] << 8));
+    
+    for (let i = 4; i + 1 < payloadEnd; i++) {
+      if (frame[i] !== frame[i + 1]) {
+        [frame[i], frame[i + 1]] = [frame[i + 1], frame[i]];
+        return;
+      }
+    }
+  }
+
+  private applyCommand(command: DisplayCommand): void {
+    this.receivedCommands.push(command);
+    
+    const target = this.backBuffer || this.frontBuffer;
+    const deferredFrame = this.backBuffer !== null;
+    
+    switch (command.type) {
+      case DisplayCommandType.TEXT:
+        this.drawText(target, deferredFrame ? this.backRuns : this.frontRuns, command);
+        break;
+      case DisplayCommandType.CLEAR: {
+        const region = command.region || {
+          x: 0,
+          y: 0,
+          width: DISPLAY_DIMENSIONS.WIDTH,
+          height: DISPLAY_DIMENSIONS.HEIGHT,
+        };
+        this.fillRect(target, region.x, region.y, region.width, region.height, false);
+        
+        const keep = (run: SimulatedTextRun) => !this.overlaps(run, region);
+        if (deferredFrame) {
+          this.backRuns = this.backRuns.filter(keep);
+        } else {
+          this.frontRuns = this.frontRuns.filter(keep);
+        }
+        break;
+      }
+      case DisplayCommandType.GRAPHICS:
+        this.drawBitmap(target, command);
+        break;
+      case DisplayCommandType.BRIGHTNESS:
+        this.brightness = { level: command.level, auto: command.auto || false };
+        break;
+      case DisplayCommandType.REFRESH:
+        if (command.mode === RefreshMode.BEGIN_DEFERRED) {
+          this.backBuffer = this.frontBuffer.slice();
+          this.backRuns = [...this.frontRuns];
+        } else if (this.backBuffer) {
+          this.frontBuffer = this.backBuffer;
+          this.frontRuns = this.backRuns;
+          this.backBuffer = null;
+          this.backRuns = [];
+        }
+        this.refreshCount++;
+        break;
+    }
+  }
+
+  private drawText(buffer: Uint8Array, runs: SimulatedTextRun[], command: TextDisplayCommand): void {
+    const fontSize = command.fontSize || 18;
+    const glyphWidth = Math.max(1, Math.ceil(fontSize * GLYPH_ASPECT));
+    const areaWidth = command.maxWidth || DISPLAY_DIMENSIONS.WIDTH - command.x;
+    const fullWidth = command.text.length * glyphWidth;
+    const width = Math.min(fullWidth, areaWidth);
+    const height = fontSize;
+    
+    let x = command.x;
+    if (command.alignment === TextAlignment.CENTER) {
+      x += Math.floor((areaWidth - width) / 2);
+    } else if (command.alignment === TextAlignment.RIGHT) {
+      x += areaWidth - width;
+    }
+    
+    // Inverted text is dark glyphs on a lit box
+    if (command.inverted) {
+      this.fillRect(buffer, x, command.y, width, height, true);
+    }
+    
+    const visibleGlyphs = Math.floor(width / glyphWidth);
+    for (let i = 0; i < visibleGlyphs; i++) {
+      if (command.text[i] !== ' ') {
+        // One-pixel gap keeps adjacent glyph cells distinguishable
+        this.fillRect(buffer, x + i * glyphWidth, command.y, glyphWidth - 1, height, !command.inverted);
+      }
+    }
+    
+    if (command.underline) {
+      this.fillRect(buffer, x, command.y + height, width, 1, true);
+    }
+    
+    runs.push({
+      x,
+      y: command.y,
+      width,
+      height,
+      text: command.text,
+      fontSize,
+      bold: command.bold || false,
+      inverted: command.inverted || false,
+      underline: command.underline || false,
+    });
+  }
+
+  private drawBitmap(buffer: Uint8Array, command: GraphicsDisplayCommand): void {
+    const stride = Math.ceil(command.width / 8);
+    
+    for (let row = 0; row < command.height; row++) {
+      for (let col = 0; col < command.width; col++) {
+        const byte = command.data[row * stride + (col >> 3)] || 0;
+        const lit = (byte & (0x80 >> (col & 7))) !== 0;
+        this.writePixel(buffer, command.x + col, command.y + row, lit);
+      }
+    }
+  }
+
+  /**
+   * Framebuffer helpers (1 bit per pixel, MSB first, 1 = lit)
+   */
+
+  private fillRect(buffer: Uint8Array, x: number, y: number, width: number, height: number, lit: boolean): void {
+    for (let row = y; row < y + height; row++) {
+      for (let col = x; col < x + width; col++) {
+        this.writePixel(buffer, col, row, lit);
+      }
+    }
+  }
+
+  private writePixel(buffer: Uint8Array, x: number, y: number, lit: boolean): void {
+    if (x < 0 || y < 0 || x >= DISPLAY_DIMENSIONS.WIDTH || y >= DISPLAY_DIMENSIONS.HEIGHT) {
+      return;
+    }
+    
+    const index = y * FRAMEBUFFER_STRIDE + (x >> 3);
+    const mask = 0x80 >> (x & 7);
+    buffer[index] = lit ? buffer[index] | mask : buffer[index] & ~mask;
+  }
+
+  private readPixel(buffer: Uint8Array, x: number, y: number): boolean {
+    if (x < 0 || y < 0 || x >= DISPLAY_DIMENSIONS.WIDTH || y >= DISPLAY_DIMENSIONS.HEIGHT) {
+      return false;
+    }
+    
+    return (buffer[y * FRAMEBUFFER_STRIDE + (x >> 3)] & (0x80 >> (x & 7))) !== 0;
+  }
+
+  private overlaps(
+    run: SimulatedTextRun,
+    region: { x: number; y: number; width: number; height: number }
+  ): boolean {
+    return (
+      run.x < region.x + region.width &&
+      run.x + run.width > region.x &&
+      run.y < region.y + region.height &&
+      run.y + run.height > region.y
+    );
+  }
+
+  /**
+   * Notification helpers
+   */
+
+  /**
+   * Firmware update handling
+   */
+
+  private handleDfuWrite(route: CharacteristicRoute, data: Uint8Array): void {
+    if (route.characteristicUUID === G2_UUIDS.DFU_DATA_CHARACTERISTIC) {
+      this.handleDfuChunk(data);
+      return;
+    }
+    
+    const staged = this.stagedFirmware;
+    
+    switch (data[0]) {
+      case DfuOpcode.START: {
+        const { size, crc32: checksum, version } = dfuProtocol.decodeStart(data);
+        
+        if (size > DFU_CAPACITY) {
+          this.sendDfuResponse(DfuOpcode.START, DfuStatus.INSUFFICIENT_SPACE, 0);
+          return;
+        }
+        
+        // Same image as the one already staged: continue where it stopped
+        const resume = staged && staged.size === size && staged.crc32 === checksum;
+        this.stagedFirmware = resume ? staged : {
+          size,
+          crc32: checksum,
+          version,
+          data: new Uint8Array(size),
+          offset: 0,
+          validated: false,
+        };
+        this.sendDfuResponse(DfuOpcode.START, DfuStatus.SUCCESS, this.stagedFirmware.offset);
+        return;
+      }
+      case DfuOpcode.VALIDATE:
+        if (!staged || staged.offset < staged.size) {
+          this.sendDfuResponse(DfuOpcode.VALIDATE, DfuStatus.INVALID_STATE, staged?.offset || 0);
+          return;
+        }
+        
+        if (crc32(staged.data) !== staged.crc32) {
+          staged.offset = 0;
+          this.sendDfuResponse(DfuOpcode.VALIDATE, DfuStatus.CHECKSUM_ERROR, 0);
+          return;
+        }
+        
+        staged.validated = true;
+        this.sendDfuResponse(DfuOpcode.VALIDATE, DfuStatus.SUCCESS, staged.offset);
+        return;
+      case DfuOpcode.ACTIVATE:
+        if (!staged || !staged.validated) {
+          this.sendDfuResponse(DfuOpcode.ACTIVATE, DfuStatus.INVALID_STATE, staged?.offset || 0);
+          return;
+        }
+        
+        this.sendDfuResponse(DfuOpcode.ACTIVATE, DfuStatus.SUCCESS, staged.offset);
+        
+        // Reboot into the new image
+        this.firmwareVersion = dfuProtocol.formatVersion(staged.version);
+        this.stagedFirmware = null;
+        deferred(() => this.simulateDisconnect(new Error('Rebooting after firmware update')));
+        return;
+      case DfuOpcode.ABORT:
+        this.stagedFirmware = null;
+        this.sendDfuResponse(DfuOpcode.ABORT, DfuStatus.SUCCESS, 0);
+        return;
+      default:
+        this.sendDfuResponse(data[0], DfuStatus.INVALID_STATE, staged?.offset || 0);
+    }
+  }
+
+  private handleDfuChunk(data: Uint8Array): void {
+    const staged = this.stagedFirmware;
+    if (!staged) {
+      this.sendDfuResponse(DfuOpcode.DATA, DfuStatus.INVALID_STATE, 0);
+      return;
+    }
+    
+    const chunk = dfuProtocol.decodeChunk(data);
+    
+    if (!chunk.valid || this.corruptDfuChunks > 0) {
+      this.corruptDfuChunks = Math.max(0, this.corruptDfuChunks - 1);
+      this.sendDfuResponse(DfuOpcode.DATA, DfuStatus.CHECKSUM_ERROR, staged.offset);
+      return;
+    }
+    
+    if (chunk.offset !== staged.offset || staged.offset + chunk.bytes.length > staged.size) {
+      this.sendDfuResponse(DfuOpcode.DATA, DfuStatus.OFFSET_MISMATCH, staged.offset);
+      return;
+    }
+    
+    staged.data.set(chunk.bytes, staged.offset);
+    staged.offset += chunk.bytes.length;
+    staged.validated = false;
+    this.sendDfuResponse(DfuOpcode.DATA, DfuStatus.SUCCESS, staged.offset);
+    
+    if (this.dfuDropOffset !== null && staged.offset >= this.dfuDropOffset) {
+      this.dfuDropOffset = null;
+      this.simulateDisconnect(new Error('Simulated link loss during firmware update'));
+    }
+  }
+
+  private sendDfuResponse(opcode: DfuOpcode, status: DfuStatus, offset: number): void {
+    this.notify(
+      { serviceUUID: G2_UUIDS.DFU_SERVICE, characteristicUUID: G2_UUIDS.DFU_CONTROL_CHARACTERISTIC },
+      dfuProtocol.encodeResponse({ opcode, status, offset })
+    );
+  }
+
+  /**
+   * Apply a settings write all or nothing, like the firmware
+   * A write that fails throws, which the transport reports as a GATT error
+   */
+  private handleSettingsWrite(data: Uint8Array): void {
+    const changes = this.protocol.decoder.decodeSettings(data);
+    const updated: G2Settings = { ...this.settings };
+    
+    // Settings this firmware doesn't have are ignored
+    for (const key of Object.keys(changes) as (keyof G2Settings)[]) {
+      if (key in this.settings) {
+        Object.assign(updated, { [key]: changes[key] });
+      }
+    }
+    
+    // Re-encoding range-checks every value
+    this.protocol.encoder.encodeSettings(updated);
+    this.settings = updated;
+  }
+
+  private sendNack(sequence: number, reason: NackReason): void {
+    this.notify(this.statusRoute(), this.protocol.encoder.encodeNotification({
+      type: NotificationType.NACK,
+      sequence,
+      reason,
+    }));
+  }
+
+  private notify(route: CharacteristicRoute, data: Uint8Array): void {
+    if (!this.connected) {
+      return;
+    }
+    
+    const listeners = [...(this.subscribers.get(this.routeKey(route)) || [])];
+    deferred(() => listeners.forEach(cb => cb(null, data)));
+  }
+
+  private statusRoute(): CharacteristicRoute {
+    return {
+      serviceUUID: G2_UUIDS.DISPLAY_SERVICE,
+      characteristicUUID: G2_UUIDS.STATUS_CHARACTERISTIC,
+    };
+  }
+
+  private assertCharacteristic(route: CharacteristicRoute): void {
+    if (!this.connected) {
+      throw new Error('Simulated device is not connected');
+    }
+    if (!this.hasCharacteristic(route)) {
+      throw new Error(`Characteristic ${route.characteristicUUID} not found`);
+    }
+  }
+
+  private assertResponsive(): void {
+    if (this.unresponsive) {
+      throw new Error('Simulated device is not responding');
+    }
+  }
+
+  private routeKey(route: CharacteristicRoute): string {
+    return `${route.serviceUUID}/${route.characteristicUUID}`;
+  }
+}
+
+/**
+ * IBLETransport backed by one or more simulated peripherals
+ */
+export class G2SimulatorTransport implements IBLETransport {
+  private peripherals = new Map<string, G2Simulator>();
+  private radioState = BLERadioState.POWERED_ON;
+  private stateListeners: RadioStateListener[] = [];
+  private restoreListeners: StateRestoredListener[] = [];
+  private restoredDevices: TransportConnection[] | null = null;
+  private scanning = false;
+
+  constructor(peripherals: G2Simulator[] = [new G2Simulator()]) {
+    peripherals.forEach(peripheral => this.addPeripheral(peripheral));
+  }
+
+  addPeripheral(peripheral: G2Simulator): void {
+    this.peripherals.set(peripheral.config.id, peripheral);
+  }
+
+  getPeripheral(deviceId: string): G2Simulator | undefined {
+    return this.peripherals.get(deviceId);
+  }
+
+  /**
+   * Change the simulated adapter state; powering off drops every link
+   */
+  setRadioState(state: BLERadioState): void {
+    this.radioState = state;
+    
+    if (state !== BLERadioState.POWERED_ON) {
+      this.scanning = false;
+      this.peripherals.forEach(peripheral =>
+        peripheral.simulateDisconnect(new Error('Bluetooth powered off'))
+      );
+    }
+    
+    const listeners = [...this.stateListeners];
+    deferred(() => listeners.forEach(cb => cb(state)));
+  }
+
+  /**
+   * Act like iOS relaunching the app with these peripherals still connected
+   */
+  simulateStateRestoration(deviceIds: string[]): void {
+    this.restoredDevices = deviceIds.map(deviceId => {
+      const peripheral = this.getConnectable(deviceId);
+      peripheral.connect();
+      return this.toConnection(peripheral, peripheral.config.mtu);
+    });
+    
+    const devices = this.restoredDevices;
+    const listeners = [...this.restoreListeners];
+    deferred(() => listeners.forEach(cb => cb(devices)));
+  }
+
+  async requestPermissions(): Promise<boolean> {
+    return true;
+  }
+
+  async state(): Promise<BLERadioState> {
+    return this.radioState;
+  }
+
+  onStateChange(listener: RadioStateListener, emitCurrentState: boolean = false): TransportSubscription {
+    this.stateListeners.push(listener);
+    
+    if (emitCurrentState) {
+      const state = this.radioState;
+      deferred(() => listener(state));
+    }
+    
+    return {
+      remove: () => {
+        this.stateListeners = this.stateListeners.filter(cb => cb !== listener);
+      },
+    };
+  }
+
+  onStateRestored(listener: StateRestoredListener): TransportSubscription {
+    this.restoreListeners.push(listener);
+    
+    const restored = this.restoredDevices;
+    if (restored) {
+      deferred(() => listener(restored));
+    }
+    
+    return {
+      remove: () => {
+        this.restoreListeners = this.restoreListeners.filter(cb => cb !== listener);
+      },
+    };
+  }
+
+  startScan(serviceUUIDs: string[] | null, _options: BLEScanOptions, listener: TransportScanListener): void {
+    if (this.radioState !== BLERadioState.POWERED_ON) {
+      deferred(() => listener(new Error('Bluetooth is not powered on'), null));
+      return;
+    }
+    
+    this.scanning = true;
+    
+    this.peripherals.forEach(peripheral => {
+      const advertised = peripheral.config.services.map(service => service.uuid);
+      if (serviceUUIDs && !serviceUUIDs.some(uuid => advertised.includes(uuid))) {
+        return;
+      }
+      
+      deferred(() => {
+        if (!this.scanning) {
+          return;
+        }
+        listener(null, {
+          id: peripheral.config.id,
+          name: peripheral.config.name,
+          rssi: peripheral.getRssi(),
+          serviceUUIDs: advertised,
+          manufacturerData: peripheral.getManufacturerData(),
+        });
+      });
+    });
+  }
+
+  stopScan(): void {
+    this.scanning = false;
+  }
+
+  async connect(deviceId: string, options: BLEConnectionOptions): Promise<TransportConnection> {
+    const peripheral = this.getConnectable(deviceId);
+    peripheral.connect();
+    
+    return this.toConnection(peripheral, Math.min(options.requestMTU || 512, peripheral.config.mtu));
+  }
+
+  async discoverServices(deviceId: string): Promise<TransportService[]> {
+    return this.getConnected(deviceId).config.services.map(service => ({
+      uuid: service.uuid,
+      characteristicUUIDs: [...service.characteristicUUIDs],
+    }));
+  }
+
+  async cancelConnection(deviceId: string): Promise<void> {
+    this.peripherals.get(deviceId)?.disconnect();
+  }
+
+  onDisconnected(deviceId: string, listener: TransportDisconnectListener): TransportSubscription {
+    return this.getConnected(deviceId).onDisconnected(listener);
+  }
+
+  async readRSSI(deviceId: string): Promise<number> {
+    return this.getConnected(deviceId).readRssi();
+  }
+
+  async read(deviceId: string, route: CharacteristicRoute): Promise<Uint8Array> {
+    return this.getConnected(deviceId).read(route);
+  }
+
+  async write(deviceId: string, route: CharacteristicRoute, data: Uint8Array): Promise<void> {
+    this.getConnected(deviceId).write(route, data);
+  }
+
+  monitor(
+    deviceId: string,
+    route: CharacteristicRoute,
+    listener: TransportNotificationListener
+  ): TransportSubscription {
+    return this.getConnected(deviceId).subscribe(route, listener);
+  }
+
+  private getConnectable(deviceId: string): G2Simulator {
+    if (this.radioState !== BLERadioState.POWERED_ON) {
+      throw new Error('Bluetooth is not powered on');
+    }
+    
+    const peripheral = this.peripherals.get(deviceId);
+    if (!peripheral) {
+      throw new Error(`Device ${deviceId} not found`);
+    }
+    return peripheral;
+  }
+
+  private toConnection(peripheral: G2Simulator, mtu: number): TransportConnection {
+    return {
+      id: peripheral.config.id,
+      name: peripheral.config.name,
+      rssi: peripheral.getRssi(),
+      mtu,
+    };
+  }
+
+  private getConnected(deviceId: string): G2Simulator {
+    const peripheral = this.peripherals.get(deviceId);
+    if (!peripheral || !peripheral.isConnected()) {
+      throw new Error(`Device ${deviceId} is not connected`);
+    }
+    return peripheral;
+  }
+}
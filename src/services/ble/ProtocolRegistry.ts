@@ -0,0 +1,181 @@
+/**
+ * Protocol Registry
+ * Known G2 protocol versions and the negotiation that picks one per connection
+ *
+ * Firmware with a capabilities descriptor declares its protocol version and
+ * features. Older firmware is matched on its version string against versions
+ * that name a minimum firmware, and assumed to support everything that
+ * version defines.
+ */
+
+import {
+  ChecksumType,
+  G2CapabilitiesDescriptor,
+  G2Feature,
+  NegotiatedProtocol,
+  ProtocolDefinition,
+} from '@/types/ble.types';
+import { g2Encoder, g2Decoder, G2ProtocolEncoder, G2ProtocolDecoder } from './G2Protocol';
+
+/**
+ * Protocol v1
+ * The original frame format, spoken by every G2 firmware
+ */
+export const PROTOCOL_V1: ProtocolDefinition = {
+  version: 1,
+  name: 'G2 v1',
+  encoder: g2Encoder,
+  decoder: g2Decoder,
+  defaults: {
+    features:
+      G2Feature.TEXT_STYLES |
+      G2Feature.GRAPHICS |
+      G2Feature.REFRESH |
+      G2Feature.PING |
+      G2Feature.CLEAR_REGION |
+      G2Feature.BRIGHTNESS,
+    minFontSize: 14,
+    maxFontSize: 32,
+    maxPayloadSize: 512,
+  },
+};
+
+/**
+ * Protocol v2
+ * v1 frames with a CRC-16/CCITT trailer in place of the XOR byte, which
+ * catches the byte swaps and multi-bit errors the XOR lets through
+ * Only used when the capabilities descriptor declares it: guessing wrong from
+ * the firmware version would get every frame rejected
+ */
+export const PROTOCOL_V2: ProtocolDefinition = {
+  version: 2,
+  name: 'G2 v2',
+  encoder: new G2ProtocolEncoder(ChecksumType.CRC16_CCITT),
+  decoder: new G2ProtocolDecoder(ChecksumType.CRC16_CCITT),
+  defaults: PROTOCOL_V1.defaults,
+};
+
+/**
+ * Protocol Registry Implementation
+ */
+export class ProtocolRegistry {
+  private protocols = new Map<number, ProtocolDefinition>();
+
+  constructor(protocols: ProtocolDefinition[] = [PROTOCOL_V1, PROTOCOL_V2]) {
+    protocols.forEach(protocol => this.register(protocol));
+  }
+
+  /**
+   * Add a protocol version, replacing any earlier definition of it
+   */
+  register(protocol: ProtocolDefinition): void {
+    this.protocols.set(protocol.version, protocol);
+  }
+
+  get(version: number): ProtocolDefinition | undefined {
+    return this.protocols.get(version);
+  }
+
+  /**
+   * Registered versions, newest first
+   */
+  getVersions(): number[] {
+    return this.getProtocols().map(protocol => protocol.version);
+  }
+
+  /**
+   * Oldest registered version, spoken before negotiation and as a last resort
+   */
+  getBaseline(): ProtocolDefinition {
+    const protocols = this.getProtocols();
+    if (protocols.length === 0) {
+      throw new Error('No protocol versions registered');
+    }
+    return protocols[protocols.length - 1];
+  }
+
+  /**
+   * Pick the protocol for a connection
+   * A descriptor selects the newest registered version it allows; without
+   * one, the newest version whose minimum firmware is met, else the baseline
+   */
+  negotiate(firmwareVersion: string | null, descriptor: G2CapabilitiesDescriptor | null): NegotiatedProtocol {
+    const candidates = this.getProtocols();
+
+    if (descriptor) {
+      const protocol =
+        candidates.find(candidate => candidate.version <= descriptor.protocolVersion) ||
+        this.getBaseline();
+
+      if (protocol.version !== descriptor.protocolVersion) {
+        console.warn(
+          `Device speaks protocol v${descriptor.protocolVersion}, falling back to v${protocol.version}`
+        );
+      }
+
+      return {
+        protocol,
+        capabilities: {
+          ...descriptor,
+          protocolVersion: protocol.version,
+          firmwareVersion,
+          // Features newer than the chosen version can't be encoded anyway
+          features: descriptor.features & protocol.defaults.features,
+          source: 'descriptor',
+        },
+      };
+    }
+
+    const protocol =
+      candidates.find(candidate =>
+        candidate.minFirmware !== undefined &&
+        firmwareVersion !== null &&
+        this.compareFirmware(firmwareVersion, candidate.minFirmware) >= 0
+      ) || this.getBaseline();
+
+    return {
+      protocol,
+      capabilities: {
+        ...protocol.defaults,
+        protocolVersion: protocol.version,
+        firmwareVersion,
+        source: 'assumed',
+      },
+    };
+  }
+
+  /**
+   * Compare dotted firmware versions numerically; missing parts count as 0
+   */
+  private compareFirmware(a: string, b: string): number {
+    const left = this.parseFirmware(a);
+    const right = this.parseFirmware(b);
+
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+      const difference = (left[i] || 0) - (right[i] || 0);
+      if (difference !== 0) {
+        return difference;
+      }
+    }
+
+    return 0;
+  }
+
+  private parseFirmware(version: string): number[] {
+    // Only the leading "major.minor.patch"; build suffixes don't order releases
+    const match = /^v?(\d+(?:\.\d+)*)/i.exec(version.trim());
+    return match ? match[1].split('.').map(part => parseInt(part, 10)) : [];
+  }
+
+  /**
+   * Registered protocols, newest first
+   */
+  private getProtocols(): ProtocolDefinition[] {
+    return [...this.protocols.values()].sort((a, b) => b.version - a.version);
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const protocolRegistry = new ProtocolRegistry();
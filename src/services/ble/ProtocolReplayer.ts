@@ -0,0 +1,111 @@
+/**
+ * Protocol Replayer
+ * Feeds a capture exported by ProtocolTracer back through the decoder or a transport
+ *
+ * Decoding a capture turns a bug report into the commands the glasses
+ * received; replaying the writes into a G2Simulator reproduces what they drew,
+ * which makes a real capture usable as a regression test.
+ */
+
+import { IBLETransport, DisplayCommand } from '@/types/ble.types';
+import {
+  TRACE_FORMAT,
+  TraceCapture,
+  ReplayedEntry,
+  ReplayOptions,
+} from '@/types/trace.types';
+import { TraceDecoder, hexToBytes } from './ProtocolTracer';
+
+/**
+ * Protocol Replayer Implementation
+ */
+export class ProtocolReplayer {
+  /**
+   * Parse and check a JSON capture
+   */
+  static parse(json: string): TraceCapture {
+    const capture = JSON.parse(json) as TraceCapture;
+
+    if (capture?.format !== TRACE_FORMAT.NAME || !Array.isArray(capture.entries)) {
+      throw new Error('Not a G2 protocol capture');
+    }
+    if (capture.version > TRACE_FORMAT.VERSION) {
+      throw new Error(`Unsupported capture version ${capture.version}`);
+    }
+
+    return capture;
+  }
+
+  /**
+   * Decode every entry with a fresh decoder, in capture order
+   */
+  decode(capture: TraceCapture): ReplayedEntry[] {
+    const decoder = new TraceDecoder();
+
+    return capture.entries.map(entry => ({
+      entry,
+      decoded: decoder.decode(
+        entry.direction,
+        entry.deviceId,
+        { serviceUUID: entry.serviceUUID, characteristicUUID: entry.characteristicUUID },
+        hexToBytes(entry.data)
+      ),
+    }));
+  }
+
+  /**
+   * Display commands written in the capture, without retransmissions
+   */
+  getCommands(capture: TraceCapture, deviceId?: string): DisplayCommand[] {
+    const lastSequence = new Map<string, number>();
+    const commands: DisplayCommand[] = [];
+
+    for (const { entry, decoded } of this.decode(capture)) {
+      if (deviceId && entry.deviceId !== deviceId) {
+        continue;
+      }
+
+      for (const item of decoded) {
+        // A retransmission reuses the sequence number of the original write
+        if (item.kind === 'command' && lastSequence.get(entry.deviceId) !== item.sequence) {
+          lastSequence.set(entry.deviceId, item.sequence);
+          commands.push(item.command);
+        }
+      }
+    }
+
+    return commands;
+  }
+
+  /**
+   * Send the captured writes to a transport (the device must already be connected)
+   * Returns the number of writes sent
+   */
+  async replay(capture: TraceCapture, transport: IBLETransport, options: ReplayOptions = {}): Promise<number> {
+    const speed = options.speed || 0;
+    const writes = capture.entries.filter(entry => entry.direction === 'write');
+    let previous: number | null = null;
+
+    for (const entry of writes) {
+      const timestamp = Date.parse(entry.timestamp);
+      if (speed > 0 && previous !== null && timestamp > previous) {
+        const delay = (timestamp - previous) / speed;
+        await new Promise<void>(resolve => setTimeout(resolve, delay));
+      }
+      previous = timestamp;
+
+      await transport.write(
+        options.deviceId || entry.deviceId,
+        { serviceUUID: entry.serviceUUID, characteristicUUID: entry.characteristicUUID },
+        hexToBytes(entry.data)
+      );
+    }
+
+    return writes.length;
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const protocolReplayer = new ProtocolReplayer();
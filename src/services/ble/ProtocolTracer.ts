@@ -0,0 +1,555 @@
+/**
+ * Protocol Tracer
+ * Records G2 link traffic into a ring buffer for debugging and bug reports
+ *
+ * The tracer wraps the manager's transport, so every GATT write, read and
+ * notification is captured with its characteristic and decoded meaning.
+ * Captures export as JSON (for ProtocolReplayer) or as one line of text per
+ * packet, like a pcap dump.
+ */
+
+import {
+  IBLETransport,
+  BLEScanOptions,
+  BLEConnectionOptions,
+  CharacteristicRoute,
+  DisplayCommand,
+  DisplayCommandType,
+  G2Notification,
+  NotificationType,
+  RefreshMode,
+  TransportConnection,
+  TransportService,
+  TransportSubscription,
+  TransportScanListener,
+  TransportNotificationListener,
+  TransportDisconnectListener,
+  RadioStateListener,
+  StateRestoredListener,
+  BLERadioState,
+  G2CapabilitiesDescriptor,
+  G2Settings,
+  TouchBarEvent,
+  G2Language,
+  IProtocolDecoder,
+  G2_UUIDS,
+} from '@/types/ble.types';
+import { DfuOpcode, DfuStatus } from '@/types/dfu.types';
+import {
+  TRACE_FORMAT,
+  TraceDirection,
+  TraceDecoded,
+  TraceEntry,
+  TraceCapture,
+  SerializedTraceEntry,
+  ProtocolTracerConfig,
+} from '@/types/trace.types';
+import { g2Decoder, G2FrameParser, G2PacketFragmenter, G2PacketReassembler } from './G2Protocol';
+import { protocolRegistry } from './ProtocolRegistry';
+import { dfuProtocol } from '../dfu/DfuProtocol';
+
+const DEFAULT_CONFIG: ProtocolTracerConfig = {
+  capacity: 500,
+  enabled: true,
+};
+
+/**
+ * Characteristics that carry fragmented command envelopes
+ */
+const COMMAND_CHARACTERISTICS: string[] = [
+  G2_UUIDS.TEXT_CHARACTERISTIC,
+  G2_UUIDS.GRAPHICS_CHARACTERISTIC,
+  G2_UUIDS.CLEAR_CHARACTERISTIC,
+  G2_UUIDS.BRIGHTNESS_CHARACTERISTIC,
+];
+
+/**
+ * Characteristics that notify framed G2 notifications
+ */
+const NOTIFICATION_CHARACTERISTICS: string[] = [
+  G2_UUIDS.STATUS_CHARACTERISTIC,
+  G2_UUIDS.TOUCHBAR_CHARACTERISTIC,
+];
+
+export function bytesToHex(data: Uint8Array): string {
+  return Array.from(data, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+  const clean = hex.replace(/\s+/g, '');
+  if (clean.length % 2 !== 0 || /[^0-9a-f]/i.test(clean)) {
+    throw new Error('Invalid hex string');
+  }
+
+  const data = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = parseInt(clean.substr(i * 2, 2), 16);
+  }
+  return data;
+}
+
+/**
+ * One-line description of a display command
+ */
+export function describeCommand(command: DisplayCommand): string {
+  switch (command.type) {
+    case DisplayCommandType.TEXT:
+      return `TEXT (${command.x},${command.y}) ${JSON.stringify(command.text)}`;
+    case DisplayCommandType.CLEAR:
+      return command.region
+        ? `CLEAR (${command.region.x},${command.region.y}) ${command.region.width}x${command.region.height}`
+        : 'CLEAR full';
+    case DisplayCommandType.GRAPHICS:
+      return `GRAPHICS (${command.x},${command.y}) ${command.width}x${command.height}`;
+    case DisplayCommandType.BRIGHTNESS:
+      return `BRIGHTNESS ${command.level}${command.auto ? ' auto' : ''}`;
+    case DisplayCommandType.REFRESH:
+      return command.mode === RefreshMode.BEGIN_DEFERRED ? 'REFRESH begin' : 'REFRESH commit';
+    case DisplayCommandType.PING:
+      return 'PING';
+  }
+}
+
+function describeNotification(notification: G2Notification): string {
+  switch (notification.type) {
+    case NotificationType.TOUCHBAR:
+      return `TOUCHBAR ${notification.events.map(describeTouchBarEvent).join(', ') || '(none)'}`;
+    case NotificationType.ACK:
+      return `ACK seq ${notification.sequence}`;
+    case NotificationType.NACK:
+      return `NACK seq ${notification.sequence} reason ${notification.reason}`;
+  }
+}
+
+function describeTouchBarEvent(event: TouchBarEvent): string {
+  const parts: string[] = [event.type];
+  if (event.arm) {
+    parts.push(event.arm);
+  }
+  if (event.duration !== undefined) {
+    parts.push(`${event.duration}ms`);
+  }
+  if (event.velocity !== undefined) {
+    parts.push(`${event.velocity}mm/s`);
+  }
+  return parts.join(' ');
+}
+
+function describeSettings(settings: G2Settings): string {
+  const parts: string[] = [];
+  if (settings.displayTimeout !== undefined) {
+    parts.push(`timeout=${settings.displayTimeout}s`);
+  }
+  if (settings.headUpAngle !== undefined) {
+    parts.push(`headUp=${settings.headUpAngle}°`);
+  }
+  if (settings.wearDetection !== undefined) {
+    parts.push(`wearDetection=${settings.wearDetection ? 'on' : 'off'}`);
+  }
+  if (settings.language !== undefined) {
+    parts.push(`language=${G2Language[settings.language]}`);
+  }
+  return parts.length > 0 ? parts.join(' ') : '(empty)';
+}
+
+/**
+ * Summary of everything decoded from one packet
+ */
+export function describeDecoded(decoded: TraceDecoded[]): string {
+  return decoded
+    .map(item => {
+      switch (item.kind) {
+        case 'command':
+          return `seq ${item.sequence} ${describeCommand(item.command)}`;
+        case 'fragment':
+          return `fragment ${item.index + 1}/${item.total} of message ${item.messageId}`;
+        case 'notification':
+          return describeNotification(item.notification);
+        case 'battery':
+          return `battery ${item.level}%`;
+        case 'firmware':
+          return `firmware ${item.version}`;
+        case 'capabilities':
+          return (
+            `capabilities v${item.descriptor.protocolVersion} ` +
+            `features=0x${item.descriptor.features.toString(16)} ` +
+            `font=${item.descriptor.minFontSize}-${item.descriptor.maxFontSize}px ` +
+            `payload=${item.descriptor.maxPayloadSize}`
+          );
+        case 'settings':
+          return `settings ${describeSettings(item.settings)}`;
+        case 'dfu':
+          return item.description;
+        case 'raw':
+          return '';
+        case 'error':
+          return `undecodable: ${item.message}`;
+      }
+    })
+    .filter(text => text.length > 0)
+    .join('; ');
+}
+
+/**
+ * What a traced device reported about its firmware
+ */
+interface TracedDevice {
+  firmwareVersion: string | null;
+  descriptor: G2CapabilitiesDescriptor | null;
+}
+
+/**
+ * Trace Decoder
+ * Stateful: fragments and partial notification frames are buffered per
+ * device and characteristic until they complete. The protocol version of
+ * each device is negotiated again from the firmware and capabilities reads
+ * in the trace, the same way the manager picked it.
+ */
+export class TraceDecoder {
+  private reassemblers = new Map<string, G2PacketReassembler>();
+  private parsers = new Map<string, G2FrameParser>();
+  private devices = new Map<string, TracedDevice>();
+  private decoders = new Map<string, IProtocolDecoder>();
+
+  decode(direction: TraceDirection, deviceId: string, route: CharacteristicRoute, data: Uint8Array): TraceDecoded[] {
+    const key = `${deviceId}/${route.characteristicUUID}`;
+
+    try {
+      if (route.serviceUUID === G2_UUIDS.DFU_SERVICE) {
+        return [{ kind: 'dfu', description: this.describeDfu(direction, route, data) }];
+      }
+
+      switch (route.characteristicUUID) {
+        case G2_UUIDS.BATTERY_CHARACTERISTIC:
+          return [{ kind: 'battery', level: g2Decoder.decodeBatteryLevel(data) }];
+        case G2_UUIDS.FIRMWARE_CHARACTERISTIC: {
+          const version = g2Decoder.decodeFirmwareVersion(data);
+          this.updateDevice(deviceId, { firmwareVersion: version });
+          return [{ kind: 'firmware', version }];
+        }
+        case G2_UUIDS.CAPABILITIES_CHARACTERISTIC: {
+          const descriptor = g2Decoder.decodeCapabilities(data);
+          this.updateDevice(deviceId, { descriptor });
+          return [descriptor ? { kind: 'capabilities', descriptor } : { kind: 'raw' }];
+        }
+        case G2_UUIDS.SETTINGS_CHARACTERISTIC:
+          return [{ kind: 'settings', settings: this.decoderFor(deviceId).decodeSettings(data) }];
+      }
+
+      if (direction === 'write' && COMMAND_CHARACTERISTICS.includes(route.characteristicUUID)) {
+        return [this.decodeFragment(key, deviceId, data)];
+      }
+
+      if (direction === 'notify' && NOTIFICATION_CHARACTERISTICS.includes(route.characteristicUUID)) {
+        let parser = this.parsers.get(key);
+        if (!parser) {
+          parser = new G2FrameParser(this.decoderFor(deviceId));
+          this.parsers.set(key, parser);
+        }
+        return parser.push(data).map(notification => ({ kind: 'notification' as const, notification }));
+      }
+
+      return [{ kind: 'raw' }];
+    } catch (error) {
+      return [{ kind: 'error', message: (error as Error).message }];
+    }
+  }
+
+  /**
+   * Forget partial messages (e.g. between captures)
+   */
+  reset(): void {
+    this.reassemblers.clear();
+    this.parsers.clear();
+    this.devices.clear();
+    this.decoders.clear();
+  }
+
+  /**
+   * Record what a device reported and re-select its protocol
+   */
+  private updateDevice(deviceId: string, update: Partial<TracedDevice>): void {
+    const device: TracedDevice = {
+      firmwareVersion: null,
+      descriptor: null,
+      ...this.devices.get(deviceId),
+      ...update,
+    };
+    this.devices.set(deviceId, device);
+
+    const decoder = protocolRegistry.negotiate(device.firmwareVersion, device.descriptor).protocol.decoder;
+    if (decoder !== this.decoderFor(deviceId)) {
+      this.decoders.set(deviceId, decoder);
+      // Parsers hold the previous decoder
+      for (const key of [...this.parsers.keys()]) {
+        if (key.startsWith(`${deviceId}/`)) {
+          this.parsers.delete(key);
+        }
+      }
+    }
+  }
+
+  private decoderFor(deviceId: string): IProtocolDecoder {
+    return this.decoders.get(deviceId) || protocolRegistry.getBaseline().decoder;
+  }
+
+  private decodeFragment(key: string, deviceId: string, data: Uint8Array): TraceDecoded {
+    let reassembler = this.reassemblers.get(key);
+    if (!reassembler) {
+      reassembler = new G2PacketReassembler();
+      this.reassemblers.set(key, reassembler);
+    }
+
+    const fragment = G2PacketFragmenter.parseFragment(data);
+    const message = reassembler.push(data);
+    if (!message) {
+      return {
+        kind: 'fragment',
+        messageId: fragment.messageId,
+        index: fragment.index,
+        total: fragment.total,
+      };
+    }
+
+    const decoder = this.decoderFor(deviceId);
+    const envelope = decoder.decodeEnvelope(message);
+    if (!decoder.validateChecksum(envelope.frame)) {
+      return { kind: 'error', message: `checksum mismatch in seq ${envelope.sequence}` };
+    }
+
+    return {
+      kind: 'command',
+      sequence: envelope.sequence,
+      command: decoder.decodeCommand(envelope.frame),
+    };
+  }
+
+  private describeDfu(direction: TraceDirection, route: CharacteristicRoute, data: Uint8Array): string {
+    if (route.characteristicUUID === G2_UUIDS.DFU_DATA_CHARACTERISTIC) {
+      const chunk = dfuProtocol.decodeChunk(data);
+      return `DFU chunk @${chunk.offset} (${chunk.bytes.length} bytes${chunk.valid ? '' : ', bad CRC'})`;
+    }
+
+    if (direction === 'notify') {
+      const response = dfuProtocol.decodeResponse(data);
+      return response
+        ? `DFU ${DfuOpcode[response.opcode]} ${DfuStatus[response.status]} offset ${response.offset}`
+        : 'DFU unknown notification';
+    }
+
+    if (data[0] === DfuOpcode.START) {
+      const start = dfuProtocol.decodeStart(data);
+      return `DFU START ${dfuProtocol.formatVersion(start.version)} (${start.size} bytes)`;
+    }
+    return `DFU ${DfuOpcode[data[0]] || `0x${data[0].toString(16)}`}`;
+  }
+}
+
+/**
+ * Protocol Tracer Implementation
+ */
+export class ProtocolTracer {
+  private config: ProtocolTracerConfig;
+  private buffer: TraceEntry[] = [];
+  private head = 0; // Slot of the oldest entry once the buffer is full
+  private nextIndex = 1;
+  private dropped = 0;
+  private decoder = new TraceDecoder();
+
+  constructor(config: Partial<ProtocolTracerConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Record one packet
+   */
+  record(direction: TraceDirection, deviceId: string, route: CharacteristicRoute, data: Uint8Array): void {
+    if (!this.config.enabled || this.config.capacity <= 0) {
+      return;
+    }
+
+    const entry: TraceEntry = {
+      index: this.nextIndex++,
+      timestamp: new Date(),
+      direction,
+      deviceId,
+      serviceUUID: route.serviceUUID,
+      characteristicUUID: route.characteristicUUID,
+      data: data.slice(),
+      summary: describeDecoded(this.decoder.decode(direction, deviceId, route, data)),
+    };
+
+    if (this.buffer.length < this.config.capacity) {
+      this.buffer.push(entry);
+    } else {
+      this.buffer[this.head] = entry;
+      this.head = (this.head + 1) % this.config.capacity;
+      this.dropped++;
+    }
+  }
+
+  /**
+   * Entries in the buffer, oldest first
+   */
+  getEntries(): TraceEntry[] {
+    return [...this.buffer.slice(this.head), ...this.buffer.slice(0, this.head)];
+  }
+
+  getDroppedCount(): number {
+    return this.dropped;
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.config = { ...this.config, enabled };
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  clear(): void {
+    this.buffer = [];
+    this.head = 0;
+    this.dropped = 0;
+    this.decoder.reset();
+  }
+
+  /**
+   * Snapshot of the buffer in the replayable capture format
+   */
+  toCapture(): TraceCapture {
+    return {
+      format: TRACE_FORMAT.NAME,
+      version: TRACE_FORMAT.VERSION,
+      exportedAt: new Date().toISOString(),
+      dropped: this.dropped,
+      entries: this.getEntries().map(entry => ({
+        index: entry.index,
+        timestamp: entry.timestamp.toISOString(),
+        direction: entry.direction,
+        deviceId: entry.deviceId,
+        serviceUUID: entry.serviceUUID,
+        characteristicUUID: entry.characteristicUUID,
+        data: bytesToHex(entry.data),
+        summary: entry.summary,
+      })),
+    };
+  }
+
+  exportJSON(): string {
+    return JSON.stringify(this.toCapture(), null, 2);
+  }
+
+  /**
+   * One line per packet: index, time, offset from the first packet, direction,
+   * device, short characteristic id, length, hex bytes and decoded meaning
+   */
+  exportText(): string {
+    const capture = this.toCapture();
+    const start = capture.entries.length > 0 ? Date.parse(capture.entries[0].timestamp) : 0;
+    const arrows: Record<TraceDirection, string> = { write: '>', read: '<', notify: '<' };
+
+    const lines = capture.entries.map((entry: SerializedTraceEntry) => {
+      const offset = ((Date.parse(entry.timestamp) - start) / 1000).toFixed(3);
+      const shortId = entry.characteristicUUID.slice(4, 8);
+      const hex = entry.data.replace(/(..)(?!$)/g, '$1 ');
+      const summary = entry.summary ? ` | ${entry.summary}` : '';
+
+      return (
+        `${String(entry.index).padStart(6, '0')} ${entry.timestamp} +${offset} ` +
+        `${arrows[entry.direction]} ${entry.direction.padEnd(6)} ${entry.deviceId} ${shortId} ` +
+        `[${entry.data.length / 2}] ${hex}${summary}`
+      );
+    });
+
+    return [
+      `# ${TRACE_FORMAT.NAME} v${TRACE_FORMAT.VERSION} exported ${capture.exportedAt}, ` +
+        `${capture.entries.length} packets, ${capture.dropped} dropped`,
+      ...lines,
+    ].join('\n');
+  }
+
+  /**
+   * Transport that records everything passing through it
+   */
+  wrap(transport: IBLETransport): IBLETransport {
+    return new TracingTransport(transport, this);
+  }
+}
+
+/**
+ * Transport Decorator
+ * Forwards every call and records GATT traffic on the tracer
+ */
+class TracingTransport implements IBLETransport {
+  constructor(private transport: IBLETransport, private tracer: ProtocolTracer) {}
+
+  requestPermissions(): Promise<boolean> {
+    return this.transport.requestPermissions();
+  }
+
+  state(): Promise<BLERadioState> {
+    return this.transport.state();
+  }
+
+  onStateChange(listener: RadioStateListener, emitCurrentState?: boolean): TransportSubscription {
+    return this.transport.onStateChange(listener, emitCurrentState);
+  }
+
+  onStateRestored(listener: StateRestoredListener): TransportSubscription {
+    return this.transport.onStateRestored(listener);
+  }
+
+  startScan(serviceUUIDs: string[] | null, options: BLEScanOptions, listener: TransportScanListener): void {
+    this.transport.startScan(serviceUUIDs, options, listener);
+  }
+
+  stopScan(): void {
+    this.transport.stopScan();
+  }
+
+  connect(deviceId: string, options: BLEConnectionOptions): Promise<TransportConnection> {
+    return this.transport.connect(deviceId, options);
+  }
+
+  discoverServices(deviceId: string): Promise<TransportService[]> {
+    return this.transport.discoverServices(deviceId);
+  }
+
+  cancelConnection(deviceId: string): Promise<void> {
+    return this.transport.cancelConnection(deviceId);
+  }
+
+  onDisconnected(deviceId: string, listener: TransportDisconnectListener): TransportSubscription {
+    return this.transport.onDisconnected(deviceId, listener);
+  }
+
+  readRSSI(deviceId: string): Promise<number> {
+    return this.transport.readRSSI(deviceId);
+  }
+
+  async read(deviceId: string, route: CharacteristicRoute): Promise<Uint8Array> {
+    const data = await this.transport.read(deviceId, route);
+    this.tracer.record('read', deviceId, route, data);
+    return data;
+  }
+
+  async write(deviceId: string, route: CharacteristicRoute, data: Uint8Array): Promise<void> {
+    // Recorded before the write so a fast reply can't appear ahead of it
+    this.tracer.record('write', deviceId, route, data);
+    await this.transport.write(deviceId, route, data);
+  }
+
+  monitor(
+    deviceId: string,
+    route: CharacteristicRoute,
+    listener: TransportNotificationListener
+  ): TransportSubscription {
+    return this.transport.monitor(deviceId, route, (error, data) => {
+      if (data) {
+        this.tracer.record('notify', deviceId, route, data);
+      }
+      listener(error, data);
+    });
+  }
+}
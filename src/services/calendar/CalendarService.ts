@@ -31,6 +31,7 @@ const DEFAULT_CONFIG: CalendarServiceConfig = {
   enableNativeCalendar: true,
   autoSync: true,
   syncOnAppStart: true,
+  handoffLeadTime: 300000, // 5 minutes
 };
 
 /**
@@ -209,6 +210,10 @@ export class CalendarService implements ICalendarService {
         events = events.filter(e => e.status !== EventStatus.CANCELLED);
       }
       
+      if (options.includeAllDay === false) {
+        events = events.filter(e => !e.allDay);
+      }
+      
       if (options.searchQuery) {
         const query = options.searchQuery.toLowerCase();
         events = events.filter(e =>
@@ -232,7 +237,8 @@ export class CalendarService implements ICalendarService {
   }
 
   /**
-   * Get next upcoming event
+   * Get the event to show: the one in progress, else the next upcoming one
+   * A running event gives way to the next in its final minutes (handoffLeadTime)
    */
   async getNextEvent(): Promise<NextEventInfo | null> {
     try {
@@ -242,24 +248,28 @@ export class CalendarService implements ICalendarService {
         excludeCancelled: true,
       });
       
-      // Find next event (not currently in progress)
-      const nextEvent = events.find(event => event.startDate > now);
+      const upcomingEvent = events.find(event => event.startDate > now);
+      const handoffLeadTime = this.config.handoffLeadTime ?? 300000;
+      
+      // The event under way that started last; all-day events never take the display.
+      // It hands over early only to an event that follows on within handoffLeadTime of its end
+      const currentEvent = events
+        .filter(event => !event.allDay && event.startDate <= now && event.endDate > now)
+        .filter(event =>
+          !upcomingEvent ||
+          event.endDate.getTime() - now.getTime() > handoffLeadTime ||
+          upcomingEvent.startDate.getTime() - event.endDate.getTime() > handoffLeadTime
+        )
+        .pop();
+      
+      const nextEvent = currentEvent || upcomingEvent;
       
       if (!nextEvent) {
         this.updateNextEvent(null);
         return null;
       }
       
-      const timeUntilStart = nextEvent.startDate.getTime() - now.getTime();
-      const isStartingSoon = timeUntilStart <= 15 * 60 * 1000; // 15 minutes
-      
-      const nextEventInfo: NextEventInfo = {
-        event: nextEvent,
-        timeUntilStart,
-        isStartingSoon,
-        isInProgress: false,
-        displayText: formatNextEventDisplay(nextEvent, timeUntilStart),
-      };
+      const nextEventInfo = this.getEventInfo(nextEvent, now);
       
       this.updateNextEvent(nextEventInfo);
       return nextEventInfo;
@@ -275,6 +285,27 @@ export class CalendarService implements ICalendarService {
     }
   }
 
+  /**
+   * Display info for an upcoming event or one in progress
+   */
+  getEventInfo(event: CalendarEvent, now: Date = new Date()): NextEventInfo {
+    const timeUntilStart = event.startDate.getTime() - now.getTime();
+    const timeRemaining = event.endDate.getTime() - now.getTime();
+    const duration = event.endDate.getTime() - event.startDate.getTime();
+    const isInProgress = timeUntilStart <= 0 && timeRemaining > 0;
+    const isStartingSoon = !isInProgress && timeUntilStart <= 15 * 60 * 1000; // 15 minutes
+    
+    return {
+      event,
+      timeUntilStart,
+      timeRemaining,
+      isStartingSoon,
+      isInProgress,
+      progress: isInProgress && duration > 0 ? -timeUntilStart / duration : 0,
+      displayText: formatNextEventDisplay(event, timeUntilStart),
+    };
+  }
+
   /**
    * Get upcoming events
    */
@@ -379,7 +410,8 @@ export class CalendarService implements ICalendarService {
   private hasNextEventChanged(prev: NextEventInfo | null, current: NextEventInfo | null): boolean {
     if (!prev && !current) return false;
     if (!prev || !current) return true;
-    return prev.event.id !== current.event.id;
+    // An event that has just started is redrawn as the one in progress
+    return prev.event.id !== current.event.id || prev.isInProgress !== current.isInProgress;
   }
 
   private updateSyncStatus(status: CalendarSyncStatus): void {
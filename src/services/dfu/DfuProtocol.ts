@@ -0,0 +1,250 @@
+/**
+ * G2 Firmware Update Protocol
+ * Image parsing plus the packets exchanged over the DFU service
+ *
+ * Control Request Structure (control characteristic):
+ * [Opcode(1)] [Arguments(N)]
+ *
+ * Chunk Structure (data characteristic, one per write):
+ * [Offset(4)] [CRC-32(4)] [Bytes(N)]
+ *
+ * Response Structure (control notification):
+ * [0x10] [Request Opcode(1)] [Status(1)] [Offset(4)]
+ */
+
+import { G2_MANUFACTURER_DATA } from '@/types/ble.types';
+import {
+  FIRMWARE_IMAGE,
+  DFU_PACKET,
+  DfuOpcode,
+  DfuStatus,
+  DfuResponse,
+  FirmwareImage,
+  FirmwareVersion,
+} from '@/types/dfu.types';
+
+/**
+ * CRC-32 (IEEE 802.3, reflected, polynomial 0xEDB88320)
+ */
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array, previous: number = 0): number {
+  let crc = (previous ^ 0xFFFFFFFF) >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * DFU Protocol Codec
+ */
+export class DfuProtocol {
+  /**
+   * Parse and validate a firmware image file
+   * Throws with a description of the first problem found
+   */
+  parseImage(data: Uint8Array): FirmwareImage {
+    if (data.length < FIRMWARE_IMAGE.HEADER_LENGTH) {
+      throw new Error('Firmware image is shorter than its header');
+    }
+
+    if (!FIRMWARE_IMAGE.MAGIC.every((byte, i) => data[i] === byte)) {
+      throw new Error('Not a G2 firmware image');
+    }
+
+    if (data[4] !== FIRMWARE_IMAGE.FORMAT_VERSION) {
+      throw new Error(`Unsupported firmware image format ${data[4]}`);
+    }
+
+    const model = data[5];
+    if (model !== G2_MANUFACTURER_DATA.MODEL_G2) {
+      throw new Error(`Firmware image is for model 0x${model.toString(16)}, not the G2`);
+    }
+
+    const bodyLength = this.readUint32(data, 12);
+    if (bodyLength === 0 || bodyLength > FIRMWARE_IMAGE.MAX_BODY_LENGTH) {
+      throw new Error(`Invalid firmware body length ${bodyLength}`);
+    }
+    if (data.length !== FIRMWARE_IMAGE.HEADER_LENGTH + bodyLength) {
+      throw new Error(
+        `Firmware image is ${data.length} bytes, header declares ${FIRMWARE_IMAGE.HEADER_LENGTH + bodyLength}`
+      );
+    }
+
+    const body = data.slice(FIRMWARE_IMAGE.HEADER_LENGTH);
+    const expectedCrc = this.readUint32(data, 16);
+    const actualCrc = crc32(body);
+    if (actualCrc !== expectedCrc) {
+      throw new Error(
+        `Firmware image checksum mismatch (expected 0x${expectedCrc.toString(16)}, got 0x${actualCrc.toString(16)})`
+      );
+    }
+
+    return {
+      version: { major: data[6], minor: data[7], patch: data[8] },
+      model,
+      body,
+      crc32: actualCrc,
+    };
+  }
+
+  /**
+   * Build a firmware image file around a body
+   * Used by the simulator and tooling
+   */
+  encodeImage(version: FirmwareVersion, body: Uint8Array): Uint8Array {
+    const data = new Uint8Array(FIRMWARE_IMAGE.HEADER_LENGTH + body.length);
+
+    data.set(FIRMWARE_IMAGE.MAGIC, 0);
+    data[4] = FIRMWARE_IMAGE.FORMAT_VERSION;
+    data[5] = G2_MANUFACTURER_DATA.MODEL_G2;
+    data[6] = version.major;
+    data[7] = version.minor;
+    data[8] = version.patch;
+    this.writeUint32(data, 12, body.length);
+    this.writeUint32(data, 16, crc32(body));
+    data.set(body, FIRMWARE_IMAGE.HEADER_LENGTH);
+
+    return data;
+  }
+
+  /**
+   * START: announce the image; the reply carries the offset to continue from
+   */
+  encodeStart(image: FirmwareImage): Uint8Array {
+    const data = new Uint8Array(DFU_PACKET.START_LENGTH);
+
+    data[0] = DfuOpcode.START;
+    this.writeUint32(data, 1, image.body.length);
+    this.writeUint32(data, 5, image.crc32);
+    data[9] = image.version.major;
+    data[10] = image.version.minor;
+    data[11] = image.version.patch;
+
+    return data;
+  }
+
+  decodeStart(data: Uint8Array): { size: number; crc32: number; version: FirmwareVersion } {
+    if (data.length !== DFU_PACKET.START_LENGTH || data[0] !== DfuOpcode.START) {
+      throw new Error('Invalid DFU START request');
+    }
+
+    return {
+      size: this.readUint32(data, 1),
+      crc32: this.readUint32(data, 5),
+      version: { major: data[9], minor: data[10], patch: data[11] },
+    };
+  }
+
+  /**
+   * Argument-less requests (VALIDATE, ACTIVATE, ABORT)
+   */
+  encodeRequest(opcode: DfuOpcode): Uint8Array {
+    return new Uint8Array([opcode]);
+  }
+
+  encodeChunk(offset: number, bytes: Uint8Array): Uint8Array {
+    const data = new Uint8Array(DFU_PACKET.CHUNK_HEADER_LENGTH + bytes.length);
+
+    this.writeUint32(data, 0, offset);
+    this.writeUint32(data, 4, crc32(bytes));
+    data.set(bytes, DFU_PACKET.CHUNK_HEADER_LENGTH);
+
+    return data;
+  }
+
+  /**
+   * Split a chunk write; valid is false when the bytes don't match their CRC
+   */
+  decodeChunk(data: Uint8Array): { offset: number; bytes: Uint8Array; valid: boolean } {
+    if (data.length < DFU_PACKET.CHUNK_HEADER_LENGTH) {
+      throw new Error('DFU chunk too short');
+    }
+
+    const bytes = data.slice(DFU_PACKET.CHUNK_HEADER_LENGTH);
+
+    return {
+      offset: this.readUint32(data, 0),
+      bytes,
+      valid: crc32(bytes) === this.readUint32(data, 4),
+    };
+  }
+
+  encodeResponse(response: DfuResponse): Uint8Array {
+    const data = new Uint8Array(DFU_PACKET.RESPONSE_LENGTH);
+
+    data[0] = DFU_PACKET.RESPONSE_CODE;
+    data[1] = response.opcode;
+    data[2] = response.status;
+    this.writeUint32(data, 3, response.offset);
+
+    return data;
+  }
+
+  /**
+   * Decode a control notification, or null if it isn't a DFU response
+   */
+  decodeResponse(data: Uint8Array): DfuResponse | null {
+    if (data.length !== DFU_PACKET.RESPONSE_LENGTH || data[0] !== DFU_PACKET.RESPONSE_CODE) {
+      return null;
+    }
+
+    return {
+      opcode: data[1] as DfuOpcode,
+      status: data[2] as DfuStatus,
+      offset: this.readUint32(data, 3),
+    };
+  }
+
+  formatVersion(version: FirmwareVersion): string {
+    return `${version.major}.${version.minor}.${version.patch}`;
+  }
+
+  /**
+   * Parse the leading "major.minor[.patch]" of a firmware version string
+   */
+  parseVersion(text: string): FirmwareVersion | null {
+    const match = /^v?(\d+)\.(\d+)(?:\.(\d+))?/.exec(text.trim());
+    if (!match) {
+      return null;
+    }
+
+    return {
+      major: parseInt(match[1], 10),
+      minor: parseInt(match[2], 10),
+      patch: match[3] ? parseInt(match[3], 10) : 0,
+    };
+  }
+
+  private readUint32(data: Uint8Array, offset: number): number {
+    return (
+      (data[offset] |
+        (data[offset + 1] << 8) |
+        (data[offset + 2] << 16) |
+        (data[offset + 3] << 24)) >>> 0
+    );
+  }
+
+  private writeUint32(data: Uint8Array, offset: number, value: number): void {
+    data[offset] = value & 0xFF;
+    data[offset + 1] = (value >>> 8) & 0xFF;
+    data[offset + 2] = (value >>> 16) & 0xFF;
+    data[offset + 3] = (value >>> 24) & 0xFF;
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const dfuProtocol = new DfuProtocol();
@@ -0,0 +1,610 @@
+/**
+ * DFU Service
+ * Over-the-air firmware updates for the G2
+ *
+ * Each arm is updated on its own: the image is announced with START, streamed
+ * in CRC-checked chunks on the data characteristic, validated and activated.
+ * The glasses keep a partial image across link loss, so after a reconnect the
+ * transfer continues from the offset they report. After the reboot the
+ * firmware version is read back and compared with the image.
+ */
+
+import { g2Session, G2Session } from '../ble/G2Session';
+import { G2BLEManager } from '../ble/BLEManager';
+import { dfuProtocol } from './DfuProtocol';
+import {
+  BLEConnectionState,
+  CharacteristicRoute,
+  G2Arm,
+  TransportSubscription,
+  G2_UUIDS,
+} from '@/types/ble.types';
+import {
+  DFU_PACKET,
+  DfuOpcode,
+  DfuStatus,
+  DfuResponse,
+  DfuState,
+  DfuProgress,
+  DfuUpdateOptions,
+  DfuError,
+  DfuErrorType,
+  DfuServiceConfig,
+  DfuProgressCallback,
+  FirmwareImage,
+} from '@/types/dfu.types';
+
+/**
+ * Default Configuration
+ */
+const DEFAULT_CONFIG: DfuServiceConfig = {
+  maxChunkSize: 240,
+  responseTimeout: 5000,
+  maxChunkRetries: 3,
+  reconnectTimeout: 30000,
+  maxResumes: 5,
+  rebootTimeout: 60000,
+};
+
+const ATT_HEADER_SIZE = 3;
+
+const CONTROL_ROUTE: CharacteristicRoute = {
+  serviceUUID: G2_UUIDS.DFU_SERVICE,
+  characteristicUUID: G2_UUIDS.DFU_CONTROL_CHARACTERISTIC,
+};
+
+const DATA_ROUTE: CharacteristicRoute = {
+  serviceUUID: G2_UUIDS.DFU_SERVICE,
+  characteristicUUID: G2_UUIDS.DFU_DATA_CHARACTERISTIC,
+};
+
+const IDLE_PROGRESS: DfuProgress = {
+  state: DfuState.IDLE,
+  arm: null,
+  bytesSent: 0,
+  totalBytes: 0,
+  percent: 0,
+  bytesPerSecond: null,
+  resumedFrom: null,
+};
+
+/**
+ * Control request waiting for its response
+ */
+interface PendingResponse {
+  opcode: DfuOpcode;
+  resolve: (response: DfuResponse) => void;
+  reject: (error: DfuError) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Wait for the arm being updated to come back
+ */
+interface LinkWaiter {
+  resolve: () => void;
+  reject: (error: DfuError) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * DFU Service Implementation
+ */
+export class DfuService {
+  private config: DfuServiceConfig;
+  private session: G2Session;
+  private progress: DfuProgress = IDLE_PROGRESS;
+  private updating = false;
+  private aborted = false;
+  private activeArm: G2Arm | null = null;
+  private linkLost = false;
+  private pendingResponse: PendingResponse | null = null;
+  private linkWaiter: LinkWaiter | null = null;
+  private transferStartedAt = 0;
+
+  // Callbacks
+  private progressCallbacks: DfuProgressCallback[] = [];
+
+  constructor(config: Partial<DfuServiceConfig> = {}, session: G2Session = g2Session) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.session = session;
+
+    [G2Arm.LEFT, G2Arm.RIGHT].forEach(arm => {
+      session.getArmManager(arm).onConnectionStateChange(state => this.handleArmState(arm, state));
+    });
+  }
+
+  /**
+   * Read a firmware image from local storage (file:// URI) and validate it
+   */
+  async loadImage(uri: string): Promise<FirmwareImage> {
+    let data: Uint8Array;
+
+    try {
+      const response = await fetch(uri);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      data = new Uint8Array(await response.arrayBuffer());
+    } catch (error) {
+      throw this.createError(
+        DfuErrorType.INVALID_IMAGE,
+        `Failed to read firmware image ${uri}`,
+        error as Error
+      );
+    }
+
+    return this.validateImage(data);
+  }
+
+  /**
+   * Check the header, model, length and CRC of a firmware image
+   */
+  validateImage(data: Uint8Array): FirmwareImage {
+    try {
+      return dfuProtocol.parseImage(data);
+    } catch (error) {
+      throw this.createError(DfuErrorType.INVALID_IMAGE, (error as Error).message, error as Error);
+    }
+  }
+
+  /**
+   * Flash an image to each arm in turn
+   * Resolves once every arm has rebooted into the new version
+   */
+  async update(image: FirmwareImage, options: DfuUpdateOptions = {}): Promise<void> {
+    if (this.updating) {
+      throw this.createError(DfuErrorType.BUSY, 'A firmware update is already running');
+    }
+
+    const arms = options.arms || this.session.getConnectedArms();
+    if (arms.length === 0) {
+      throw this.createError(DfuErrorType.NOT_CONNECTED, 'No glasses connected');
+    }
+
+    this.updating = true;
+    this.aborted = false;
+    console.log(`Starting firmware update to ${dfuProtocol.formatVersion(image.version)}`);
+
+    try {
+      for (const arm of arms) {
+        await this.updateArm(arm, image, options.force || false);
+      }
+      console.log('Firmware update complete');
+    } catch (error) {
+      const dfuError = this.toDfuError(error);
+      this.setProgress({ state: this.aborted ? DfuState.ABORTED : DfuState.FAILED });
+      console.error('Firmware update failed:', dfuError);
+      throw dfuError;
+    } finally {
+      this.updating = false;
+      this.activeArm = null;
+    }
+  }
+
+  /**
+   * Stop a running update; the glasses discard the partial image
+   */
+  async abort(): Promise<void> {
+    if (!this.updating || this.aborted) {
+      return;
+    }
+
+    this.aborted = true;
+    const error = this.createError(DfuErrorType.ABORTED, 'Firmware update aborted');
+    this.rejectPendingResponse(error);
+    this.rejectLinkWaiter(error);
+  }
+
+  getProgress(): DfuProgress {
+    return { ...this.progress };
+  }
+
+  isUpdating(): boolean {
+    return this.updating;
+  }
+
+  /**
+   * Event listener registration
+   */
+  onProgress(callback: DfuProgressCallback): void {
+    this.progressCallbacks.push(callback);
+  }
+
+  /**
+   * Private Methods
+   */
+
+  private async updateArm(arm: G2Arm, image: FirmwareImage, force: boolean): Promise<void> {
+    const manager = this.session.getArmManager(arm);
+    const targetVersion = dfuProtocol.formatVersion(image.version);
+
+    if (!manager.isConnected()) {
+      throw this.createError(DfuErrorType.NOT_CONNECTED, `${arm} arm is not connected`, undefined, arm);
+    }
+    if (!manager.supportsCharacteristic(CONTROL_ROUTE) || !manager.supportsCharacteristic(DATA_ROUTE)) {
+      throw this.createError(
+        DfuErrorType.NOT_SUPPORTED,
+        `${arm} arm firmware has no update service`,
+        undefined,
+        arm
+      );
+    }
+
+    if (!force && this.isVersion(await manager.getFirmwareVersion(), image)) {
+      console.log(`${arm} arm already runs ${targetVersion}`);
+      return;
+    }
+
+    this.activeArm = arm;
+    this.progress = { ...IDLE_PROGRESS, arm, totalBytes: image.body.length };
+
+    // A transfer interrupted by link loss resumes once the arm reconnects
+    let rebooted = false;
+    for (let resumes = 0; ; resumes++) {
+      try {
+        await this.transfer(manager, image, arm);
+        break;
+      } catch (error) {
+        if (this.aborted) {
+          await this.sendAbort(manager);
+          throw error;
+        }
+        if (!this.linkLost || resumes >= this.config.maxResumes) {
+          throw error;
+        }
+
+        console.warn(`${arm} arm link lost during firmware update, waiting to resume`);
+        this.setProgress({ state: DfuState.WAITING_FOR_RECONNECT, bytesPerSecond: null });
+        await this.waitForLink(manager, this.config.reconnectTimeout);
+
+        // The reboot may have dropped the link before the ACTIVATE response arrived
+        if (this.isVersion(await manager.getFirmwareVersion(), image)) {
+          rebooted = true;
+          break;
+        }
+      }
+    }
+
+    // The glasses reboot into the new image; verify what they come back with
+    if (!rebooted) {
+      this.setProgress({ state: DfuState.REBOOTING });
+      await this.waitForLink(manager, this.config.rebootTimeout);
+    }
+
+    this.setProgress({ state: DfuState.VERIFYING });
+    const version = await manager.getFirmwareVersion();
+    if (!this.isVersion(version, image)) {
+      throw this.createError(
+        DfuErrorType.VERSION_MISMATCH,
+        `${arm} arm rebooted into ${version}, expected ${targetVersion}`,
+        undefined,
+        arm
+      );
+    }
+
+    console.log(`${arm} arm updated to ${version}`);
+    this.setProgress({ state: DfuState.COMPLETED, bytesSent: image.body.length, percent: 100 });
+  }
+
+  /**
+   * One attempt at START, chunks, VALIDATE and ACTIVATE over the current link
+   */
+  private async transfer(manager: G2BLEManager, image: FirmwareImage, arm: G2Arm): Promise<void> {
+    this.linkLost = false;
+    const size = image.body.length;
+
+    let subscription: TransportSubscription | null = null;
+    try {
+      subscription = manager.monitorCharacteristic(CONTROL_ROUTE, (error, data) => {
+        if (!error && data) {
+          this.handleResponse(data);
+        }
+      });
+
+      this.setProgress({ state: DfuState.PREPARING });
+      const start = await this.request(manager, DfuOpcode.START, dfuProtocol.encodeStart(image), arm);
+
+      let offset = start.offset <= size ? start.offset : 0;
+      if (offset > 0) {
+        console.log(`Resuming ${arm} arm firmware transfer at ${offset}/${size}`);
+      }
+
+      this.transferStartedAt = Date.now();
+      this.setProgress({
+        state: DfuState.TRANSFERRING,
+        resumedFrom: offset,
+        bytesPerSecond: null,
+        ...this.transferProgress(offset, offset, size),
+      });
+
+      const chunkSize = Math.min(
+        this.config.maxChunkSize,
+        manager.getMTU() - ATT_HEADER_SIZE - DFU_PACKET.CHUNK_HEADER_LENGTH
+      );
+      const resumedFrom = offset;
+      let retries = 0;
+
+      while (offset < size) {
+        const bytes = image.body.subarray(offset, Math.min(offset + chunkSize, size));
+        const response = await this.request(
+          manager,
+          DfuOpcode.DATA,
+          dfuProtocol.encodeChunk(offset, bytes),
+          arm,
+          true
+        );
+
+        if (response.status === DfuStatus.CHECKSUM_ERROR || response.status === DfuStatus.OFFSET_MISMATCH) {
+          if (++retries > this.config.maxChunkRetries) {
+            throw this.createError(
+              DfuErrorType.TRANSFER_FAILED,
+              `Chunk at ${offset} rejected ${retries} times`,
+              undefined,
+              arm,
+              response.status
+            );
+          }
+          // The glasses report the offset they expect next
+          offset = response.offset;
+          continue;
+        }
+
+        retries = 0;
+        offset = response.offset;
+        this.setProgress(this.transferProgress(offset, resumedFrom, size));
+      }
+
+      this.setProgress({ state: DfuState.VALIDATING });
+      await this.request(manager, DfuOpcode.VALIDATE, dfuProtocol.encodeRequest(DfuOpcode.VALIDATE), arm);
+
+      // Expect the link to drop for the reboot from here on
+      this.linkLost = false;
+      await this.request(manager, DfuOpcode.ACTIVATE, dfuProtocol.encodeRequest(DfuOpcode.ACTIVATE), arm);
+    } finally {
+      subscription?.remove();
+      this.rejectPendingResponse(null);
+    }
+  }
+
+  /**
+   * Write a request and wait for its response
+   * Chunk responses with a retryable status are returned instead of thrown
+   */
+  private async request(
+    manager: G2BLEManager,
+    opcode: DfuOpcode,
+    data: Uint8Array,
+    arm: G2Arm,
+    isChunk: boolean = false
+  ): Promise<DfuResponse> {
+    if (this.aborted) {
+      throw this.createError(DfuErrorType.ABORTED, 'Firmware update aborted', undefined, arm);
+    }
+    if (this.linkLost) {
+      throw this.createError(DfuErrorType.TRANSFER_FAILED, `${arm} arm link lost`, undefined, arm);
+    }
+
+    const response = new Promise<DfuResponse>((resolve, reject) => {
+      this.pendingResponse = {
+        opcode,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.pendingResponse = null;
+          reject(this.createError(
+            DfuErrorType.TIMEOUT,
+            `No response to DFU request 0x${opcode.toString(16)}`,
+            undefined,
+            arm
+          ));
+        }, this.config.responseTimeout),
+      };
+    });
+
+    try {
+      await manager.writeCharacteristic(isChunk ? DATA_ROUTE : CONTROL_ROUTE, data);
+    } catch (error) {
+      this.rejectPendingResponse(null);
+      throw this.createError(
+        DfuErrorType.TRANSFER_FAILED,
+        `Failed to write DFU request 0x${opcode.toString(16)}`,
+        error as Error,
+        arm
+      );
+    }
+
+    const result = await response;
+
+    const retryable = isChunk &&
+      (result.status === DfuStatus.CHECKSUM_ERROR || result.status === DfuStatus.OFFSET_MISMATCH);
+    if (result.status !== DfuStatus.SUCCESS && !retryable) {
+      throw this.createError(
+        DfuErrorType.REJECTED,
+        `Glasses rejected DFU request 0x${opcode.toString(16)} (status ${result.status})`,
+        undefined,
+        arm,
+        result.status
+      );
+    }
+
+    return result;
+  }
+
+  private handleResponse(data: Uint8Array): void {
+    const response = dfuProtocol.decodeResponse(data);
+    const pending = this.pendingResponse;
+
+    if (!response || !pending || response.opcode !== pending.opcode) {
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    this.pendingResponse = null;
+    pending.resolve(response);
+  }
+
+  private async sendAbort(manager: G2BLEManager): Promise<void> {
+    try {
+      if (manager.isConnected()) {
+        await manager.writeCharacteristic(CONTROL_ROUTE, dfuProtocol.encodeRequest(DfuOpcode.ABORT));
+      }
+    } catch (error) {
+      console.warn('Failed to send DFU abort:', error);
+    }
+  }
+
+  private handleArmState(arm: G2Arm, state: BLEConnectionState): void {
+    if (!this.updating || arm !== this.activeArm) {
+      return;
+    }
+
+    if (state === BLEConnectionState.CONNECTED) {
+      const waiter = this.linkWaiter;
+      if (waiter && this.linkLost) {
+        clearTimeout(waiter.timer);
+        this.linkWaiter = null;
+        waiter.resolve();
+      }
+      return;
+    }
+
+    if (!this.linkLost) {
+      this.linkLost = true;
+      this.rejectPendingResponse(
+        this.createError(DfuErrorType.TRANSFER_FAILED, `${arm} arm link lost`, undefined, arm)
+      );
+    }
+  }
+
+  /**
+   * Wait until the link has dropped and come back
+   */
+  private waitForLink(manager: G2BLEManager, timeout: number): Promise<void> {
+    if (this.aborted) {
+      return Promise.reject(this.createError(DfuErrorType.ABORTED, 'Firmware update aborted'));
+    }
+    if (this.linkLost && manager.isConnected()) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      this.linkWaiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.linkWaiter = null;
+          reject(this.createError(
+            DfuErrorType.TIMEOUT,
+            `${this.activeArm} arm did not reconnect within ${timeout}ms`,
+            undefined,
+            this.activeArm || undefined
+          ));
+        }, timeout),
+      };
+    });
+  }
+
+  private rejectPendingResponse(error: DfuError | null): void {
+    const pending = this.pendingResponse;
+    if (!pending) {
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    this.pendingResponse = null;
+    if (error) {
+      pending.reject(error);
+    }
+  }
+
+  private rejectLinkWaiter(error: DfuError): void {
+    const waiter = this.linkWaiter;
+    if (!waiter) {
+      return;
+    }
+
+    clearTimeout(waiter.timer);
+    this.linkWaiter = null;
+    waiter.reject(error);
+  }
+
+  private transferProgress(offset: number, resumedFrom: number, size: number): Partial<DfuProgress> {
+    const elapsed = (Date.now() - this.transferStartedAt) / 1000;
+
+    return {
+      bytesSent: offset,
+      percent: Math.floor((offset / size) * 100),
+      bytesPerSecond: elapsed > 0 ? Math.round((offset - resumedFrom) / elapsed) : null,
+    };
+  }
+
+  private isVersion(text: string, image: FirmwareImage): boolean {
+    const version = dfuProtocol.parseVersion(text);
+    return (
+      version !== null &&
+      version.major === image.version.major &&
+      version.minor === image.version.minor &&
+      version.patch === image.version.patch
+    );
+  }
+
+  private setProgress(update: Partial<DfuProgress>): void {
+    this.progress = { ...this.progress, ...update };
+    const progress = this.getProgress();
+    this.progressCallbacks.forEach(cb => cb(progress));
+  }
+
+  private createError(
+    type: DfuErrorType,
+    message: string,
+    originalError?: Error,
+    arm?: G2Arm,
+    status?: DfuStatus
+  ): DfuError {
+    return {
+      type,
+      message,
+      status,
+      arm,
+      originalError,
+      timestamp: new Date(),
+    };
+  }
+
+  private isDfuError(error: unknown): error is DfuError {
+    return (
+      typeof error === 'object' &&
+      error !== null &&
+      'type' in error &&
+      Object.values(DfuErrorType).includes((error as DfuError).type)
+    );
+  }
+
+  private toDfuError(error: unknown): DfuError {
+    if (this.isDfuError(error)) {
+      return error;
+    }
+
+    const message = (error as { message?: string })?.message || 'Firmware update failed';
+    return this.createError(
+      DfuErrorType.TRANSFER_FAILED,
+      message,
+      error as Error,
+      this.activeArm || undefined
+    );
+  }
+
+  /**
+   * Cleanup
+   */
+  destroy(): void {
+    this.abort().catch(console.error);
+    this.progressCallbacks = [];
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const dfuService = new DfuService();
@@ -7,6 +7,12 @@ import {
   IDisplayRenderer,
   DisplayRendererConfig,
   CalendarDisplayLayout,
+  AgendaDisplayLayout,
+  AgendaEntry,
+  AgendaRow,
+  TimelineDisplayLayout,
+  TimelineEntry,
+  BitmapData,
   DisplayElement,
   DisplayUpdate,
   DisplayUpdateType,
@@ -18,8 +24,12 @@ import {
   FontSize,
   DisplayRegion,
   CALENDAR_LAYOUT,
+  AGENDA_LAYOUT,
+  TIMELINE_LAYOUT,
   DISPLAY_DIMENSIONS,
 } from '@/types/display.types';
+import { DisplayCommandType, G2Capabilities, G2Feature, GraphicsDisplayCommand } from '@/types/ble.types';
+import { getDayBounds } from '@/utils/dateUtils';
 import { TextFormatter } from './TextFormatter';
 
 /**
@@ -34,6 +44,18 @@ const DEFAULT_CONFIG: DisplayRendererConfig = {
   enableAntialiasing: false, // Not applicable for monochrome
 };
 
+/**
+ * Bytes ahead of the bitmap in a GRAPHICS payload: x, y, width and height
+ */
+const GRAPHICS_HEADER_SIZE = 8;
+
+/**
+ * Payload limit assumed until the glasses report their capabilities
+ */
+const DEFAULT_MAX_PAYLOAD_SIZE = 512;
+
+const HOUR_MS = 60 * 60 * 1000;
+
 /**
  * Display Renderer Implementation
  */
@@ -42,6 +64,7 @@ export class DisplayRenderer implements IDisplayRenderer {
   private textFormatter: TextFormatter;
   private state: DisplayState;
   private currentLayout: CalendarDisplayLayout | null = null;
+  private capabilities: G2Capabilities | null = null;
 
   constructor(config: Partial<DisplayRendererConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -70,6 +93,26 @@ export class DisplayRenderer implements IDisplayRenderer {
     console.log('Display renderer initialized');
   }
 
+  /**
+   * Set what the connected glasses support; null when unknown
+   * Layouts created afterwards only use supported font sizes and styles
+   */
+  setCapabilities(capabilities: G2Capabilities | null): void {
+    this.capabilities = capabilities;
+  }
+
+  getCapabilities(): G2Capabilities | null {
+    return this.capabilities;
+  }
+
+  /**
+   * Whether the glasses support a feature
+   * Assumed true until capabilities are known; the BLE layer still degrades what it must
+   */
+  supportsFeature(feature: G2Feature): boolean {
+    return this.capabilities === null || (this.capabilities.features & feature) !== 0;
+  }
+
   /**
    * Create calendar layout from event data
    */
@@ -85,33 +128,33 @@ export class DisplayRenderer implements IDisplayRenderer {
         id: 'title',
         region: CALENDAR_LAYOUT.TITLE,
         content: this.textFormatter.formatEventTitle(title, 60),
-        style: {
+        style: this.fitStyle({
           fontSize: FontSize.LARGE,
           bold: true,
           alignment: 'left',
-        },
+        }),
         visible: true,
       },
       timeRange: {
         id: 'timeRange',
         region: CALENDAR_LAYOUT.TIME,
         content: timeRange,
-        style: {
+        style: this.fitStyle({
           fontSize: FontSize.MEDIUM,
           bold: false,
           alignment: 'left',
-        },
+        }),
         visible: true,
       },
       timeUntil: {
         id: 'timeUntil',
         region: CALENDAR_LAYOUT.TIME_UNTIL,
         content: timeUntil || '',
-        style: {
+        style: this.fitStyle({
           fontSize: FontSize.MEDIUM,
           bold: true,
           alignment: 'left',
-        },
+        }),
         visible: !!timeUntil,
       },
     };
@@ -121,11 +164,11 @@ export class DisplayRenderer implements IDisplayRenderer {
         id: 'location',
         region: CALENDAR_LAYOUT.LOCATION,
         content: this.textFormatter.formatLocation(location, 50),
-        style: {
+        style: this.fitStyle({
           fontSize: FontSize.SMALL,
           bold: false,
           alignment: 'left',
-        },
+        }),
         visible: true,
       };
     }
@@ -135,11 +178,11 @@ export class DisplayRenderer implements IDisplayRenderer {
         id: 'duration',
         region: CALENDAR_LAYOUT.DURATION,
         content: duration,
-        style: {
+        style: this.fitStyle({
           fontSize: FontSize.SMALL,
           bold: false,
           alignment: 'left',
-        },
+        }),
         visible: true,
       };
     }
@@ -147,6 +190,196 @@ export class DisplayRenderer implements IDisplayRenderer {
     return layout;
   }
 
+  /**
+   * Create a one-line alert banner for the top of the screen
+   */
+  createBannerElement(text: string): DisplayElement {
+    const style = this.fitStyle({
+      fontSize: FontSize.SMALL,
+      bold: true,
+      inverted: true,
+      alignment: 'left',
+    });
+
+    return {
+      id: 'banner',
+      region: CALENDAR_LAYOUT.BANNER,
+      content: this.truncateText(text, CALENDAR_LAYOUT.BANNER.width, style),
+      style,
+      visible: true,
+    };
+  }
+
+  /**
+   * Draw a progress bar: an outline filled from the left by the share elapsed (0-1)
+   */
+  createProgressBar(progress: number): BitmapData {
+    const { width, height } = CALENDAR_LAYOUT.PROGRESS;
+    const bar: BitmapData = { width, height, data: new Uint8Array(Math.ceil(width / 8) * height) };
+
+    this.fillBitmap(bar, 0, 0, width, 1);
+    this.fillBitmap(bar, 0, height - 1, width, 1);
+    this.fillBitmap(bar, 0, 0, 1, height);
+    this.fillBitmap(bar, width - 1, 0, 1, height);
+
+    // A pixel of space between the outline and the fill
+    const filled = Math.round(Math.max(0, Math.min(1, progress)) * (width - 4));
+    this.fillBitmap(bar, 2, 2, filled, height - 4);
+
+    return bar;
+  }
+
+  /**
+   * Create one page of the agenda
+   * Pages hold AGENDA_LAYOUT.ROWS_PER_PAGE events; a page past either end is clamped
+   */
+  createAgendaLayout(entries: AgendaEntry[], page: number): AgendaDisplayLayout {
+    const pageCount = Math.max(1, Math.ceil(entries.length / AGENDA_LAYOUT.ROWS_PER_PAGE));
+    const currentPage = Math.max(0, Math.min(pageCount - 1, page));
+    const first = currentPage * AGENDA_LAYOUT.ROWS_PER_PAGE;
+
+    const layout: AgendaDisplayLayout = {
+      header: {
+        id: 'agenda-header',
+        region: AGENDA_LAYOUT.HEADER,
+        content: entries.length > 0 ? 'Upcoming' : 'No upcoming events',
+        style: this.fitStyle({
+          fontSize: FontSize.MEDIUM,
+          bold: true,
+          alignment: 'left',
+        }),
+        visible: true,
+      },
+      rows: entries
+        .slice(first, first + AGENDA_LAYOUT.ROWS_PER_PAGE)
+        .map((entry, index) => this.createAgendaRow(entry, index)),
+      page: currentPage,
+      pageCount,
+    };
+
+    if (pageCount > 1) {
+      layout.pageIndicator = {
+        id: 'agenda-page',
+        region: AGENDA_LAYOUT.PAGE,
+        content: `${currentPage + 1}/${pageCount}`,
+        style: this.fitStyle({
+          fontSize: FontSize.SMALL,
+          bold: false,
+          alignment: 'right',
+        }),
+        visible: true,
+      };
+    }
+
+    return layout;
+  }
+
+  /**
+   * Create the timeline for the day containing now
+   * The range covers the working day, widened to whole hours around every event and now
+   */
+  createTimelineLayout(entries: TimelineEntry[], now: Date): TimelineDisplayLayout {
+    const day = getDayBounds(now);
+    const blocks = entries
+      .map(entry => ({
+        start: Math.max(entry.start.getTime(), day.start.getTime()),
+        end: Math.min(entry.end.getTime(), day.end.getTime()),
+      }))
+      .filter(block => block.end > block.start);
+
+    const rangeStart = new Date(Math.min(
+      day.start.getTime() + TIMELINE_LAYOUT.DAY_START_HOUR * HOUR_MS,
+      now.getTime(),
+      ...blocks.map(block => block.start)
+    ));
+    const rangeEnd = new Date(Math.max(
+      day.start.getTime() + TIMELINE_LAYOUT.DAY_END_HOUR * HOUR_MS,
+      now.getTime(),
+      ...blocks.map(block => block.end)
+    ));
+    rangeStart.setMinutes(0, 0, 0);
+    if (rangeEnd.getMinutes() || rangeEnd.getSeconds() || rangeEnd.getMilliseconds()) {
+      rangeEnd.setMinutes(60, 0, 0);
+    }
+
+    const { width, height } = TIMELINE_LAYOUT.BAR;
+    const bar: BitmapData = { width, height, data: new Uint8Array(Math.ceil(width / 8) * height) };
+    const span = rangeEnd.getTime() - rangeStart.getTime();
+    const xAt = (time: number) => Math.round(((time - rangeStart.getTime()) / span) * width);
+
+    // Blocks stop a pixel short so back-to-back events stay apart; overlapping ones merge
+    for (const block of blocks) {
+      const x = xAt(block.start);
+      this.fillBitmap(
+        bar,
+        x,
+        TIMELINE_LAYOUT.BLOCK_TOP,
+        Math.max(TIMELINE_LAYOUT.MIN_BLOCK_WIDTH, xAt(block.end) - x - 1),
+        TIMELINE_LAYOUT.BLOCK_BOTTOM - TIMELINE_LAYOUT.BLOCK_TOP
+      );
+    }
+
+    // Free time is where only the axis shows
+    this.fillBitmap(bar, 0, TIMELINE_LAYOUT.AXIS_Y, width, 1);
+
+    const hours = Math.round(span / HOUR_MS);
+    const labelEvery = [1, 2, 3, 4, 6].find(step => (step * width) / hours >= TIMELINE_LAYOUT.MIN_LABEL_SPACING) || 12;
+    const labelStyle = this.fitStyle({ fontSize: FontSize.SMALL, bold: false, alignment: 'center' });
+    const hourLabels: DisplayElement[] = [];
+
+    for (let hour = 0; hour <= hours; hour++) {
+      const time = rangeStart.getTime() + hour * HOUR_MS;
+      const x = Math.min(width - 1, xAt(time));
+      this.fillBitmap(bar, x, TIMELINE_LAYOUT.AXIS_Y + 1, 1, TIMELINE_LAYOUT.TICK_LENGTH);
+
+      if (hour % labelEvery === 0) {
+        const labelX = TIMELINE_LAYOUT.BAR.x + x - TIMELINE_LAYOUT.LABEL_WIDTH / 2;
+        hourLabels.push({
+          id: `timeline-hour-${hour}`,
+          region: {
+            x: Math.max(0, Math.min(DISPLAY_DIMENSIONS.WIDTH - TIMELINE_LAYOUT.LABEL_WIDTH, labelX)),
+            y: TIMELINE_LAYOUT.LABEL_Y,
+            width: TIMELINE_LAYOUT.LABEL_WIDTH,
+            height: TIMELINE_LAYOUT.LABEL_HEIGHT,
+          },
+          content: this.textFormatter.formatHour(new Date(time), '12h'),
+          style: labelStyle,
+          visible: true,
+        });
+      }
+    }
+
+    // Inverted so the marker shows over an event as well as over free time
+    this.fillBitmap(
+      bar,
+      Math.min(width - TIMELINE_LAYOUT.NOW_MARKER_WIDTH, xAt(now.getTime())),
+      0,
+      TIMELINE_LAYOUT.NOW_MARKER_WIDTH,
+      TIMELINE_LAYOUT.AXIS_Y,
+      true
+    );
+
+    return {
+      header: {
+        id: 'timeline-header',
+        region: TIMELINE_LAYOUT.HEADER,
+        content: blocks.length > 0
+          ? `Today - ${blocks.length} event${blocks.length === 1 ? '' : 's'}`
+          : 'No events today',
+        style: this.fitStyle({
+          fontSize: FontSize.MEDIUM,
+          bold: true,
+          alignment: 'left',
+        }),
+        visible: true,
+      },
+      hourLabels,
+      bar,
+      rangeStart,
+      rangeEnd,
+    };
+  }
+
   /**
    * Wrap text to fit within width constraints
    */
@@ -240,6 +473,7 @@ export class DisplayRenderer implements IDisplayRenderer {
       if (layout.location?.visible) elements.push(layout.location);
       if (layout.timeUntil.visible) elements.push(layout.timeUntil);
       if (layout.duration?.visible) elements.push(layout.duration);
+      if (layout.banner?.visible) elements.push(layout.banner);
 
       this.currentLayout = layout;
       this.state.currentLayout = layout;
@@ -249,6 +483,7 @@ export class DisplayRenderer implements IDisplayRenderer {
         type: DisplayUpdateType.FULL,
         elements,
         clearBefore: true,
+        graphics: this.getProgressGraphics(layout),
         timestamp: new Date(),
       };
 
@@ -261,6 +496,78 @@ export class DisplayRenderer implements IDisplayRenderer {
     }
   }
 
+  /**
+   * Render one page of the agenda
+   */
+  renderAgendaLayout(layout: AgendaDisplayLayout): DisplayUpdate {
+    const startTime = Date.now();
+
+    try {
+      const elements: DisplayElement[] = [layout.header];
+      if (layout.pageIndicator) elements.push(layout.pageIndicator);
+
+      for (const row of layout.rows) {
+        elements.push(row.time, row.title);
+        if (row.locationMarker) elements.push(row.locationMarker);
+      }
+
+      if (layout.banner?.visible) elements.push(layout.banner);
+
+      // The event layout is no longer on screen, so there is nothing to diff against
+      this.currentLayout = null;
+      this.state.currentLayout = null;
+      this.state.lastUpdate = new Date();
+
+      const update: DisplayUpdate = {
+        type: DisplayUpdateType.FULL,
+        elements,
+        clearBefore: true,
+        timestamp: new Date(),
+      };
+
+      this.updateMetrics(Date.now() - startTime, true);
+
+      return update;
+    } catch (error) {
+      this.updateMetrics(Date.now() - startTime, false);
+      throw error;
+    }
+  }
+
+  /**
+   * Render the timeline: text elements, then the bar as GRAPHICS commands
+   */
+  renderTimelineLayout(layout: TimelineDisplayLayout): DisplayUpdate {
+    const startTime = Date.now();
+
+    try {
+      const elements: DisplayElement[] = [layout.header, ...layout.hourLabels];
+      if (layout.banner?.visible) elements.push(layout.banner);
+
+      const graphics = this.toGraphicsCommands(layout.bar, TIMELINE_LAYOUT.BAR.x, TIMELINE_LAYOUT.BAR.y);
+
+      // The event layout is no longer on screen, so there is nothing to diff against
+      this.currentLayout = null;
+      this.state.currentLayout = null;
+      this.state.lastUpdate = new Date();
+
+      const update: DisplayUpdate = {
+        type: DisplayUpdateType.FULL,
+        elements,
+        clearBefore: true,
+        graphics,
+        timestamp: new Date(),
+      };
+
+      this.updateMetrics(Date.now() - startTime, true);
+
+      return update;
+    } catch (error) {
+      this.updateMetrics(Date.now() - startTime, false);
+      throw error;
+    }
+  }
+
   /**
    * Render single element
    */
@@ -340,6 +647,9 @@ export class DisplayRenderer implements IDisplayRenderer {
     if (this.hasElementChanged(previous.duration, current.duration)) {
       if (current.duration) changedElements.push(current.duration);
     }
+    if (this.hasElementChanged(previous.banner, current.banner)) {
+      if (current.banner) changedElements.push(current.banner);
+    }
 
     const updateType = changedElements.length === 0
       ? DisplayUpdateType.FULL
@@ -353,6 +663,7 @@ export class DisplayRenderer implements IDisplayRenderer {
         ? this.getAllElements(current)
         : changedElements,
       clearBefore: updateType === DisplayUpdateType.FULL,
+      graphics: this.getProgressGraphics(current),
       timestamp: new Date(),
     };
   }
@@ -385,9 +696,141 @@ export class DisplayRenderer implements IDisplayRenderer {
     const elements: DisplayElement[] = [layout.title, layout.timeRange, layout.timeUntil];
     if (layout.location) elements.push(layout.location);
     if (layout.duration) elements.push(layout.duration);
+    if (layout.banner) elements.push(layout.banner);
     return elements.filter(e => e.visible);
   }
 
+  /**
+   * The progress bar moves on every update, so it is always redrawn
+   */
+  private getProgressGraphics(layout: CalendarDisplayLayout): GraphicsDisplayCommand[] | undefined {
+    if (!layout.progress) {
+      return undefined;
+    }
+
+    return this.toGraphicsCommands(layout.progress, CALENDAR_LAYOUT.PROGRESS.x, CALENDAR_LAYOUT.PROGRESS.y);
+  }
+
+  private createAgendaRow(entry: AgendaEntry, index: number): AgendaRow {
+    const y = AGENDA_LAYOUT.FIRST_ROW_Y + index * AGENDA_LAYOUT.ROW_HEIGHT;
+    const titleX = 10 + AGENDA_LAYOUT.TIME_WIDTH;
+    const titleWidth = DISPLAY_DIMENSIONS.WIDTH - 10 - titleX - AGENDA_LAYOUT.MARKER_WIDTH;
+    const timeStyle = this.fitStyle({ fontSize: FontSize.MEDIUM, bold: true, alignment: 'left' });
+    const titleStyle = this.fitStyle({ fontSize: FontSize.MEDIUM, bold: false, alignment: 'left' });
+
+    const row: AgendaRow = {
+      time: {
+        id: `agenda-row-${index}-time`,
+        region: { x: 10, y, width: AGENDA_LAYOUT.TIME_WIDTH, height: AGENDA_LAYOUT.ROW_HEIGHT },
+        content: this.truncateText(entry.time, AGENDA_LAYOUT.TIME_WIDTH, timeStyle),
+        style: timeStyle,
+        visible: true,
+      },
+      title: {
+        id: `agenda-row-${index}-title`,
+        region: { x: titleX, y, width: titleWidth, height: AGENDA_LAYOUT.ROW_HEIGHT },
+        content: this.truncateText(entry.title, titleWidth, titleStyle),
+        style: titleStyle,
+        visible: true,
+      },
+    };
+
+    if (entry.hasLocation) {
+      row.locationMarker = {
+        id: `agenda-row-${index}-location`,
+        region: {
+          x: titleX + titleWidth,
+          y,
+          width: AGENDA_LAYOUT.MARKER_WIDTH,
+          height: AGENDA_LAYOUT.ROW_HEIGHT,
+        },
+        content: AGENDA_LAYOUT.LOCATION_MARKER,
+        style: titleStyle,
+        visible: true,
+      };
+    }
+
+    return row;
+  }
+
+  /**
+   * Light a rectangle of a bitmap, or invert it, clipped to the bitmap's edges
+   */
+  private fillBitmap(
+    bitmap: BitmapData,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    invert: boolean = false
+  ): void {
+    const stride = Math.ceil(bitmap.width / 8);
+
+    for (let row = Math.max(0, y); row < Math.min(bitmap.height, y + height); row++) {
+      for (let col = Math.max(0, x); col < Math.min(bitmap.width, x + width); col++) {
+        const index = row * stride + (col >> 3);
+        const mask = 0x80 >> (col & 7);
+        bitmap.data[index] = invert ? bitmap.data[index] ^ mask : bitmap.data[index] | mask;
+      }
+    }
+  }
+
+  /**
+   * Split a bitmap into bands of whole rows that each fit one GRAPHICS payload
+   * Blank bands are left out; full-screen updates clear the display first
+   */
+  private toGraphicsCommands(bitmap: BitmapData, x: number, y: number): GraphicsDisplayCommand[] {
+    const stride = Math.ceil(bitmap.width / 8);
+    const maxPayloadSize = this.capabilities?.maxPayloadSize || DEFAULT_MAX_PAYLOAD_SIZE;
+    const rowsPerBand = Math.max(1, Math.floor((maxPayloadSize - GRAPHICS_HEADER_SIZE) / stride));
+    const commands: GraphicsDisplayCommand[] = [];
+
+    for (let row = 0; row < bitmap.height; row += rowsPerBand) {
+      const height = Math.min(rowsPerBand, bitmap.height - row);
+      const data = bitmap.data.slice(row * stride, (row + height) * stride);
+      if (data.every(byte => byte === 0)) continue;
+
+      commands.push({
+        type: DisplayCommandType.GRAPHICS,
+        x,
+        y: y + row,
+        width: bitmap.width,
+        height,
+        data,
+      });
+    }
+
+    return commands;
+  }
+
+  /**
+   * Nearest font size the glasses can draw, without styles they can't
+   */
+  private fitStyle(style: TextStyle): TextStyle {
+    if (!this.capabilities) {
+      return style;
+    }
+
+    const { minFontSize, maxFontSize } = this.capabilities;
+    const sizes = [FontSize.SMALL, FontSize.MEDIUM, FontSize.LARGE, FontSize.XLARGE]
+      .filter(size => size >= minFontSize && size <= maxFontSize);
+    const fitted: TextStyle = { ...style };
+
+    if (sizes.length > 0 && !sizes.includes(style.fontSize)) {
+      fitted.fontSize = sizes.reduce((best, size) =>
+        Math.abs(size - style.fontSize) < Math.abs(best - style.fontSize) ? size : best
+      );
+    }
+
+    if (!this.supportsFeature(G2Feature.TEXT_STYLES)) {
+      fitted.bold = false;
+      fitted.inverted = false;
+      fitted.underline = false;
+    }
+
+    return fitted;
+  }
+
   private getCharWidth(fontSize: FontSize): number {
     // Approximate character width based on font size
     switch (fontSize) {
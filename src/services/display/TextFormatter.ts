@@ -68,6 +68,28 @@ export class TextFormatter implements ITextFormatter {
     return 'Starting now';
   }
 
+  /**
+   * Format time left in an event (e.g., "Ends in 12 min", "Ends in 1h 5m")
+   */
+  formatTimeRemaining(milliseconds: number): string {
+    const minutes = Math.floor(milliseconds / (1000 * 60));
+    const hours = Math.floor(minutes / 60);
+    
+    if (hours > 0) {
+      const remainingMinutes = minutes % 60;
+      if (remainingMinutes > 0) {
+        return `Ends in ${hours}h ${remainingMinutes}m`;
+      }
+      return `Ends in ${hours} hour${hours > 1 ? 's' : ''}`;
+    }
+    
+    if (minutes > 0) {
+      return `Ends in ${minutes} min`;
+    }
+    
+    return 'Ending now';
+  }
+
   /**
    * Format date (e.g., "Today", "Tomorrow", "Jan 15")
    */
@@ -94,6 +116,37 @@ export class TextFormatter implements ITextFormatter {
     }
   }
 
+  /**
+   * Format the start of an agenda row (e.g., "10:00 AM", "Tue 10:00 AM", "Now")
+   * The weekday is only shown for events on a later day
+   */
+  formatAgendaTime(start: Date, end: Date, allDay: boolean, timeFormat: '12h' | '24h' = '12h'): string {
+    const now = new Date();
+    
+    if (start <= now && end > now) {
+      return allDay ? 'Today' : 'Now';
+    }
+    
+    const sameDay =
+      start.getDate() === now.getDate() &&
+      start.getMonth() === now.getMonth() &&
+      start.getFullYear() === now.getFullYear();
+    
+    if (allDay) {
+      return sameDay ? 'Today' : format(start, 'EEE');
+    }
+    
+    const formatString = timeFormat === '12h' ? 'h:mm a' : 'HH:mm';
+    return format(start, sameDay ? formatString : `EEE ${formatString}`);
+  }
+
+  /**
+   * Format an hour mark (e.g., "9 AM", "09:00")
+   */
+  formatHour(date: Date, timeFormat: '12h' | '24h' = '12h'): string {
+    return format(date, timeFormat === '12h' ? 'h a' : 'HH:mm');
+  }
+
   /**
    * Truncate text with ellipsis
    */
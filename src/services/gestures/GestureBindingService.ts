@@ -0,0 +1,146 @@
+/**
+ * Gesture Binding Service
+ * Maps TouchBar gestures to app actions, per arm and per screen (AsyncStorage)
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { G2Arm, TouchBarEventType } from '@/types/ble.types';
+import { GestureAction, GestureBinding, GlassesScreen } from '@/types/gesture.types';
+
+/**
+ * AsyncStorage key for the bindings
+ */
+const STORAGE_KEY = '@even_g2/gesture_bindings';
+
+/**
+ * Bindings used until the user changes them
+ */
+export const DEFAULT_GESTURE_BINDINGS: GestureBinding[] = [
+  { gesture: TouchBarEventType.SWIPE_DOWN, arm: null, screen: null, action: GestureAction.NEXT_EVENT },
+  { gesture: TouchBarEventType.SWIPE_UP, arm: null, screen: null, action: GestureAction.PREVIOUS_EVENT },
+  { gesture: TouchBarEventType.TAP, arm: null, screen: GlassesScreen.NEXT_EVENT, action: GestureAction.DISMISS },
+  { gesture: TouchBarEventType.TAP, arm: null, screen: GlassesScreen.IDLE, action: GestureAction.NEXT_EVENT },
+  { gesture: TouchBarEventType.DOUBLE_TAP, arm: null, screen: null, action: GestureAction.TOGGLE_AGENDA },
+  { gesture: TouchBarEventType.TRIPLE_TAP, arm: null, screen: null, action: GestureAction.CLEAR_DISPLAY },
+  { gesture: TouchBarEventType.TRIPLE_TAP, arm: G2Arm.LEFT, screen: null, action: GestureAction.BRIGHTNESS_DOWN },
+  { gesture: TouchBarEventType.TRIPLE_TAP, arm: G2Arm.RIGHT, screen: null, action: GestureAction.BRIGHTNESS_UP },
+  { gesture: TouchBarEventType.PRESS_HOLD, arm: null, screen: GlassesScreen.NEXT_EVENT, action: GestureAction.SNOOZE },
+  { gesture: TouchBarEventType.PRESS_HOLD, arm: null, screen: GlassesScreen.AGENDA, action: GestureAction.TOGGLE_TIMELINE },
+  { gesture: TouchBarEventType.PRESS_HOLD, arm: null, screen: GlassesScreen.TIMELINE, action: GestureAction.TOGGLE_TIMELINE },
+];
+
+/**
+ * Gesture Binding Service Implementation
+ */
+export class GestureBindingService {
+  private bindings: GestureBinding[] = [...DEFAULT_GESTURE_BINDINGS];
+  private loaded = false;
+
+  /**
+   * Load bindings from storage (cached after the first call)
+   */
+  async load(): Promise<GestureBinding[]> {
+    if (this.loaded) {
+      return this.getBindings();
+    }
+
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        // Entries from an older app version may name gestures or actions that no longer exist
+        this.bindings = (JSON.parse(stored) as GestureBinding[]).filter(binding => this.isValid(binding));
+      }
+    } catch (error) {
+      console.error('Failed to load gesture bindings:', error);
+      this.bindings = [...DEFAULT_GESTURE_BINDINGS];
+    }
+
+    this.loaded = true;
+    return this.getBindings();
+  }
+
+  getBindings(): GestureBinding[] {
+    return this.bindings.map(binding => ({ ...binding }));
+  }
+
+  /**
+   * Action for a gesture on the given arm and screen
+   */
+  resolve(gesture: TouchBarEventType, arm: G2Arm | null, screen: GlassesScreen): GestureAction {
+    let match: GestureBinding | null = null;
+    let matchScore = -1;
+
+    for (const binding of this.bindings) {
+      if (
+        binding.gesture !== gesture ||
+        (binding.arm !== null && binding.arm !== arm) ||
+        (binding.screen !== null && binding.screen !== screen)
+      ) {
+        continue;
+      }
+
+      const score = (binding.screen !== null ? 2 : 0) + (binding.arm !== null ? 1 : 0);
+      if (score > matchScore) {
+        match = binding;
+        matchScore = score;
+      }
+    }
+
+    return match ? match.action : GestureAction.NONE;
+  }
+
+  /**
+   * Bind a gesture, replacing any binding for the same gesture, arm and screen
+   */
+  async setBinding(binding: GestureBinding): Promise<void> {
+    if (!this.isValid(binding)) {
+      throw new Error('Invalid gesture binding');
+    }
+
+    this.bindings = this.bindings.filter(existing => !this.isSameSlot(existing, binding));
+    this.bindings.push({ ...binding });
+    await this.save();
+  }
+
+  /**
+   * Remove the binding for a gesture, arm and screen so a broader one applies
+   */
+  async removeBinding(gesture: TouchBarEventType, arm: G2Arm | null, screen: GlassesScreen | null): Promise<void> {
+    this.bindings = this.bindings.filter(existing => !this.isSameSlot(existing, { gesture, arm, screen }));
+    await this.save();
+  }
+
+  /**
+   * Restore the default bindings
+   */
+  async reset(): Promise<void> {
+    this.bindings = [...DEFAULT_GESTURE_BINDINGS];
+    await this.save();
+  }
+
+  private isSameSlot(a: Omit<GestureBinding, 'action'>, b: Omit<GestureBinding, 'action'>): boolean {
+    return a.gesture === b.gesture && a.arm === b.arm && a.screen === b.screen;
+  }
+
+  private isValid(binding: GestureBinding): boolean {
+    return (
+      Object.values(TouchBarEventType).includes(binding.gesture) &&
+      (binding.arm === null || Object.values(G2Arm).includes(binding.arm)) &&
+      (binding.screen === null || Object.values(GlassesScreen).includes(binding.screen)) &&
+      Object.values(GestureAction).includes(binding.action)
+    );
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.bindings));
+    } catch (error) {
+      console.error('Failed to save gesture bindings:', error);
+    }
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const gestureBindingService = new GestureBindingService();
@@ -0,0 +1,65 @@
+/**
+ * Battery Type Definitions
+ * Battery monitoring for both arms of the G2
+ */
+
+import { G2Arm } from './ble.types';
+
+/**
+ * Battery Status
+ * Derived from the emptiest arm
+ */
+export enum BatteryStatus {
+  NORMAL = 'NORMAL',
+  LOW = 'LOW',
+  CRITICAL = 'CRITICAL',
+}
+
+/**
+ * Where a battery reading came from
+ */
+export type BatteryReadingSource = 'poll' | 'notification';
+
+/**
+ * Battery Reading
+ * One entry in the battery history
+ */
+export interface BatteryReading {
+  level: number; // 0-100, emptiest arm at the time of the reading
+  arms: Partial<Record<G2Arm, number>>;
+  source: BatteryReadingSource;
+  timestamp: Date;
+}
+
+/**
+ * Battery State
+ */
+export interface BatteryState {
+  level: number | null; // null until the first reading
+  status: BatteryStatus;
+  arms: Partial<Record<G2Arm, number>>;
+  drainRate: number | null; // % per hour, null until enough history is collected
+  minutesRemaining: number | null;
+  notificationsActive: boolean;
+  lastUpdated: Date | null;
+}
+
+/**
+ * Battery Service Configuration
+ */
+export interface BatteryServiceConfig {
+  lowThreshold: number; // %
+  criticalThreshold: number; // %
+  hysteresis: number; // % a level must rise above a threshold before the alert clears
+  pollIntervals: Record<BatteryStatus, number>; // ms between reads, per status
+  notificationPollInterval: number; // ms between safety-net reads while notifications are flowing
+  maxHistory: number; // Readings kept in memory
+  drainWindow: number; // ms of history used to estimate the drain rate
+  minDrainSpan: number; // ms of history needed before estimating
+}
+
+/**
+ * Battery Callbacks
+ */
+export type BatteryStateCallback = (state: BatteryState) => void;
+export type BatteryStatusCallback = (status: BatteryStatus, state: BatteryState) => void;
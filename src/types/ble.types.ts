@@ -3,8 +3,6 @@
  * Based on reverse-engineered protocol from i-soxi/even-g2-protocol
  */
 
-import { Device, Characteristic } from 'react-native-ble-plx';
-
 /**
  * G2 BLE Service and Characteristic UUIDs
  * These are placeholders - replace with actual UUIDs from protocol documentation
@@ -20,6 +18,8 @@ export const G2_UUIDS = {
   TEXT_CHARACTERISTIC: '0000fff1-0000-1000-8000-00805f9b34fb',
   GRAPHICS_CHARACTERISTIC: '0000fff2-0000-1000-8000-00805f9b34fb',
   CLEAR_CHARACTERISTIC: '0000fff3-0000-1000-8000-00805f9b34fb',
+  STATUS_CHARACTERISTIC: '0000fff4-0000-1000-8000-00805f9b34fb', // ACK/NACK notifications
+  CAPABILITIES_CHARACTERISTIC: '0000fff5-0000-1000-8000-00805f9b34fb', // Read-only descriptor, newer firmware only
   
   // Input Service (TouchBar events)
   INPUT_SERVICE: '0000ffe0-0000-1000-8000-00805f9b34fb',
@@ -29,8 +29,108 @@ export const G2_UUIDS = {
   CONFIG_SERVICE: '0000ffd0-0000-1000-8000-00805f9b34fb',
   BRIGHTNESS_CHARACTERISTIC: '0000ffd1-0000-1000-8000-00805f9b34fb',
   SETTINGS_CHARACTERISTIC: '0000ffd2-0000-1000-8000-00805f9b34fb',
+  
+  // Firmware Update Service
+  DFU_SERVICE: '0000ffc0-0000-1000-8000-00805f9b34fb',
+  DFU_CONTROL_CHARACTERISTIC: '0000ffc1-0000-1000-8000-00805f9b34fb', // Requests and responses
+  DFU_DATA_CHARACTERISTIC: '0000ffc2-0000-1000-8000-00805f9b34fb', // Image chunks
+} as const;
+
+/**
+ * G2 Manufacturer Data
+ * Layout: [company id 2B LE][model][arm][fw major][fw minor][battery %][flags]
+ */
+export const G2_MANUFACTURER_DATA = {
+  COMPANY_ID: 0xffff, // Bluetooth SIG test id - replace once the vendor id is confirmed
+  LENGTH: 8,
+  MODEL_G2: 0x02,
+  ARM_LEFT: 0x00,
+  ARM_RIGHT: 0x01,
+  ARM_NONE: 0xff, // Single-peripheral device
+  FLAG_PAIRING: 0x01,
+} as const;
+
+/**
+ * G2 Capabilities Descriptor
+ * Layout: [format][protocol version][features 2B LE][min font][max font][max payload 2B LE]
+ */
+export const G2_CAPABILITIES = {
+  FORMAT: 0x01,
+  LENGTH: 8,
+} as const;
+
+/**
+ * Optional G2 Features (bitmask in the capabilities descriptor)
+ */
+export enum G2Feature {
+  TEXT_STYLES = 0x0001, // Bold, inverted and underline flags
+  GRAPHICS = 0x0002,
+  REFRESH = 0x0004, // Deferred frames
+  PING = 0x0008,
+  CLEAR_REGION = 0x0010,
+  BRIGHTNESS = 0x0020,
+}
+
+/**
+ * G2 Settings Record
+ * Layout: [format] then one [key][length][value] entry per setting
+ */
+export const G2_SETTINGS = {
+  FORMAT: 0x01,
+  MAX_DISPLAY_TIMEOUT: 600, // seconds
+  MAX_HEAD_UP_ANGLE: 60, // degrees
 } as const;
 
+/**
+ * Settings record keys
+ */
+export enum G2SettingKey {
+  DISPLAY_TIMEOUT = 0x01, // 2B LE seconds
+  HEAD_UP_ANGLE = 0x02, // 1B degrees
+  WEAR_DETECTION = 0x03, // 1B, 0 or 1
+  LANGUAGE = 0x04, // 1B G2Language
+}
+
+/**
+ * Glasses UI Language
+ */
+export enum G2Language {
+  ENGLISH = 0x01,
+  GERMAN = 0x02,
+  FRENCH = 0x03,
+  SPANISH = 0x04,
+  ITALIAN = 0x05,
+  JAPANESE = 0x06,
+  CHINESE = 0x07,
+  KOREAN = 0x08,
+}
+
+/**
+ * Characteristic Route
+ * Service/characteristic pair a command is written to
+ */
+export interface CharacteristicRoute {
+  serviceUUID: string;
+  characteristicUUID: string;
+}
+
+/**
+ * G2 Arms
+ * Each arm of the glasses is a separate BLE peripheral
+ */
+export enum G2Arm {
+  LEFT = 'LEFT',
+  RIGHT = 'RIGHT',
+}
+
+/**
+ * How a session distributes display commands across the arms
+ */
+export enum ArmRoutingMode {
+  MIRROR = 'MIRROR', // Every command goes to every connected arm
+  SPLIT = 'SPLIT', // Commands go to the primary arm unless WriteOptions.arms says otherwise
+}
+
 /**
  * BLE Connection States
  */
@@ -39,6 +139,8 @@ export enum BLEConnectionState {
   SCANNING = 'SCANNING',
   CONNECTING = 'CONNECTING',
   CONNECTED = 'CONNECTED',
+  PARTIALLY_CONNECTED = 'PARTIALLY_CONNECTED', // One arm of a dual-arm session is down
+  RECONNECTING = 'RECONNECTING', // Link lost, backing off between reconnect attempts
   DISCONNECTING = 'DISCONNECTING',
   ERROR = 'ERROR',
 }
@@ -57,6 +159,7 @@ export enum BLEErrorType {
   SERVICE_NOT_FOUND = 'SERVICE_NOT_FOUND',
   CHARACTERISTIC_NOT_FOUND = 'CHARACTERISTIC_NOT_FOUND',
   TIMEOUT = 'TIMEOUT',
+  QUEUE_FULL = 'QUEUE_FULL',
   UNKNOWN = 'UNKNOWN',
 }
 
@@ -68,6 +171,7 @@ export interface BLEError {
   message: string;
   originalError?: Error;
   timestamp: Date;
+  arm?: G2Arm; // Set by G2Session for errors raised by one arm
 }
 
 /**
@@ -81,6 +185,34 @@ export interface G2DeviceInfo {
   firmwareVersion?: string;
   isConnected: boolean;
   lastSeen: Date;
+  arms?: Partial<Record<G2Arm, string>>; // Peripheral id per arm, for dual-arm glasses
+  advertisement?: G2Advertisement; // Parsed manufacturer data from the last scan result
+}
+
+/**
+ * G2 Advertisement
+ * Manufacturer data parsed from a scan result
+ */
+export interface G2Advertisement {
+  companyId: number;
+  model: number;
+  arm: G2Arm | null; // null for a single-peripheral device
+  firmwareVersion: string; // "major.minor"
+  batteryLevel: number;
+  pairingMode: boolean;
+}
+
+/**
+ * Paired G2 Device
+ * Persisted so the app can find the glasses again without a manual scan
+ */
+export interface KnownDevice {
+  id: string;
+  name: string;
+  lastRssi: number;
+  firmwareVersion?: string;
+  pairedAt: Date;
+  lastConnected: Date;
 }
 
 /**
@@ -101,6 +233,16 @@ export enum DisplayCommandType {
   GRAPHICS = 0x03,
   BRIGHTNESS = 0x04,
   REFRESH = 0x05,
+  PING = 0x06, // No-op the G2 acknowledges; used as a heartbeat
+}
+
+/**
+ * Text Style Flags (bitmask)
+ */
+export enum TextStyleFlag {
+  BOLD = 0x01,
+  INVERTED = 0x02,
+  UNDERLINE = 0x04,
 }
 
 /**
@@ -114,6 +256,9 @@ export interface TextDisplayCommand {
   alignment: TextAlignment;
   fontSize?: number;
   bold?: boolean;
+  inverted?: boolean; // Dark text on a lit background
+  underline?: boolean;
+  maxWidth?: number; // Clip width in pixels from x, 0 or omitted = no clip
 }
 
 /**
@@ -130,7 +275,8 @@ export interface ClearDisplayCommand {
 }
 
 /**
- * Graphics Display Command (for future use)
+ * Graphics Display Command
+ * Rows are padded to whole bytes; see BLE_PROTOCOL.md
  */
 export interface GraphicsDisplayCommand {
   type: DisplayCommandType.GRAPHICS;
@@ -150,6 +296,30 @@ export interface BrightnessCommand {
   auto?: boolean;
 }
 
+/**
+ * Refresh Modes
+ */
+export enum RefreshMode {
+  COMMIT = 0x00, // Present the back buffer and return to immediate drawing
+  BEGIN_DEFERRED = 0x01, // Draw subsequent commands into a fresh back buffer
+}
+
+/**
+ * Refresh Command
+ */
+export interface RefreshCommand {
+  type: DisplayCommandType.REFRESH;
+  mode: RefreshMode;
+}
+
+/**
+ * Ping Command
+ * Empty payload; proves the G2 is still processing commands
+ */
+export interface PingCommand {
+  type: DisplayCommandType.PING;
+}
+
 /**
  * Union of all display commands
  */
@@ -157,7 +327,9 @@ export type DisplayCommand =
   | TextDisplayCommand
   | ClearDisplayCommand
   | GraphicsDisplayCommand
-  | BrightnessCommand;
+  | BrightnessCommand
+  | RefreshCommand
+  | PingCommand;
 
 /**
  * BLE Command Packet Structure
@@ -171,6 +343,26 @@ export interface BLECommandPacket {
   checksum: number;
 }
 
+/**
+ * Link Fragment
+ * One MTU-sized slice of an encoded frame
+ */
+export interface PacketFragment {
+  messageId: number; // Rolling id shared by all fragments of a frame
+  index: number; // 0-based position within the frame
+  total: number; // Number of fragments in the frame
+  data: Uint8Array; // Frame slice
+}
+
+/**
+ * Command Envelope
+ * Sequence-numbered wrapper around an encoded frame, acknowledged by the G2
+ */
+export interface CommandEnvelope {
+  sequence: number; // 0-65535, rolling
+  frame: Uint8Array;
+}
+
 /**
  * TouchBar Event Types
  */
@@ -183,24 +375,154 @@ export enum TouchBarEventType {
   SWIPE_DOWN = 'SWIPE_DOWN',
 }
 
+/**
+ * TouchBar Event Payload
+ * Legacy: [event type][timestamp 4B LE], a single event
+ * Packet: [count] then one [event type][side][timestamp 4B LE][detail 2B LE] record per event
+ */
+export const G2_TOUCHBAR = {
+  LEGACY_LENGTH: 5,
+  RECORD_LENGTH: 8,
+  SIDE_LEFT: 0x00, // Same values as the arm byte in manufacturer data
+  SIDE_RIGHT: 0x01,
+  SIDE_UNKNOWN: 0xff,
+  MAX_DETAIL: 0xffff,
+} as const;
+
 /**
  * TouchBar Event
  */
 export interface TouchBarEvent {
   type: TouchBarEventType;
-  timestamp: Date;
+  code: number; // Event type byte as received; the encoder derives it from type
+  arm: G2Arm | null; // Touched side, null when neither the payload nor the session knows it
+  duration?: number; // PRESS_HOLD only, ms
+  velocity?: number; // SWIPE_UP / SWIPE_DOWN only, mm/s along the bar
+  timestamp: Date; // Time of receipt
+}
+
+/**
+ * Notification Types
+ * Command byte of frames sent by the G2 over notify characteristics
+ */
+export enum NotificationType {
+  TOUCHBAR = 0x81,
+  ACK = 0x82,
+  NACK = 0x83,
+}
+
+/**
+ * Reasons reported by the G2 when it rejects a command
+ */
+export enum NackReason {
+  CHECKSUM_MISMATCH = 0x01,
+  INVALID_COMMAND = 0x02,
+  BUSY = 0x03,
+  UNKNOWN = 0xFF,
+}
+
+/**
+ * TouchBar Notification
+ */
+export interface TouchBarNotification {
+  type: NotificationType.TOUCHBAR;
+  events: TouchBarEvent[]; // In the order they happened
 }
 
+/**
+ * Acknowledgement Notification
+ */
+export interface AckNotification {
+  type: NotificationType.ACK;
+  sequence: number;
+}
+
+/**
+ * Negative Acknowledgement Notification
+ */
+export interface NackNotification {
+  type: NotificationType.NACK;
+  sequence: number;
+  reason: NackReason;
+}
+
+/**
+ * Union of all decoded notifications
+ */
+export type G2Notification = TouchBarNotification | AckNotification | NackNotification;
+
 /**
  * BLE Manager Configuration
  */
 export interface BLEManagerConfig {
   scanTimeout: number; // ms
   connectionTimeout: number; // ms
-  reconnectDelay: number; // ms
+  reconnectDelay: number; // ms, base delay doubled on each attempt
+  maxReconnectDelay: number; // ms, upper bound for the backoff
+  reconnectJitter: number; // 0-1, fraction of each delay that is randomized
   maxReconnectAttempts: number;
   enableAutoReconnect: boolean;
-  rssiThreshold: number; // Minimum RSSI for connection
+  rssiThreshold: number; // dBm, weaker devices are left out of scan results
+  scanMode: BLEScanMode;
+  requireAcknowledgement: boolean; // Wait for ACK on the status characteristic
+  ackTimeout: number; // ms to wait for an ACK after the last fragment is written
+  maxRetransmissions: number; // Resends after a NACK or ACK timeout
+  maxQueueSize: number; // Pending writes before backpressure kicks in
+  writeTimeout: number; // ms a queued write may wait and run before it is abandoned
+  heartbeatInterval: number; // ms between link checks, 0 disables the heartbeat
+  heartbeatTimeout: number; // ms for the RSSI read and ping of one heartbeat
+  maxMissedHeartbeats: number; // Consecutive misses before the link is dropped and reconnected
+  metricsWindow: number; // ms of write history kept for link metrics
+  traceBufferSize: number; // Packets kept by the protocol tracer, 0 disables tracing
+  restoreState: boolean; // Reconnect to a peripheral the OS kept connected across an app relaunch
+}
+
+/**
+ * Link Quality Metrics
+ * Write statistics cover the last BLEManagerConfig.metricsWindow
+ */
+export interface LinkMetrics {
+  healthy: boolean; // Connected and the last heartbeat was answered
+  rssi: number | null; // dBm, from the last heartbeat
+  averageLatency: number | null; // ms from first write to ACK, per command
+  maxLatency: number | null;
+  commandsSent: number;
+  failures: number;
+  failureRate: number; // 0-1
+  retransmissions: number;
+  throughput: number; // bytes per second delivered
+  missedHeartbeats: number; // Consecutive
+  lastHeartbeat: Date | null; // Last answered heartbeat
+  connectedSince: Date | null;
+}
+
+/**
+ * Write Queue Priorities
+ * Higher values are sent first; equal priorities keep FIFO order
+ */
+export enum WritePriority {
+  BRIGHTNESS = 0,
+  LAYOUT = 1,
+  URGENT = 2, // Alerts that must pre-empt queued layout updates
+}
+
+/**
+ * Options for queued display writes
+ */
+export interface WriteOptions {
+  priority?: WritePriority;
+  coalesceKey?: string; // A newer pending write with the same key replaces this one
+  timeout?: number; // ms, overrides BLEManagerConfig.writeTimeout
+  arms?: G2Arm[]; // Target arms, overrides the session routing mode
+}
+
+/**
+ * G2 Session Configuration
+ */
+export interface G2SessionConfig {
+  routing: ArmRoutingMode;
+  primaryArm: G2Arm; // Target for SPLIT routing and single-arm reads
+  armDiscoveryTimeout: number; // ms to keep scanning for the second arm before connecting
 }
 
 /**
@@ -218,9 +540,15 @@ export interface BLEConnectionOptions {
 export interface BLEScanOptions {
   timeout?: number;
   allowDuplicates?: boolean;
-  scanMode?: 'lowPower' | 'balanced' | 'lowLatency';
+  scanMode?: BLEScanMode; // Overrides BLEManagerConfig.scanMode
+  rssiThreshold?: number; // dBm, overrides BLEManagerConfig.rssiThreshold
 }
 
+/**
+ * Scan duty cycle (Android; iOS manages this itself)
+ */
+export type BLEScanMode = 'lowPower' | 'balanced' | 'lowLatency';
+
 /**
  * Device Discovery Callback
  */
@@ -241,6 +569,144 @@ export type ErrorCallback = (error: BLEError) => void;
  */
 export type TouchBarEventCallback = (event: TouchBarEvent) => void;
 
+/**
+ * Battery Level Callback
+ * arm is set by G2Session for levels reported by one arm
+ */
+export type BatteryLevelCallback = (level: number, arm?: G2Arm) => void;
+
+/**
+ * Per-Arm Connection State Callback
+ */
+export type ArmStateCallback = (arm: G2Arm, state: BLEConnectionState) => void;
+
+/**
+ * Bluetooth Radio State Callback
+ */
+export type RadioStateCallback = (state: BLERadioState) => void;
+
+/**
+ * Radio State
+ * Bluetooth adapter state reported by a transport
+ */
+export enum BLERadioState {
+  UNKNOWN = 'UNKNOWN',
+  RESETTING = 'RESETTING',
+  UNSUPPORTED = 'UNSUPPORTED',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  POWERED_OFF = 'POWERED_OFF',
+  POWERED_ON = 'POWERED_ON',
+}
+
+/**
+ * Advertising peripheral seen during a transport scan
+ */
+export interface TransportScanResult {
+  id: string;
+  name: string | null;
+  rssi: number | null;
+  serviceUUIDs: string[] | null;
+  manufacturerData: Uint8Array | null;
+}
+
+/**
+ * Peripheral connection established by a transport
+ */
+export interface TransportConnection {
+  id: string;
+  name: string | null;
+  rssi: number | null;
+  mtu: number; // Negotiated ATT MTU
+}
+
+/**
+ * Discovered GATT service
+ */
+export interface TransportService {
+  uuid: string;
+  characteristicUUIDs: string[];
+}
+
+/**
+ * Transport Subscription
+ */
+export interface TransportSubscription {
+  remove(): void;
+}
+
+/**
+ * Transport Callbacks
+ */
+export type TransportScanListener = (error: Error | null, result: TransportScanResult | null) => void;
+export type TransportNotificationListener = (error: Error | null, data: Uint8Array | null) => void;
+export type TransportDisconnectListener = (error: Error | null) => void;
+export type RadioStateListener = (state: BLERadioState) => void;
+export type StateRestoredListener = (devices: TransportConnection[]) => void; // Peripherals still connected
+
+/**
+ * BLE Transport Interface
+ * Byte-level link to G2 peripherals beneath IBLEManager
+ */
+export interface IBLETransport {
+  // Radio
+  requestPermissions(): Promise<boolean>;
+  state(): Promise<BLERadioState>;
+  onStateChange(listener: RadioStateListener, emitCurrentState?: boolean): TransportSubscription;
+  onStateRestored(listener: StateRestoredListener): TransportSubscription; // Replays a restoration that already happened
+  
+  // Discovery
+  startScan(serviceUUIDs: string[] | null, options: BLEScanOptions, listener: TransportScanListener): void;
+  stopScan(): void;
+  
+  // Connection
+  connect(deviceId: string, options: BLEConnectionOptions): Promise<TransportConnection>;
+  discoverServices(deviceId: string): Promise<TransportService[]>;
+  cancelConnection(deviceId: string): Promise<void>;
+  onDisconnected(deviceId: string, listener: TransportDisconnectListener): TransportSubscription;
+  readRSSI(deviceId: string): Promise<number>;
+  
+  // GATT
+  read(deviceId: string, route: CharacteristicRoute): Promise<Uint8Array>;
+  write(deviceId: string, route: CharacteristicRoute, data: Uint8Array): Promise<void>;
+  monitor(
+    deviceId: string,
+    route: CharacteristicRoute,
+    listener: TransportNotificationListener
+  ): TransportSubscription;
+}
+
+/**
+ * Simulated G2 Peripheral Configuration
+ */
+export interface G2SimulatorConfig {
+  id: string;
+  name: string;
+  rssi: number;
+  mtu: number;
+  batteryLevel: number;
+  firmwareVersion: string;
+  arm: G2Arm | null; // Advertised arm, null for a single-peripheral device
+  services: TransportService[]; // GATT table exposed after discovery
+  capabilities: G2CapabilitiesDescriptor; // Enforced on commands, served if the GATT table has the capabilities characteristic
+  settings: G2Settings; // Initial settings; fields left out don't exist on the simulated firmware
+}
+
+/**
+ * Text run drawn by the simulator
+ * Glyphs are rasterized as solid cells, so tests assert on text through these runs
+ */
+export interface SimulatedTextRun {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text: string;
+  fontSize: number;
+  bold: boolean;
+  inverted: boolean;
+  underline: boolean;
+}
+
 /**
  * BLE Manager Interface
  */
@@ -256,31 +722,61 @@ export interface IBLEManager {
   getConnectedDevice(): G2DeviceInfo | null;
   getBatteryLevel(): Promise<number>;
   getFirmwareVersion(): Promise<string>;
+  getCapabilities(): G2Capabilities | null;
+  supportsFeature(feature: G2Feature): boolean;
+  getDiscoveredDevices(): G2DeviceInfo[];
+  getLinkMetrics(): LinkMetrics;
+  
+  // Settings
+  getSettings(): Promise<G2Settings>;
+  updateSettings(changes: G2Settings): Promise<G2Settings>;
   
   // Display Commands
-  sendCommand(command: DisplayCommand): Promise<void>;
+  sendCommand(command: DisplayCommand, options?: WriteOptions): Promise<void>;
+  sendCommands(commands: DisplayCommand[], options?: WriteOptions): Promise<void>;
   clearDisplay(region?: ClearDisplayCommand['region']): Promise<void>;
   setBrightness(level: number, auto?: boolean): Promise<void>;
+  beginFrame(): Promise<void>;
+  commitFrame(): Promise<void>;
   
   // Event Listeners
   onDeviceDiscovered(callback: DeviceDiscoveryCallback): void;
   onConnectionStateChange(callback: ConnectionStateCallback): void;
   onError(callback: ErrorCallback): void;
   onTouchBarEvent(callback: TouchBarEventCallback): void;
+  onBatteryLevelChange(callback: BatteryLevelCallback): void;
+  onRadioStateChange(callback: RadioStateCallback): void;
   
   // State
   getConnectionState(): BLEConnectionState;
+  getRadioState(): BLERadioState;
   isConnected(): boolean;
 }
 
+/**
+ * Frame Checksum Algorithms
+ */
+export enum ChecksumType {
+  XOR8 = 'XOR8', // 1 byte, XOR seeded with 0xFF
+  CRC16_CCITT = 'CRC16_CCITT', // 2 bytes LE, CRC-16/CCITT-FALSE
+}
+
 /**
  * Protocol Encoder Interface
  */
 export interface IProtocolEncoder {
+  readonly checksumType: ChecksumType;
   encodeTextCommand(command: TextDisplayCommand): Uint8Array;
   encodeClearCommand(command: ClearDisplayCommand): Uint8Array;
   encodeGraphicsCommand(command: GraphicsDisplayCommand): Uint8Array;
   encodeBrightnessCommand(command: BrightnessCommand): Uint8Array;
+  encodeRefreshCommand(command: RefreshCommand): Uint8Array;
+  encodePingCommand(command: PingCommand): Uint8Array;
+  encodeEnvelope(sequence: number, frame: Uint8Array): Uint8Array;
+  encodeNotification(notification: G2Notification): Uint8Array;
+  encodeManufacturerData(advertisement: G2Advertisement): Uint8Array;
+  encodeCapabilities(descriptor: G2CapabilitiesDescriptor): Uint8Array;
+  encodeSettings(settings: G2Settings): Uint8Array;
   calculateChecksum(data: Uint8Array): number;
 }
 
@@ -288,8 +784,69 @@ export interface IProtocolEncoder {
  * Protocol Decoder Interface
  */
 export interface IProtocolDecoder {
-  decodeTouchBarEvent(data: Uint8Array): TouchBarEvent;
+  readonly checksumType: ChecksumType;
+  decodeCommand(frame: Uint8Array): DisplayCommand;
+  decodeNotification(frame: Uint8Array): G2Notification | null;
+  decodeTouchBarEvents(payload: Uint8Array): TouchBarEvent[];
+  decodeEnvelope(data: Uint8Array): CommandEnvelope;
   decodeBatteryLevel(data: Uint8Array): number;
   decodeFirmwareVersion(data: Uint8Array): string;
+  decodeManufacturerData(data: Uint8Array): G2Advertisement | null;
+  decodeCapabilities(data: Uint8Array): G2CapabilitiesDescriptor | null;
+  decodeSettings(data: Uint8Array): G2Settings;
   validateChecksum(packet: Uint8Array): boolean;
 }
+
+/**
+ * Capabilities Descriptor
+ * Fields of the descriptor read from CAPABILITIES_CHARACTERISTIC
+ */
+export interface G2CapabilitiesDescriptor {
+  protocolVersion: number;
+  features: number; // G2Feature bitmask
+  minFontSize: number; // px
+  maxFontSize: number; // px
+  maxPayloadSize: number; // Bytes per frame payload
+}
+
+/**
+ * Device Capabilities
+ * What the connected firmware supports, settled by protocol negotiation
+ */
+export interface G2Capabilities extends G2CapabilitiesDescriptor {
+  firmwareVersion: string | null;
+  source: 'descriptor' | 'assumed'; // assumed: no descriptor, defaults of the protocol version
+}
+
+/**
+ * Glasses Settings
+ * Stored on the glasses in SETTINGS_CHARACTERISTIC; a field is absent when the
+ * firmware doesn't have that setting, or (in an update) when it stays unchanged
+ */
+export interface G2Settings {
+  displayTimeout?: number; // Seconds the display stays on, 0 = always on
+  headUpAngle?: number; // Head tilt in degrees that wakes the display, 0 = head-up activation off
+  wearDetection?: boolean; // Sleep when the glasses are taken off
+  language?: G2Language;
+}
+
+/**
+ * Protocol Version
+ * Encoder/decoder pair registered with the ProtocolRegistry
+ */
+export interface ProtocolDefinition {
+  version: number;
+  name: string;
+  encoder: IProtocolEncoder;
+  decoder: IProtocolDecoder;
+  defaults: Omit<G2CapabilitiesDescriptor, 'protocolVersion'>; // Assumed without a descriptor
+  minFirmware?: string; // Oldest firmware speaking this version, matched when there is no descriptor; unset = descriptor only
+}
+
+/**
+ * Outcome of protocol negotiation
+ */
+export interface NegotiatedProtocol {
+  protocol: ProtocolDefinition;
+  capabilities: G2Capabilities;
+}
@@ -111,8 +111,10 @@ export enum CalendarType {
 export interface NextEventInfo {
   event: CalendarEvent;
   timeUntilStart: number; // milliseconds
+  timeRemaining: number; // milliseconds until the event ends
   isStartingSoon: boolean; // within 15 minutes
   isInProgress: boolean;
+  progress: number; // Share of the event elapsed, 0-1; 0 before it starts
   displayText: NextEventDisplayText;
 }
 
@@ -193,6 +195,7 @@ export interface CalendarServiceConfig {
   enableNativeCalendar: boolean;
   autoSync: boolean;
   syncOnAppStart: boolean;
+  handoffLeadTime?: number; // ms before an event in progress ends that a following event takes over
 }
 
 /**
@@ -226,6 +229,7 @@ export interface ICalendarService {
   // Events
   getEvents(options?: CalendarFilterOptions): Promise<CalendarEvent[]>;
   getNextEvent(): Promise<NextEventInfo | null>;
+  getEventInfo(event: CalendarEvent, now?: Date): NextEventInfo;
   getUpcomingEvents(count: number): Promise<CalendarEvent[]>;
   
   // Sync
@@ -0,0 +1,161 @@
+/**
+ * Firmware Update Type Definitions
+ * Over-the-air (DFU) updates of the G2 firmware
+ */
+
+import { G2Arm } from './ble.types';
+
+/**
+ * Firmware Image Format
+ * Header: [magic "G2FW"][format][model][major][minor][patch][reserved(3)][body length u32 LE][body CRC-32 u32 LE]
+ */
+export const FIRMWARE_IMAGE = {
+  MAGIC: [0x47, 0x32, 0x46, 0x57], // "G2FW"
+  FORMAT_VERSION: 1,
+  HEADER_LENGTH: 20,
+  MAX_BODY_LENGTH: 4 * 1024 * 1024,
+} as const;
+
+/**
+ * DFU Wire Format
+ * Chunk (data characteristic): [offset u32 LE][chunk CRC-32 u32 LE][bytes]
+ * Response (control notification): [0x10][request opcode][status][offset u32 LE]
+ */
+export const DFU_PACKET = {
+  CHUNK_HEADER_LENGTH: 8,
+  RESPONSE_CODE: 0x10,
+  RESPONSE_LENGTH: 7,
+  START_LENGTH: 12,
+} as const;
+
+/**
+ * DFU Request Opcodes
+ */
+export enum DfuOpcode {
+  START = 0x01, // [size u32][image CRC-32 u32][major][minor][patch]
+  DATA = 0x02, // Only used in responses; chunks go to the data characteristic
+  VALIDATE = 0x03,
+  ACTIVATE = 0x04,
+  ABORT = 0x05,
+}
+
+/**
+ * DFU Response Status
+ */
+export enum DfuStatus {
+  SUCCESS = 0x00,
+  INVALID_STATE = 0x01,
+  CHECKSUM_ERROR = 0x02,
+  OFFSET_MISMATCH = 0x03,
+  INSUFFICIENT_SPACE = 0x04,
+  INVALID_IMAGE = 0x05,
+}
+
+/**
+ * Decoded response from the control characteristic
+ */
+export interface DfuResponse {
+  opcode: DfuOpcode;
+  status: DfuStatus;
+  offset: number; // Next byte the glasses expect
+}
+
+/**
+ * Firmware Version
+ */
+export interface FirmwareVersion {
+  major: number;
+  minor: number;
+  patch: number;
+}
+
+/**
+ * Validated Firmware Image
+ */
+export interface FirmwareImage {
+  version: FirmwareVersion;
+  model: number;
+  body: Uint8Array; // Bytes streamed to the glasses (header excluded)
+  crc32: number;
+}
+
+/**
+ * Update States
+ */
+export enum DfuState {
+  IDLE = 'IDLE',
+  PREPARING = 'PREPARING', // START sent, waiting for the resume offset
+  TRANSFERRING = 'TRANSFERRING',
+  WAITING_FOR_RECONNECT = 'WAITING_FOR_RECONNECT', // Link lost mid-transfer
+  VALIDATING = 'VALIDATING',
+  REBOOTING = 'REBOOTING',
+  VERIFYING = 'VERIFYING', // Reading the version after the reboot
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+  ABORTED = 'ABORTED',
+}
+
+/**
+ * Update Progress
+ */
+export interface DfuProgress {
+  state: DfuState;
+  arm: G2Arm | null; // Arm being updated
+  bytesSent: number;
+  totalBytes: number;
+  percent: number; // 0-100
+  bytesPerSecond: number | null;
+  resumedFrom: number | null; // Offset the last (re)start continued from
+}
+
+/**
+ * Update Options
+ */
+export interface DfuUpdateOptions {
+  arms?: G2Arm[]; // Defaults to every connected arm
+  force?: boolean; // Flash even if the glasses already run this version
+}
+
+/**
+ * DFU Error Types
+ */
+export enum DfuErrorType {
+  INVALID_IMAGE = 'INVALID_IMAGE',
+  NOT_CONNECTED = 'NOT_CONNECTED',
+  NOT_SUPPORTED = 'NOT_SUPPORTED', // Firmware without the DFU service
+  BUSY = 'BUSY',
+  REJECTED = 'REJECTED', // The glasses answered with an error status
+  TIMEOUT = 'TIMEOUT',
+  TRANSFER_FAILED = 'TRANSFER_FAILED',
+  VERSION_MISMATCH = 'VERSION_MISMATCH', // Rebooted into a different version
+  ABORTED = 'ABORTED',
+}
+
+/**
+ * DFU Error
+ */
+export interface DfuError {
+  type: DfuErrorType;
+  message: string;
+  status?: DfuStatus;
+  arm?: G2Arm;
+  originalError?: Error;
+  timestamp: Date;
+}
+
+/**
+ * DFU Service Configuration
+ */
+export interface DfuServiceConfig {
+  maxChunkSize: number; // bytes of image per chunk, capped by the MTU
+  responseTimeout: number; // ms to wait for a control response
+  maxChunkRetries: number; // Resends of a chunk the glasses rejected
+  reconnectTimeout: number; // ms to wait for the link to return before giving up
+  maxResumes: number; // Transfers resumed after a link loss
+  rebootTimeout: number; // ms for the glasses to reboot and reconnect after activation
+}
+
+/**
+ * DFU Callbacks
+ */
+export type DfuProgressCallback = (progress: DfuProgress) => void;
@@ -3,6 +3,8 @@
  * Optimized for Even G2 640×200 monochrome display
  */
 
+import { G2Capabilities, G2Feature, GraphicsDisplayCommand } from './ble.types';
+
 /**
  * Display Dimensions
  */
@@ -26,11 +28,50 @@ export interface DisplayRegion {
  * Predefined Display Regions for Calendar Layout
  */
 export const CALENDAR_LAYOUT = {
+  BANNER: { x: 10, y: 0, width: 620, height: 18 }, // Alerts such as low battery
   TITLE: { x: 10, y: 20, width: 620, height: 40 },
   TIME: { x: 10, y: 70, width: 620, height: 30 },
   LOCATION: { x: 10, y: 110, width: 620, height: 25 },
   TIME_UNTIL: { x: 10, y: 145, width: 620, height: 25 },
   DURATION: { x: 10, y: 175, width: 620, height: 20 },
+  PROGRESS: { x: 10, y: 178, width: 620, height: 14 }, // Takes the duration line while an event is in progress
+} as const;
+
+/**
+ * Agenda Layout
+ * A header line, then one compact row per event: time, title and a location marker
+ */
+export const AGENDA_LAYOUT = {
+  HEADER: { x: 10, y: 20, width: 540, height: 22 },
+  PAGE: { x: 550, y: 20, width: 80, height: 22 }, // "2/3", only with several pages
+  FIRST_ROW_Y: 46,
+  ROW_HEIGHT: 30,
+  ROWS_PER_PAGE: 5,
+  TIME_WIDTH: 120, // Fits "Tue 10:00 AM"
+  MARKER_WIDTH: 20,
+  LOCATION_MARKER: '@',
+} as const;
+
+/**
+ * Timeline Layout
+ * A header line, today's events as blocks on a time axis, then hour labels
+ * The axis is a bitmap; rows within it are relative to BAR.y
+ */
+export const TIMELINE_LAYOUT = {
+  HEADER: { x: 10, y: 20, width: 620, height: 22 },
+  BAR: { x: 10, y: 56, width: 620, height: 56 },
+  BLOCK_TOP: 8,
+  BLOCK_BOTTOM: 40, // Exclusive
+  AXIS_Y: 44,
+  TICK_LENGTH: 5,
+  NOW_MARKER_WIDTH: 2,
+  MIN_BLOCK_WIDTH: 2, // Short events stay visible
+  LABEL_Y: 114,
+  LABEL_WIDTH: 50,
+  LABEL_HEIGHT: 20,
+  MIN_LABEL_SPACING: 50, // Hour labels are skipped to keep them this far apart
+  DAY_START_HOUR: 8, // Always shown; earlier or later events widen the range
+  DAY_END_HOUR: 18,
 } as const;
 
 /**
@@ -49,6 +90,8 @@ export enum FontSize {
 export interface TextStyle {
   fontSize: FontSize;
   bold?: boolean;
+  inverted?: boolean;
+  underline?: boolean;
   alignment?: 'left' | 'center' | 'right';
 }
 
@@ -72,6 +115,60 @@ export interface CalendarDisplayLayout {
   location?: DisplayElement;
   timeUntil: DisplayElement;
   duration?: DisplayElement;
+  progress?: BitmapData; // Drawn at CALENDAR_LAYOUT.PROGRESS
+  banner?: DisplayElement;
+}
+
+/**
+ * One event in the agenda, pre-formatted for display
+ */
+export interface AgendaEntry {
+  time: string; // "10:00 AM", "Tue 10:00 AM", "Now"
+  title: string;
+  hasLocation: boolean;
+}
+
+/**
+ * Agenda Row
+ */
+export interface AgendaRow {
+  time: DisplayElement;
+  title: DisplayElement;
+  locationMarker?: DisplayElement;
+}
+
+/**
+ * Agenda Display Layout
+ * One page of upcoming events
+ */
+export interface AgendaDisplayLayout {
+  header: DisplayElement;
+  pageIndicator?: DisplayElement;
+  rows: AgendaRow[];
+  banner?: DisplayElement;
+  page: number; // 0-based, clamped to the pages available
+  pageCount: number;
+}
+
+/**
+ * One event on the timeline
+ */
+export interface TimelineEntry {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Timeline Display Layout
+ * Today's events drawn to a bitmap, with text around it
+ */
+export interface TimelineDisplayLayout {
+  header: DisplayElement;
+  hourLabels: DisplayElement[];
+  bar: BitmapData; // Drawn at TIMELINE_LAYOUT.BAR
+  rangeStart: Date; // Time at the left edge of the bar
+  rangeEnd: Date; // Time at the right edge
+  banner?: DisplayElement;
 }
 
 /**
@@ -90,6 +187,7 @@ export interface DisplayUpdate {
   type: DisplayUpdateType;
   elements: DisplayElement[];
   clearBefore?: boolean;
+  graphics?: GraphicsDisplayCommand[]; // Drawn after the elements
   timestamp: Date;
 }
 
@@ -155,6 +253,11 @@ export interface IDisplayRenderer {
   // Initialization
   initialize(config: DisplayRendererConfig): void;
   
+  // Device Capabilities
+  setCapabilities(capabilities: G2Capabilities | null): void;
+  getCapabilities(): G2Capabilities | null;
+  supportsFeature(feature: G2Feature): boolean;
+  
   // Layout Management
   createCalendarLayout(
     title: string,
@@ -163,6 +266,10 @@ export interface IDisplayRenderer {
     timeUntil?: string,
     duration?: string
   ): CalendarDisplayLayout;
+  createBannerElement(text: string): DisplayElement;
+  createProgressBar(progress: number): BitmapData;
+  createAgendaLayout(entries: AgendaEntry[], page: number): AgendaDisplayLayout;
+  createTimelineLayout(entries: TimelineEntry[], now: Date): TimelineDisplayLayout;
   
   // Text Processing
   wrapText(text: string, options: TextWrappingOptions): string[];
@@ -171,6 +278,8 @@ export interface IDisplayRenderer {
   
   // Rendering
   renderLayout(layout: CalendarDisplayLayout): DisplayUpdate;
+  renderAgendaLayout(layout: AgendaDisplayLayout): DisplayUpdate;
+  renderTimelineLayout(layout: TimelineDisplayLayout): DisplayUpdate;
   renderElement(element: DisplayElement): DisplayUpdate;
   clearRegion(region: DisplayRegion): DisplayUpdate;
   clearAll(): DisplayUpdate;
@@ -194,7 +303,10 @@ export interface ITextFormatter {
   formatTimeRange(start: Date, end: Date, format: '12h' | '24h'): string;
   formatDuration(milliseconds: number): string;
   formatTimeUntil(milliseconds: number): string;
+  formatTimeRemaining(milliseconds: number): string;
   formatDate(date: Date, format: 'short' | 'medium' | 'long'): string;
+  formatAgendaTime(start: Date, end: Date, allDay: boolean, format: '12h' | '24h'): string;
+  formatHour(date: Date, format: '12h' | '24h'): string;
   
   // Text Processing
   truncate(text: string, maxLength: number, ellipsis?: boolean): string;
@@ -229,7 +341,8 @@ export interface DisplayOptimizationConfig {
 }
 
 /**
- * Bitmap Data (for future graphics support)
+ * Bitmap Data
+ * Same packing as a GRAPHICS payload: MSB first, 1 = lit, rows padded to whole bytes
  */
 export interface BitmapData {
   width: number;
@@ -0,0 +1,45 @@
+/**
+ * Gesture Type Definitions
+ * TouchBar gestures bound to app actions
+ */
+
+import { G2Arm, TouchBarEventType } from './ble.types';
+
+/**
+ * What the glasses are showing
+ * Bindings can differ per screen
+ */
+export enum GlassesScreen {
+  NEXT_EVENT = 'NEXT_EVENT', // The event in progress or the next one, unless paged forward
+  AGENDA = 'AGENDA', // A page of upcoming events; next and previous turn the page
+  TIMELINE = 'TIMELINE', // Today's events on a time axis
+  IDLE = 'IDLE', // Display cleared
+}
+
+/**
+ * Gesture Actions
+ */
+export enum GestureAction {
+  NONE = 'NONE', // Ignore the gesture, e.g. to override a broader binding
+  NEXT_EVENT = 'NEXT_EVENT',
+  PREVIOUS_EVENT = 'PREVIOUS_EVENT',
+  DISMISS = 'DISMISS', // Hide the event until a different one is next
+  SNOOZE = 'SNOOZE', // Hide the display for a while
+  TOGGLE_AGENDA = 'TOGGLE_AGENDA',
+  TOGGLE_TIMELINE = 'TOGGLE_TIMELINE',
+  BRIGHTNESS_UP = 'BRIGHTNESS_UP',
+  BRIGHTNESS_DOWN = 'BRIGHTNESS_DOWN',
+  CLEAR_DISPLAY = 'CLEAR_DISPLAY',
+}
+
+/**
+ * Gesture Binding
+ * The most specific binding for a gesture wins: a screen match outranks an
+ * arm match, which outranks a binding for any arm on any screen
+ */
+export interface GestureBinding {
+  gesture: TouchBarEventType;
+  arm: G2Arm | null; // null matches either arm
+  screen: GlassesScreen | null; // null matches every screen
+  action: GestureAction;
+}
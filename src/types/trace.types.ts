@@ -0,0 +1,98 @@
+/**
+ * Protocol Trace Type Definitions
+ * Capture, export and replay of G2 link traffic
+ */
+
+import { DisplayCommand, G2Notification, G2CapabilitiesDescriptor, G2Settings } from './ble.types';
+
+/**
+ * Capture Format
+ */
+export const TRACE_FORMAT = {
+  NAME: 'g2-trace',
+  VERSION: 1,
+} as const;
+
+/**
+ * Traffic direction, from the app's point of view
+ */
+export type TraceDirection = 'write' | 'read' | 'notify';
+
+/**
+ * Meaning of one traced packet
+ */
+export type TraceDecoded =
+  | { kind: 'command'; sequence: number; command: DisplayCommand }
+  | { kind: 'fragment'; messageId: number; index: number; total: number } // Part of a larger message
+  | { kind: 'notification'; notification: G2Notification }
+  | { kind: 'battery'; level: number }
+  | { kind: 'firmware'; version: string }
+  | { kind: 'capabilities'; descriptor: G2CapabilitiesDescriptor }
+  | { kind: 'settings'; settings: G2Settings } // Read back, or the changes written
+  | { kind: 'dfu'; description: string }
+  | { kind: 'raw' } // Characteristic without a decoder
+  | { kind: 'error'; message: string };
+
+/**
+ * Trace Entry
+ * One GATT write, read or notification
+ */
+export interface TraceEntry {
+  index: number; // Increases across the whole capture, including dropped entries
+  timestamp: Date;
+  direction: TraceDirection;
+  deviceId: string;
+  serviceUUID: string;
+  characteristicUUID: string;
+  data: Uint8Array;
+  summary: string; // Decoded meaning, for humans
+}
+
+/**
+ * Trace entry as stored in a JSON capture
+ */
+export interface SerializedTraceEntry {
+  index: number;
+  timestamp: string; // ISO 8601
+  direction: TraceDirection;
+  deviceId: string;
+  serviceUUID: string;
+  characteristicUUID: string;
+  data: string; // Hex
+  summary: string;
+}
+
+/**
+ * Exported Capture
+ */
+export interface TraceCapture {
+  format: typeof TRACE_FORMAT.NAME;
+  version: number;
+  exportedAt: string; // ISO 8601
+  dropped: number; // Entries pushed out of the ring buffer before the export
+  entries: SerializedTraceEntry[];
+}
+
+/**
+ * Decoded capture entry, as returned by the replayer
+ */
+export interface ReplayedEntry {
+  entry: SerializedTraceEntry;
+  decoded: TraceDecoded[]; // A notification may carry several frames
+}
+
+/**
+ * Replay Options
+ */
+export interface ReplayOptions {
+  deviceId?: string; // Target peripheral, defaults to the device in each entry
+  speed?: number; // 1 keeps the captured timing, 2 doubles it, 0 (default) sends back to back
+}
+
+/**
+ * Protocol Tracer Configuration
+ */
+export interface ProtocolTracerConfig {
+  capacity: number; // Entries kept in the ring buffer
+  enabled: boolean;
+}
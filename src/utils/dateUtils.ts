@@ -4,6 +4,7 @@
  */
 
 import { CalendarEvent, NextEventDisplayText } from '@/types/calendar.types';
+import { AgendaEntry } from '@/types/display.types';
 import { TextFormatter } from '@/services/display/TextFormatter';
 
 const textFormatter = new TextFormatter();
@@ -16,16 +17,42 @@ export function formatNextEventDisplay(
   timeUntilStart: number
 ): NextEventDisplayText {
   const duration = event.endDate.getTime() - event.startDate.getTime();
+  const timeRemaining = duration + timeUntilStart;
   
   return {
     title: textFormatter.formatEventTitle(event.title, 60),
     timeRange: textFormatter.formatTimeRange(event.startDate, event.endDate, '12h'),
     location: event.location ? textFormatter.formatLocation(event.location, 50) : undefined,
-    timeUntil: textFormatter.formatTimeUntil(timeUntilStart),
+    // An event in progress counts down to its end instead
+    timeUntil: timeUntilStart <= 0 && timeRemaining > 0
+      ? textFormatter.formatTimeRemaining(timeRemaining)
+      : textFormatter.formatTimeUntil(timeUntilStart),
     duration: textFormatter.formatDuration(duration),
   };
 }
 
+/**
+ * Format an event as an agenda row
+ */
+export function formatAgendaEntry(event: CalendarEvent): AgendaEntry {
+  return {
+    time: textFormatter.formatAgendaTime(event.startDate, event.endDate, event.allDay, '12h'),
+    title: textFormatter.formatEventTitle(event.title, 60),
+    hasLocation: !!event.location,
+  };
+}
+
+/**
+ * Local midnight at the start of the date's day, and at the start of the next
+ */
+export function getDayBounds(date: Date): { start: Date; end: Date } {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return { start, end };
+}
+
 /**
  * Check if event is today
  */